@@ -1,118 +1,199 @@
 "use client"; // This component needs client-side interactivity
 
-import { useState, useEffect, useMemo, useCallback } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
-import Image from "next/image";
-
-// Define the Doctor type based on the provided JSON structure
-interface Doctor {
-  id: string;
-  name: string;
-  name_initials: string;
-  photo: string; // Changed from profile_img
-  doctor_introduction: string;
-  specialities: { name: string }[]; // Changed from specialty: string
-  fees: string;
-  experience: string;
-  languages: string[];
-  clinic: {
-    name: string;
-    address: {
-      locality: string;
-      city: string;
-      address_line1: string;
-      location: string;
-      logo_url?: string; // Optional logo
-    };
-  };
-  video_consult: boolean; // Added based on JSON
-  in_clinic: boolean; // Added based on JSON
-  // ratings?: number; // Add if ratings might exist in the full dataset, otherwise remove
+import type { ConsultationMode, Doctor } from "@/types/doctor";
+import { fetchAllDoctors } from "@/lib/doctors/client";
+import {
+  applyListingFilters,
+  FacetOption,
+  getFacets,
+  isConsultationMode,
+  parseRangeParam,
+  TOP_RATING,
+} from "@/lib/doctors/listing";
+import { SORT_KEYS, SortCriterion, sortCriterion } from "@/lib/doctors/sort";
+import { GeoPoint, getLocalityCenter } from "@/lib/doctors/geo";
+import { paginate } from "@/lib/doctors/pagination";
+import { ListingQuery, parseListingQuery, serializeListingQuery } from "@/lib/doctors/query";
+import type { Suggestion } from "@/lib/doctors/search";
+import { shortlistHref } from "@/lib/doctors/shortlist";
+import { compareHref, MAX_COMPARE, MIN_COMPARE } from "@/lib/doctors/compare";
+import { toSearchQuery } from "@/lib/doctors/savedSearches";
+import { PRINT_PATH } from "@/lib/doctors/export";
+import { listingTitle } from "@/lib/doctors/seo";
+import { convertMoney, DEFAULT_DISPLAY_CURRENCY, DISPLAY_CURRENCIES, EXCHANGE_RATES } from "@/lib/doctors/currency";
+import type { MessageKey } from "@/lib/i18n/translate";
+import useShortlist from "./hooks/useShortlist";
+import useSearchHistory from "./hooks/useSearchHistory";
+import useI18n from "./hooks/useI18n";
+import DoctorCard from "./components/DoctorCard";
+import FacetCheckboxList from "./components/FacetCheckboxList";
+import SortControls from "./components/SortControls";
+import SearchAutocomplete from "./components/SearchAutocomplete";
+import Pagination from "./components/Pagination";
+import SavedSearches from "./components/SavedSearches";
+import ExportMenu from "./components/ExportMenu";
+
+interface DoctorListingProps {
+  initialDoctors: Doctor[] | null; // null: the server couldn't load them, so they're fetched here
 }
 
-
-// Helper function to parse fees (e.g., "₹ 500" -> 500)
-const parseFee = (feeString: string): number => {
-  // More robust parsing for currency symbols and potential commas
-  return parseInt(feeString?.replace(/[^0-9.]/g, ""), 10) || 0;
-};
-
-// Helper function to parse experience (e.g., "13 Years of experience" -> 13)
-const parseExperience = (expString: string): number => {
-  // Handle cases where the string might not follow the exact format
-  const match = expString?.match(/^(\d+)/);
-  return match ? parseInt(match[1], 10) : 0;
-};
-
-export default function DoctorListingPage() {
+export default function DoctorListing({ initialDoctors }: DoctorListingProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { t } = useI18n();
 
   // == State ==
-  const [allDoctors, setAllDoctors] = useState<Doctor[]>([]);
-  const [filteredDoctors, setFilteredDoctors] = useState<Doctor[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  // The server renders the page with the doctors already loaded and the filters from the URL applied
+  const [initialQuery] = useState(() => parseListingQuery(searchParams).query);
+  const [allDoctors, setAllDoctors] = useState<Doctor[]>(initialDoctors ?? []);
+  const [isLoading, setIsLoading] = useState<boolean>(initialDoctors === null);
+  const [error, setError] = useState<string | null>(null); // Why loading failed; the message is built when rendering
 
   // Search State
-  const [searchTerm, setSearchTerm] = useState<string>("");
-  const [suggestions, setSuggestions] = useState<Doctor[]>([]);
+  const [searchTerm, setSearchTerm] = useState<string>(initialQuery.search);
 
   // Filter State
-  const [selectedConsultation, setSelectedConsultation] = useState<string | null>(null); // "video" or "clinic"
-  const [selectedSpecialties, setSelectedSpecialties] = useState<string[]>([]);
-  const [sortBy, setSortBy] = useState<string | null>(null); // 'fees' or 'experience'
+  const [selectedConsultation, setSelectedConsultation] = useState<ConsultationMode | null>(initialQuery.consultation);
+  const [selectedSpecialties, setSelectedSpecialties] = useState<string[]>(initialQuery.specialties);
+  const [selectedClinic, setSelectedClinic] = useState<string | null>(initialQuery.clinic);
+  const [selectedCities, setSelectedCities] = useState<string[]>(initialQuery.cities);
+  const [selectedLocalities, setSelectedLocalities] = useState<string[]>(initialQuery.localities);
+  const [selectedLanguages, setSelectedLanguages] = useState<string[]>(initialQuery.languages);
+  const [minFee, setMinFee] = useState<number | null>(initialQuery.minFee);
+  const [maxFee, setMaxFee] = useState<number | null>(initialQuery.maxFee);
+  const [displayCurrency, setDisplayCurrency] = useState<string | null>(initialQuery.currency); // null: the default currency
+  const [minExperience, setMinExperience] = useState<number | null>(initialQuery.minExperience); // Years
+  const [minRating, setMinRating] = useState<number | null>(initialQuery.minRating); // Stars
+  const [availableToday, setAvailableToday] = useState<boolean>(initialQuery.availableToday);
+  const [sortCriteria, setSortCriteria] = useState<SortCriterion[]>(initialQuery.sort);
+  const [nearLocation, setNearLocation] = useState<GeoPoint | null>(initialQuery.near); // Origin for "Nearest First"
+  const [locationError, setLocationError] = useState<MessageKey | null>(null);
+
+  // Pagination State
+  const [page, setPage] = useState<number>(initialQuery.page);
+  const resultsRef = useRef<HTMLElement>(null);
+
+  // Doctors picked for the comparison table, in the order they were picked
+  const [compareIds, setCompareIds] = useState<string[]>(initialQuery.compare);
+
+  // URL params the listing doesn't use (utm_source, ...), kept as they are
+  const [extraParams, setExtraParams] = useState<[string, string][]>(initialQuery.extra);
+
+  const { ids: shortlistIds } = useShortlist();
+  const { recent: recentSearches, recordRecent } = useSearchHistory();
 
   // == Data Fetching ==
+  // Only needed when the server-rendered page came without doctors
+  const shouldFetch = initialDoctors === null;
   useEffect(() => {
+    if (!shouldFetch) return;
     const fetchData = async () => {
       setIsLoading(true);
       setError(null);
       try {
-        // Using the provided API endpoint
-        const response = await fetch(
-          "https://srijandubey.github.io/campus-api-mock/SRM-C1-25.json"
-        );
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const data: Doctor[] = await response.json();
-        // Basic validation or transformation if needed
-        setAllDoctors(data || []); // Ensure data is an array
+        setAllDoctors(await fetchAllDoctors());
       } catch (e: unknown) {
         console.error("Failed to fetch doctors:", e);
-        setError(
-          `Failed to load doctor data. ${e instanceof Error ? e.message : "Please try again later."}`
-        );
+        setError(e instanceof Error ? e.message : "");
       } finally {
         setIsLoading(false);
       }
     };
     fetchData();
-  }, []); // Fetch only once on mount
+  }, [shouldFetch]); // Fetch only once on mount
 
   // == URL Parameter Synchronization ==
-  // Initialize state from URL params on mount and when params change
+  // Initialize state from URL params on mount and when params change; invalid values are dropped
   useEffect(() => {
-    const params = new URLSearchParams(searchParams.toString());
-    setSearchTerm(params.get("search") || "");
-    setSelectedConsultation(params.get("consultation")); // e.g., "video", "clinic"
-    setSelectedSpecialties(params.getAll("specialty") || []); // Specialty names
-    setSortBy(params.get("sort")); // "fees", "experience"
+    const { query } = parseListingQuery(searchParams);
+    setSearchTerm(query.search);
+    setSelectedConsultation(query.consultation); // e.g., "video", "clinic"
+    setSelectedSpecialties(query.specialties); // Specialty names
+    setSelectedClinic(query.clinic); // Clinic name
+    setSelectedCities(query.cities);
+    setSelectedLocalities(query.localities);
+    setSelectedLanguages(query.languages);
+    setMinFee(query.minFee);
+    setMaxFee(query.maxFee);
+    setDisplayCurrency(query.currency);
+    setMinExperience(query.minExperience);
+    setMinRating(query.minRating);
+    setAvailableToday(query.availableToday);
+    setNearLocation(query.near); // "lat,lng"
+    setSortCriteria(query.sort); // e.g. "fees", "experience:desc,fees"
+    setPage(query.page);
+    setCompareIds(query.compare);
+    setExtraParams(query.extra); // Campaign tags etc. ride along untouched
   }, [searchParams]);
 
+  // The URL state, minus the page number and the comparison picks
+  const listingQuery = useMemo<ListingQuery>(
+    () => ({
+      search: searchTerm,
+      consultation: selectedConsultation,
+      specialties: selectedSpecialties,
+      clinic: selectedClinic,
+      cities: selectedCities,
+      localities: selectedLocalities,
+      languages: selectedLanguages,
+      minFee,
+      maxFee,
+      currency: displayCurrency,
+      minExperience,
+      minRating,
+      availableToday,
+      sort: sortCriteria,
+      near: nearLocation,
+      page: 1,
+      compare: [],
+      extra: extraParams,
+    }),
+    [
+      searchTerm,
+      selectedConsultation,
+      selectedSpecialties,
+      selectedClinic,
+      selectedCities,
+      selectedLocalities,
+      selectedLanguages,
+      minFee,
+      maxFee,
+      displayCurrency,
+      minExperience,
+      minRating,
+      availableToday,
+      sortCriteria,
+      nearLocation,
+      extraParams,
+    ]
+  );
+  const filterQuery = useMemo(() => serializeListingQuery(listingQuery).toString(), [listingQuery]);
+
+  // Back to the first page when the filters or sort change, but not when they were just read
+  // from the URL (initial load, back/forward), where the URL's own page number applies
+  const previousFilterQuery = useRef<string | null>(null);
+  useEffect(() => {
+    const changed = previousFilterQuery.current !== null && previousFilterQuery.current !== filterQuery;
+    previousFilterQuery.current = filterQuery;
+    const urlFilterQuery = serializeListingQuery({
+      ...parseListingQuery(searchParams).query,
+      page: 1,
+      compare: [],
+    }).toString();
+    if (changed && filterQuery !== urlFilterQuery) setPage(1);
+  }, [filterQuery, searchParams]);
+
   // Update URL params whenever filters change
   const updateUrlParams = useCallback(() => {
-    const params = new URLSearchParams(searchParams.toString());
-    if (searchTerm) params.set("search", searchTerm);
-    if (selectedConsultation) params.set("consultation", selectedConsultation);
-    selectedSpecialties.forEach((spec) => params.append("specialty", spec));
-    if (sortBy) params.set("sort", sortBy);
+    const params = serializeListingQuery({ ...listingQuery, page, compare: compareIds });
 
-    // Use replace to avoid pushing duplicate history entries for filter changes
-    // Construct the path relative to the current page or provide the full path
-    router.replace(`?${params.toString()}`, { scroll: false });
-  }, [searchTerm, selectedConsultation, selectedSpecialties, sortBy, router]);
+    // Replace to avoid pushing duplicate history entries for filter changes. The history API updates
+    // useSearchParams without asking the server to render the page (and the whole roster) again.
+    window.history.replaceState(null, "", `?${params.toString()}`);
+  }, [listingQuery, page, compareIds]);
 
   // Call updateUrlParams whenever a relevant state changes
   useEffect(() => {
@@ -120,343 +201,576 @@ export default function DoctorListingPage() {
   }, [updateUrlParams]); // Depends on the memoized function
 
   // == Filtering and Sorting Logic ==
-  useEffect(() => {
-    let result = [...allDoctors];
-
-    // 1. Search Filter (applied first based on search term state)
-    if (searchTerm) {
-      const lowerSearchTerm = searchTerm.toLowerCase();
-      result = result.filter((doctor) =>
-        doctor.name.toLowerCase().includes(lowerSearchTerm)
-      );
-    }
-
-    // 2. Consultation Type Filter (Updated logic)
-    if (selectedConsultation) {
-      result = result.filter((doctor) => {
-        if (selectedConsultation === "video") return doctor.video_consult;
-        if (selectedConsultation === "clinic") return doctor.in_clinic;
-        return false; // Should not happen if values are controlled
-      });
-    }
+  const filteredDoctors = useMemo(() => applyListingFilters(allDoctors, listingQuery), [allDoctors, listingQuery]);
 
-    // 3. Specialties Filter (Updated logic for array)
-    if (selectedSpecialties.length > 0) {
-      result = result.filter((doctor) =>
-        // Check if at least one of the doctor's specialties is in the selected list
-        doctor.specialities.some(specObj => selectedSpecialties.includes(specObj.name))
-      );
-    }
+  // == Current Page of Results ==
+  const currentPage = useMemo(() => paginate(filteredDoctors, page), [filteredDoctors, page]);
 
-    // 4. Sorting
-    if (sortBy) {
-      result.sort((a, b) => {
-        if (sortBy === "fees") {
-          return parseFee(a.fees) - parseFee(b.fees); // Ascending
-        } else if (sortBy === "experience") {
-          return parseExperience(b.experience) - parseExperience(a.experience); // Descending
-        }
-        return 0;
-      });
-    }
-
-    setFilteredDoctors(result);
+  const handlePageChange = (nextPage: number) => {
+    setPage(nextPage);
+    resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
 
-  }, [allDoctors, searchTerm, selectedConsultation, selectedSpecialties, sortBy]);
+  // == Comparison Picks ==
+  const handleCompareToggle = (doctorId: string) =>
+    setCompareIds((prev) =>
+      prev.includes(doctorId)
+        ? prev.filter((id) => id !== doctorId)
+        : prev.length < MAX_COMPARE
+          ? [...prev, doctorId]
+          : prev
+    );
+  const compareDoctors = compareIds
+    .map((id) => allDoctors.find((doctor) => doctor.id === id))
+    .filter((doctor): doctor is Doctor => !!doctor);
+
+  // == Facet Options and Live Counts ==
+  // Each count is what that option would return given the other active filters
+  const facets = useMemo(() => getFacets(allDoctors, listingQuery), [allDoctors, listingQuery]);
+  const facetCounts = (options: FacetOption[]) =>
+    Object.fromEntries(options.map(({ value, count }) => [value, count]));
+  const consultationCounts = facetCounts(facets.consultation);
+
+  // == Saved and Recent Searches ==
+  // Search term, consultation mode, specialties and sort; the rest of the filters aren't saved
+  const searchQuery = toSearchQuery(listingQuery);
+
+  // Opens a saved or recent search as a new history entry; the other filters start over
+  const handleOpenSearch = (query: string) => {
+    const params = serializeListingQuery({
+      ...parseListingQuery(query).query,
+      compare: compareIds,
+      extra: extraParams,
+    });
+    router.push(`?${params.toString()}`, { scroll: false });
+  };
 
+  const handleSearchSubmit = (value: string) => {
+    if (value.trim()) recordRecent(searchQuery);
+  };
 
-  // == Autocomplete Suggestions Logic ==
-  useEffect(() => {
-    if (searchTerm.length > 0 && allDoctors.length > 0) {
-       const lowerSearchTerm = searchTerm.toLowerCase();
-      const matches = allDoctors
-        .filter((doctor) =>
-          doctor.name.toLowerCase().includes(lowerSearchTerm)
-        )
-        .slice(0, 5); // Suggest up to 5 matches
-      setSuggestions(matches);
+  // == Event Handlers ==
+  // Doctor suggestions fill in the search box; specialty and clinic suggestions become filters
+  const handleSuggestionSelect = (suggestion: Suggestion) => {
+    if (suggestion.kind === "doctor") {
+      setSearchTerm(suggestion.value);
+      recordRecent(toSearchQuery({ ...listingQuery, search: suggestion.value }));
+      return;
+    }
+    setSearchTerm("");
+    if (suggestion.kind === "specialty") {
+      setSelectedSpecialties((prev) =>
+        prev.includes(suggestion.value) ? prev : [...prev, suggestion.value]
+      );
     } else {
-      setSuggestions([]);
+      setSelectedClinic(suggestion.value);
     }
-  }, [searchTerm, allDoctors]);
-
-
-  // == Event Handlers ==
-  const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(event.target.value);
-  };
-
-  const handleSuggestionClick = (doctorName: string) => {
-    setSearchTerm(doctorName);
-    setSuggestions([]); // Hide suggestions after selection
   };
 
-  const handleSearchSubmit = (event: React.FormEvent<HTMLFormElement>) => {
-    event.preventDefault(); // Prevent full page reload
-    setSuggestions([]); // Hide suggestions on submit
-    // Filtering runs via useEffect
+  const handleConsultationChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = event.target; // Value will be "video" or "clinic"
+    if (isConsultationMode(value)) setSelectedConsultation(value);
   };
 
-  const handleConsultationChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSelectedConsultation(event.target.value); // Value will be "video" or "clinic"
+  // The "Nearest First" origin only matters while distance is one of the sort keys
+  const handleSortChange = (criteria: SortCriterion[]) => {
+    setSortCriteria(criteria);
+    if (!criteria.some(({ key }) => key === "distance")) {
+      setNearLocation(null);
+      setLocationError(null);
+    }
   };
 
-  const handleSpecialtyChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const { value, checked } = event.target;
-    setSelectedSpecialties((prev) =>
-      checked ? [...prev, value] : prev.filter((spec) => spec !== value)
+  // Sorts by distance, keeping any other keys after it
+  const sortByDistance = () =>
+    setSortCriteria((prev) =>
+      prev.some(({ key }) => key === "distance") ? prev : [sortCriterion("distance"), ...prev]
     );
-  };
 
-  const handleSortChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSortBy(event.target.value); // Value will be "fees" or "experience"
-  };
+  // == Filter Options (from the facets) ==
+  const uniqueSpecialties = facets.specialties.map(({ value }) => value);
+  const uniqueCities = facets.cities.map(({ value }) => value);
+  const uniqueLanguages = facets.languages.map(({ value }) => value);
 
-  // == Unique Specialties for Filters (Updated logic) ==
-  const uniqueSpecialties = useMemo(() => {
-    const specialties = new Set<string>();
-    // Iterate through each doctor and then their specialties array
+  // Only localities in the selected cities, once any are selected
+  const uniqueLocalities = useMemo(() => {
+    const localities = new Set<string>();
     allDoctors.forEach((doctor) => {
-        doctor.specialities?.forEach(specObj => specialties.add(specObj.name));
+      const address = doctor.clinic?.address;
+      if (!address?.locality) return;
+      if (selectedCities.length > 0 && !selectedCities.includes(address.city)) return;
+      localities.add(address.locality);
     });
+    // Keep selected ones visible so they can still be unchecked
+    selectedLocalities.forEach((locality) => localities.add(locality));
+    return [...localities].sort((a, b) => a.localeCompare(b));
+  }, [allDoctors, selectedCities, selectedLocalities]);
+
+  // == Fee / Experience Bounds for Range Filters ==
+  const feeBounds = facets.fee;
+  const experienceBounds = facets.experience;
+
+  // Empty input clears that end of the range
+  const handleFeeChange = (setter: (value: number | null) => void) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => setter(parseRangeParam(event.target.value));
+
+  // A fee range already set is converted too, widened to whole units so it doesn't drop anyone
+  const handleCurrencyChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const from = displayCurrency ?? DEFAULT_DISPLAY_CURRENCY;
+    const to = event.target.value;
+    const convert = (amount: number | null, round: (value: number) => number) => {
+      if (amount === null) return null;
+      const converted = convertMoney({ amount, currency: from }, to);
+      return converted ? round(converted.amount) : null;
+    };
+    setMinFee(convert(minFee, Math.floor));
+    setMaxFee(convert(maxFee, Math.ceil));
+    setDisplayCurrency(to === DEFAULT_DISPLAY_CURRENCY ? null : to);
+  };
 
-    // Keep the sorting logic if needed, otherwise just return sorted array
-    const testIdOrder = [
-        "General Physician", "Dentist", "Dermatologist", "Paediatrician", "Gynaecologist",
-        "ENT", "Diabetologist", "Cardiologist", "Physiotherapist", "Endocrinologist",
-        "Orthopaedic", "Ophthalmologist", "Gastroenterologist", "Pulmonologist", "Psychiatrist",
-        "Urologist", "Dietitian/Nutritionist", "Psychologist", "Sexologist", "Nephrologist",
-        "Neurologist", "Oncologist", "Ayurveda", "Homeopath"
-    ]; // Example order
-
-    const sortedSpecialties = [...specialties].sort((a, b) => {
-        const indexA = testIdOrder.indexOf(a);
-        const indexB = testIdOrder.indexOf(b);
-        if (indexA !== -1 && indexB !== -1) return indexA - indexB;
-        if (indexA !== -1) return -1;
-        if (indexB !== -1) return 1;
-        return a.localeCompare(b);
-    });
-    return sortedSpecialties;
-  }, [allDoctors]);
+  // == Sort Keys ==
+  // Rating is only offered when the roster actually has ratings
+  const sortKeys = useMemo(
+    () => SORT_KEYS.filter((key) => key !== "rating" || allDoctors.some((doctor) => doctor.ratings !== undefined)),
+    [allDoctors]
+  );
+  const usesDistance = sortCriteria.some(({ key }) => key === "distance");
+
+  // == Location for "Nearest First" ==
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError("filters.locationUnavailable");
+      return;
+    }
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setNearLocation({ lat: coords.latitude, lng: coords.longitude });
+        sortByDistance();
+      },
+      () => setLocationError("filters.locationFailed")
+    );
+  };
+
+  const handleNearLocalityChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const center = getLocalityCenter(allDoctors, event.target.value);
+    if (center) {
+      setNearLocation(center);
+      sortByDistance();
+      setLocationError(null);
+    }
+  };
 
   // == Rendering ==
   return (
-      <div className="container mx-auto p-4 md:p-6 lg:p-8 font-sans">
-        {/* Autocomplete Header */}
-        <div className="mb-6 relative">
-          <form onSubmit={handleSearchSubmit} className="flex items-center">
-            <input
-              type="text"
-              placeholder="Search for doctors by name..."
-              value={searchTerm}
-              onChange={handleSearchChange}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              data-testid="autocomplete-input"
-              aria-autocomplete="list"
-              aria-controls="autocomplete-suggestions"
-            />
-            {/* Optional: Add a search icon button if needed */}
-            {/* <button type="submit" className="ml-2 px-3 py-2 bg-blue-500 text-white rounded">Search</button> */}
-          </form>
-          {suggestions.length > 0 && (
-            <ul
-              id="autocomplete-suggestions"
-              className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-y-auto"
-              role="listbox"
-            >
-              {suggestions.map((doctor) => (
-                <li
-                  key={doctor.id}
-                  onClick={() => handleSuggestionClick(doctor.name)}
-                  className="px-4 py-2 hover:bg-gray-100 cursor-pointer"
-                  data-testid="suggestion-item"
-                  role="option"
-                  aria-selected="false" // Manage aria-selected if implementing keyboard navigation
-                >
-                  {doctor.name}
-                </li>
-              ))}
-            </ul>
-          )}
+    <div className="container mx-auto p-4 md:p-6 lg:p-8 font-sans">
+      <h1 className="text-2xl font-semibold text-gray-800 mb-4" data-testid="listing-title">
+        {listingTitle(listingQuery, t)}
+      </h1>
+
+      {/* Autocomplete Header */}
+      <div className="mb-6 flex items-start gap-4">
+        <div className="flex-1">
+          <SearchAutocomplete
+            doctors={allDoctors}
+            value={searchTerm}
+            onChange={setSearchTerm}
+            onSelect={handleSuggestionSelect}
+            onSubmit={handleSearchSubmit}
+            recentSearches={recentSearches}
+            onRecentSelect={handleOpenSearch}
+          />
         </div>
+        <Link
+          href={shortlistHref()}
+          className="py-2 text-sm text-blue-600 hover:underline whitespace-nowrap"
+          data-testid="shortlist-link"
+        >
+          &hearts; {t("listing.shortlist", { count: shortlistIds.length })}
+        </Link>
+      </div>
 
-        <div className="flex flex-col md:flex-row gap-6">
-          {/* Filter Panel */}
-          <aside className="w-full md:w-1/4 lg:w-1/5 border rounded-lg p-4 self-start shadow bg-white">
-            <h2 className="text-xl font-semibold mb-4 border-b pb-2">Filters</h2>
-
-            {/* Consultation Mode (Updated values) */}
-            <div className="mb-4">
-              <h3 className="font-semibold mb-2" data-testid="filter-header-moc">Consultation Mode</h3>
-              <div className="flex flex-col space-y-1">
-                <label className="flex items-center space-x-2 cursor-pointer">
-                  <input
-                    type="radio"
-                    name="consultationType"
-                    value="video" // Changed value
-                    checked={selectedConsultation === "video"}
-                    onChange={handleConsultationChange}
-                    className="form-radio text-blue-600 focus:ring-blue-500"
-                    data-testid="filter-video-consult"
-                  />
-                  <span>Video Consult</span>
-                </label>
-                <label className="flex items-center space-x-2 cursor-pointer">
-                  <input
-                    type="radio"
-                    name="consultationType"
-                    value="clinic" // Changed value
-                    checked={selectedConsultation === "clinic"}
-                    onChange={handleConsultationChange}
-                    className="form-radio text-blue-600 focus:ring-blue-500"
-                    data-testid="filter-in-clinic"
-                  />
-                  <span>In Clinic</span>
-                </label>
-                {/* Clear option */}
-                 {selectedConsultation && (
-                   <button
-                     onClick={() => setSelectedConsultation(null)}
-                     className="text-sm text-blue-600 hover:underline mt-1 text-left"
-                   >
-                     Clear
-                   </button>
-                 )}
-              </div>
+      <div className="flex flex-col md:flex-row gap-6">
+        {/* Filter Panel */}
+        <aside className="w-full md:w-1/4 lg:w-1/5 border rounded-lg p-4 self-start shadow bg-white">
+          <h2 className="text-xl font-semibold mb-4 border-b pb-2">{t("listing.filters")}</h2>
+
+          <SavedSearches currentQuery={searchQuery} onOpen={handleOpenSearch} />
+
+          {/* Consultation Mode (Updated values) */}
+          <div className="mb-4">
+            <h3 className="font-semibold mb-2" data-testid="filter-header-moc">
+              {t("filters.consultation")}
+            </h3>
+            <div className="flex flex-col space-y-1">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="consultationType"
+                  value="video" // Changed value
+                  checked={selectedConsultation === "video"}
+                  onChange={handleConsultationChange}
+                  className="form-radio text-blue-600 focus:ring-blue-500"
+                  data-testid="filter-video-consult"
+                />
+                <span className={consultationCounts["video"] === 0 ? "text-gray-400" : ""}>
+                  {t("consultation.video")}{" "}
+                  <span className="text-xs text-gray-500">({consultationCounts["video"] ?? 0})</span>
+                </span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="consultationType"
+                  value="clinic" // Changed value
+                  checked={selectedConsultation === "clinic"}
+                  onChange={handleConsultationChange}
+                  className="form-radio text-blue-600 focus:ring-blue-500"
+                  data-testid="filter-in-clinic"
+                />
+                <span className={consultationCounts["clinic"] === 0 ? "text-gray-400" : ""}>
+                  {t("consultation.clinic")}{" "}
+                  <span className="text-xs text-gray-500">({consultationCounts["clinic"] ?? 0})</span>
+                </span>
+              </label>
+              {/* Clear option */}
+              {selectedConsultation && (
+                <button
+                  onClick={() => setSelectedConsultation(null)}
+                  className="text-sm text-blue-600 hover:underline mt-1 text-left"
+                >
+                  {t("common.clear")}
+                </button>
+              )}
             </div>
+          </div>
 
-            {/* Specialties (Uses updated uniqueSpecialties) */}
+          {/* Clinic (set from an autocomplete suggestion) */}
+          {selectedClinic && (
             <div className="mb-4">
-              <h3 className="font-semibold mb-2" data-testid="filter-header-speciality">Specialty</h3>
-              <div className="flex flex-col space-y-1 max-h-60 overflow-y-auto pr-2"> {/* Added padding-right for scrollbar */}
-                {uniqueSpecialties.map((specialty) => (
-                  <label key={specialty} className="flex items-center space-x-2 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      value={specialty} // Value is the specialty name string
-                      checked={selectedSpecialties.includes(specialty)}
-                      onChange={handleSpecialtyChange}
-                      className="form-checkbox text-blue-600 rounded focus:ring-blue-500"
-                      // Generate test-id safely
-                      data-testid={`filter-specialty-${specialty.replace(/[^a-zA-Z0-9]/g, '-')}`}
-                    />
-                    <span>{specialty}</span>
-                  </label>
-                ))}
-                 {/* Clear All for specialties */}
-                  {selectedSpecialties.length > 0 && (
-                    <button
-                        onClick={() => setSelectedSpecialties([])}
-                        className="text-sm text-blue-600 hover:underline mt-1 text-left"
-                    >
-                        Clear Specialties
-                    </button>
-                  )}
+              <h3 className="font-semibold mb-2" data-testid="filter-header-clinic">
+                {t("filters.clinic")}
+              </h3>
+              <div className="flex items-center justify-between gap-2 text-sm bg-blue-50 text-blue-800 px-2 py-1 rounded">
+                <span data-testid="filter-clinic">{selectedClinic}</span>
+                <button
+                  onClick={() => setSelectedClinic(null)}
+                  className="text-blue-600 hover:underline"
+                  aria-label={t("filters.removeClinic", { clinic: selectedClinic })}
+                >
+                  {t("common.clear")}
+                </button>
               </div>
             </div>
+          )}
 
-            {/* Sort */}
-            <div>
-              <h3 className="font-semibold mb-2" data-testid="filter-header-sort">Sort By</h3>
-              <div className="flex flex-col space-y-1">
-                <label className="flex items-center space-x-2 cursor-pointer">
-                  <input
-                    type="radio"
-                    name="sortBy"
-                    value="fees" // Value matches state
-                    checked={sortBy === "fees"}
-                    onChange={handleSortChange}
-                    className="form-radio text-blue-600 focus:ring-blue-500"
-                    data-testid="sort-fees"
-                  />
-                  <span>Fees (Ascending)</span>
-                </label>
-                <label className="flex items-center space-x-2 cursor-pointer">
-                  <input
-                    type="radio"
-                    name="sortBy"
-                    value="experience" // Value matches state
-                    checked={sortBy === "experience"}
-                    onChange={handleSortChange}
-                    className="form-radio text-blue-600 focus:ring-blue-500"
-                    data-testid="sort-experience"
-                  />
-                  <span>Experience (Descending)</span>
-                </label>
-                 {/* Clear Sort */}
-                  {sortBy && (
-                    <button
-                        onClick={() => setSortBy(null)}
-                        className="text-sm text-blue-600 hover:underline mt-1 text-left"
-                    >
-                        Clear Sort
-                    </button>
-                  )}
-              </div>
+          {/* Specialties (Uses updated uniqueSpecialties) */}
+          <FacetCheckboxList
+            title={t("filters.specialty")}
+            options={uniqueSpecialties}
+            selected={selectedSpecialties}
+            onChange={setSelectedSpecialties}
+            counts={facetCounts(facets.specialties)}
+            testIdPrefix="filter-specialty"
+            headerTestId="filter-header-speciality"
+            clearLabel={t("filters.clearSpecialties")}
+          />
+
+          {/* Location */}
+          <FacetCheckboxList
+            title={t("filters.city")}
+            options={uniqueCities}
+            selected={selectedCities}
+            onChange={setSelectedCities}
+            counts={facetCounts(facets.cities)}
+            testIdPrefix="filter-city"
+            headerTestId="filter-header-city"
+          />
+          <FacetCheckboxList
+            title={t("filters.locality")}
+            options={uniqueLocalities}
+            selected={selectedLocalities}
+            onChange={setSelectedLocalities}
+            counts={facetCounts(facets.localities)}
+            testIdPrefix="filter-locality"
+            headerTestId="filter-header-locality"
+          />
+
+          {/* Languages */}
+          <FacetCheckboxList
+            title={t("filters.languages")}
+            options={uniqueLanguages}
+            selected={selectedLanguages}
+            onChange={setSelectedLanguages}
+            counts={facetCounts(facets.languages)}
+            testIdPrefix="filter-language"
+            headerTestId="filter-header-language"
+          />
+
+          {/* Fees */}
+          <div className="mb-4">
+            <h3 className="font-semibold mb-2" data-testid="filter-header-fees">
+              {t("filters.fees")}
+            </h3>
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="number"
+                inputMode="numeric"
+                min={0}
+                placeholder={feeBounds ? t("filters.feeMinBound", { amount: feeBounds.min }) : t("filters.feeMin")}
+                value={minFee ?? ""}
+                onChange={handleFeeChange(setMinFee)}
+                className="w-full border border-gray-300 rounded px-2 py-1"
+                aria-label={t("filters.feeMinLabel")}
+                data-testid="filter-fee-min"
+              />
+              <span className="text-gray-500">&ndash;</span>
+              <input
+                type="number"
+                inputMode="numeric"
+                min={0}
+                placeholder={feeBounds ? t("filters.feeMaxBound", { amount: feeBounds.max }) : t("filters.feeMax")}
+                value={maxFee ?? ""}
+                onChange={handleFeeChange(setMaxFee)}
+                className="w-full border border-gray-300 rounded px-2 py-1"
+                aria-label={t("filters.feeMaxLabel")}
+                data-testid="filter-fee-max"
+              />
             </div>
-          </aside>
-
-          {/* Doctor List */}
-          <main className="w-full md:w-3/4 lg:w-4/5">
-            {isLoading && <p className="text-center text-gray-500 py-10">Loading doctors...</p>}
-            {error && <p className="text-center text-red-600 bg-red-100 p-4 rounded-lg shadow">{error}</p>}
-            {!isLoading && !error && (
-              <>
-                {filteredDoctors.length > 0 ? (
+            {minFee !== null && maxFee !== null && minFee > maxFee && (
+              <p className="text-xs text-red-600 mt-1">{t("filters.feeRangeInvalid")}</p>
+            )}
+            {(minFee !== null || maxFee !== null) && (
+              <button
+                onClick={() => {
+                  setMinFee(null);
+                  setMaxFee(null);
+                }}
+                className="text-sm text-blue-600 hover:underline mt-1 text-left"
+              >
+                {t("common.clear")}
+              </button>
+            )}
+            <label className="flex items-center justify-between gap-2 text-sm mt-2">
+              <span className="text-gray-600">{t("filters.currency")}</span>
+              <select
+                value={displayCurrency ?? DEFAULT_DISPLAY_CURRENCY}
+                onChange={handleCurrencyChange}
+                className="border border-gray-300 rounded px-1 py-0.5"
+                data-testid="filter-currency"
+              >
+                {DISPLAY_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {displayCurrency && (
+              <p className="text-xs text-gray-500 mt-1">{t("filters.ratesAsOf", { date: EXCHANGE_RATES.asOf })}</p>
+            )}
+          </div>
+
+          {/* Minimum Experience */}
+          <div className="mb-4">
+            <h3 className="font-semibold mb-2" data-testid="filter-header-experience">
+              {t("filters.experience")}
+            </h3>
+            <input
+              type="range"
+              min={0}
+              max={experienceBounds?.max ?? 0}
+              step={1}
+              value={minExperience ?? 0}
+              onChange={(event) => setMinExperience(Number(event.target.value) || null)} // 0 means "any"
+              className="w-full"
+              aria-label={t("filters.experienceLabel")}
+              data-testid="filter-experience-min"
+            />
+            <p className="text-sm text-gray-600">
+              {minExperience ? t("filters.experienceAtLeast", { count: minExperience }) : t("filters.experienceAny")}
+            </p>
+            {minExperience !== null && (
+              <button
+                onClick={() => setMinExperience(null)}
+                className="text-sm text-blue-600 hover:underline mt-1 text-left"
+              >
+                {t("common.clear")}
+              </button>
+            )}
+          </div>
+
+          {/* Rating */}
+          <div className="mb-4">
+            <h3 className="font-semibold mb-2" data-testid="filter-header-rating">
+              {t("filters.rating")}
+            </h3>
+            <label
+              className={`flex items-center space-x-2 cursor-pointer ${
+                facets.topRated === 0 && minRating === null ? "text-gray-400" : ""
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={minRating !== null}
+                onChange={(event) => setMinRating(event.target.checked ? TOP_RATING : null)}
+                className="form-checkbox text-blue-600 rounded focus:ring-blue-500"
+                data-testid="filter-top-rated"
+              />
+              <span>{t("filters.topRated", { stars: minRating ?? TOP_RATING })}</span>
+              <span className="text-xs text-gray-500">({facets.topRated})</span>
+            </label>
+          </div>
+
+          {/* Availability */}
+          <div className="mb-4">
+            <h3 className="font-semibold mb-2" data-testid="filter-header-availability">
+              {t("filters.availability")}
+            </h3>
+            <label
+              className={`flex items-center space-x-2 cursor-pointer ${
+                facets.availableToday === 0 && !availableToday ? "text-gray-400" : ""
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={availableToday}
+                onChange={(event) => setAvailableToday(event.target.checked)}
+                className="form-checkbox text-blue-600 rounded focus:ring-blue-500"
+                data-testid="filter-available-today"
+              />
+              <span>{t("filters.availableToday")}</span>
+              <span className="text-xs text-gray-500">({facets.availableToday})</span>
+            </label>
+          </div>
+
+          {/* Sort */}
+          <div>
+            <h3 className="font-semibold mb-2" data-testid="filter-header-sort">
+              {t("filters.sortBy")}
+            </h3>
+            <SortControls criteria={sortCriteria} onChange={handleSortChange} keys={sortKeys}>
+              {/* Origin for "Nearest First": browser position or a locality */}
+              {usesDistance && (
+                <div className="pl-6 space-y-1 text-sm" data-testid="near-location">
+                  <button
+                    onClick={handleUseMyLocation}
+                    className="text-blue-600 hover:underline text-left"
+                    data-testid="use-my-location"
+                  >
+                    {t("filters.useMyLocation")}
+                  </button>
+                  <select
+                    value=""
+                    onChange={handleNearLocalityChange}
+                    className="w-full border border-gray-300 rounded px-1 py-0.5"
+                    aria-label={t("filters.nearLocalityLabel")}
+                    data-testid="near-locality"
+                  >
+                    <option value="" disabled>
+                      {t(nearLocation ? "filters.orNearLocality" : "filters.nearLocality")}
+                    </option>
+                    {uniqueLocalities.map((locality) => (
+                      <option key={locality} value={locality}>
+                        {locality}
+                      </option>
+                    ))}
+                  </select>
+                  {!nearLocation && !locationError && <p className="text-gray-500">{t("filters.chooseLocation")}</p>}
+                  {locationError && <p className="text-red-600">{t(locationError)}</p>}
+                </div>
+              )}
+            </SortControls>
+          </div>
+        </aside>
+
+        {/* Doctor List */}
+        <main ref={resultsRef} className="w-full md:w-3/4 lg:w-4/5 scroll-mt-4">
+          {isLoading && <p className="text-center text-gray-500 py-10">{t("listing.loading")}</p>}
+          {error !== null && (
+            <p className="text-center text-red-600 bg-red-100 p-4 rounded-lg shadow">
+              {t("listing.loadError", { detail: error || t("listing.tryLater") })}
+            </p>
+          )}
+          {!isLoading && error === null && (
+            <>
+              {filteredDoctors.length > 0 ? (
+                <>
+                  <div className="mb-3 flex items-center justify-between gap-4">
+                    <p className="text-sm text-gray-600" data-testid="results-summary" aria-live="polite">
+                      {t("listing.summary", {
+                        start: currentPage.start,
+                        end: currentPage.end,
+                        count: currentPage.total,
+                      })}
+                    </p>
+                    <ExportMenu
+                      doctors={filteredDoctors}
+                      filters={listingQuery}
+                      printHref={`${PRINT_PATH}?${filterQuery}`}
+                    />
+                  </div>
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                    {filteredDoctors.map((doctor) => (
-                      <div
+                    {currentPage.items.map((doctor) => (
+                      <DoctorCard
                         key={doctor.id}
-                        className="border rounded-lg p-4 shadow hover:shadow-lg transition-shadow duration-300 bg-white flex flex-col items-center text-center" // Centered content
-                        data-testid="doctor-card"
-                      >
-                        <Image
-                          src={doctor.photo && typeof doctor.photo === 'string' && doctor.photo.trim() !== ''
-                            ? doctor.photo
-                            : 'https://placehold.co/150x150/E0E0E0/BDBDBD?text=No+Image'}
-                          alt={`Dr. ${doctor.name}`}
-                          width={96}
-                          height={96}
-                          className="w-24 h-24 rounded-full mb-3 object-cover border border-gray-200"
-                        />
-                        <h3 className="text-lg font-semibold text-gray-800 mb-1" data-testid="doctor-name">
-                           {/* Removed "Dr." prefix assuming it's in the name */}
-                           {doctor.name}
-                        </h3>
-                        {/* Display first specialty, handle cases with no specialties */}
-                        <p className="text-sm text-blue-700 mb-2" data-testid="doctor-specialty">
-                          {doctor.specialities && doctor.specialities.length > 0
-                            ? doctor.specialities[0].name
-                            : 'N/A'}
-                        </p>
-                        <div className="text-sm text-gray-600 space-y-1 w-full">
-                            <p data-testid="doctor-experience">
-                              Experience: {doctor.experience || 'N/A'}
-                            </p>
-                            <p data-testid="doctor-fee">
-                              Fees: {doctor.fees || 'N/A'}
-                            </p>
-                           
-                             <div className="text-xs text-gray-500 pt-2 flex justify-center gap-2 flex-wrap">
-                                  {doctor.video_consult && (
-                                      <span className="bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full">Video Consult</span>
-                                  )}
-                                  {doctor.in_clinic && (
-                                       <span className="bg-green-100 text-green-800 px-2 py-0.5 rounded-full">In Clinic</span>
-                                  )}
-                             </div>
-                        </div>
-                      </div>
+                        doctor={doctor}
+                        query={searchParams.toString()}
+                        highlight={searchTerm}
+                        near={usesDistance ? nearLocation : null}
+                        consultation={selectedConsultation}
+                        currency={displayCurrency}
+                        isCompared={compareIds.includes(doctor.id)}
+                        compareFull={compareIds.length >= MAX_COMPARE}
+                        onCompareToggle={handleCompareToggle}
+                      />
                     ))}
                   </div>
+                  <Pagination page={currentPage.page} pageCount={currentPage.pageCount} onChange={handlePageChange} />
+                </>
+              ) : (
+                <p className="text-center text-gray-500 mt-10 py-10">{t("listing.noResults")}</p>
+              )}
+            </>
+          )}
+
+          {/* Comparison tray */}
+          {compareDoctors.length > 0 && (
+            <div
+              className="sticky bottom-4 mt-6 border rounded-lg shadow-lg bg-white p-3 flex flex-wrap items-center gap-3"
+              data-testid="compare-tray"
+            >
+              <span className="text-sm text-gray-700">
+                {t("compare.tray", {
+                  count: compareDoctors.length,
+                  max: MAX_COMPARE,
+                  names: compareDoctors.map((doctor) => doctor.name).join(", "),
+                })}
+              </span>
+              <div className="ml-auto flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => setCompareIds([])}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  {t("common.clear")}
+                </button>
+                {compareDoctors.length >= MIN_COMPARE ? (
+                  <Link
+                    href={compareHref(compareIds, searchParams.toString())}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md"
+                    data-testid="compare-open"
+                  >
+                    {t("compare.open")}
+                  </Link>
                 ) : (
-                  <p className="text-center text-gray-500 mt-10 py-10">No doctors found matching your criteria.</p>
+                  <span className="text-sm text-gray-500">{t("compare.pickMore", { count: MIN_COMPARE })}</span>
                 )}
-              </>
-            )}
-          </main>
-        </div>
+              </div>
+            </div>
+          )}
+        </main>
       </div>
+    </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { Clinic } from "@/types/doctor";
+import type { DoctorInput, DoctorInputIssue } from "@/types/roster";
+import { EMPTY_DOCTOR_INPUT } from "@/lib/roster/records";
+import { validateDoctorInput } from "@/lib/roster/validate";
+import { createDoctor, RosterApiError, updateDoctor } from "@/lib/roster/client";
+
+interface DoctorFormProps {
+  doctorId?: string; // Editing this doctor; creates a new one when missing
+  initial?: DoctorInput;
+}
+
+const EMPTY_CLINIC: Clinic = {
+  name: "",
+  address: { address_line1: "", locality: "", city: "", location: "", logo_url: "" },
+};
+
+// Specialties and languages are typed as comma-separated lists
+const splitList = (text: string): string[] => text.split(",").map((item) => item.trim()).filter(Boolean);
+
+// Create / edit form for one doctor. Checked in the browser first, then again by the API.
+export default function DoctorForm({ doctorId, initial = EMPTY_DOCTOR_INPUT }: DoctorFormProps) {
+  const router = useRouter();
+  const [values, setValues] = useState<DoctorInput>(initial);
+  // Kept as typed, so a trailing comma doesn't vanish mid-edit
+  const [specialitiesText, setSpecialitiesText] = useState<string>(initial.specialities.join(", "));
+  const [languagesText, setLanguagesText] = useState<string>(initial.languages.join(", "));
+  const [issues, setIssues] = useState<DoctorInputIssue[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const set = <K extends keyof DoctorInput>(field: K, value: DoctorInput[K]) =>
+    setValues((prev) => ({ ...prev, [field]: value }));
+  const setClinic = (field: "name", value: string) =>
+    setValues((prev) => ({ ...prev, clinic: { ...(prev.clinic ?? EMPTY_CLINIC), [field]: value } }));
+  const setAddress = (field: keyof Clinic["address"], value: string) =>
+    setValues((prev) => {
+      const clinic = prev.clinic ?? EMPTY_CLINIC;
+      return { ...prev, clinic: { ...clinic, address: { ...clinic.address, [field]: value } } };
+    });
+
+  const issuesFor = (field: string) => issues.filter((issue) => issue.field === field);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const input = { ...values, specialities: splitList(specialitiesText), languages: splitList(languagesText) };
+    const result = validateDoctorInput(input);
+    if (!result.ok) {
+      setIssues(result.issues);
+      setError("Please fix the highlighted fields.");
+      return;
+    }
+    setIssues([]);
+    setError(null);
+    setIsSaving(true);
+    try {
+      if (doctorId) await updateDoctor(doctorId, result.input);
+      else await createDoctor(result.input);
+      router.push("/admin");
+      router.refresh();
+    } catch (e: unknown) {
+      if (e instanceof RosterApiError) setIssues(e.issues);
+      setError(e instanceof Error ? e.message : "Failed to save the doctor.");
+      setIsSaving(false);
+    }
+  };
+
+  const field = (
+    name: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: { placeholder?: string; hint?: string; multiline?: boolean } = {}
+  ) => {
+    const fieldIssues = issuesFor(name);
+    const className = `w-full border rounded px-2 py-1 text-sm ${fieldIssues.length > 0 ? "border-red-500" : "border-gray-300"}`;
+    const inputProps = {
+      id: `doctor-${name}`,
+      value,
+      placeholder: options.placeholder,
+      className,
+      "aria-invalid": fieldIssues.length > 0,
+      "data-testid": `doctor-form-${name}`,
+    };
+    return (
+      <div>
+        <label htmlFor={inputProps.id} className="block text-sm font-medium text-gray-700 mb-1">
+          {label}
+        </label>
+        {options.multiline ? (
+          <textarea {...inputProps} rows={4} onChange={(event) => onChange(event.target.value)} />
+        ) : (
+          <input type="text" {...inputProps} onChange={(event) => onChange(event.target.value)} />
+        )}
+        {options.hint && <p className="text-xs text-gray-500 mt-1">{options.hint}</p>}
+        {fieldIssues.map(({ message }) => (
+          <p key={message} className="text-xs text-red-600 mt-1">
+            {message}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  const clinic = values.clinic;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6" noValidate data-testid="doctor-form">
+      <section className="border rounded-lg p-4 shadow bg-white space-y-4">
+        <h2 className="text-lg font-semibold border-b pb-2">Doctor</h2>
+        {field("name", "Name", values.name, (value) => set("name", value), { placeholder: "Dr. Ananya Sharma" })}
+        {field("name_initials", "Initials", values.name_initials, (value) => set("name_initials", value), {
+          hint: "Up to 3 letters; worked out from the name when left empty.",
+        })}
+        {field("photo", "Photo URL", values.photo, (value) => set("photo", value), { placeholder: "https://..." })}
+        {field(
+          "doctor_introduction",
+          "Introduction",
+          values.doctor_introduction,
+          (value) => set("doctor_introduction", value),
+          { multiline: true }
+        )}
+        {field("specialities", "Specialties", specialitiesText, setSpecialitiesText, {
+          placeholder: "General Physician, Diabetologist",
+          hint: "Comma-separated.",
+        })}
+        {field("languages", "Languages", languagesText, setLanguagesText, {
+          placeholder: "English, Hindi",
+          hint: "Comma-separated.",
+        })}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {field("fees", "Fees", values.fees, (value) => set("fees", value), { placeholder: "₹ 500" })}
+          {field("experience", "Experience", values.experience, (value) => set("experience", value), {
+            placeholder: "13 Years of experience",
+          })}
+        </div>
+      </section>
+
+      <section className="border rounded-lg p-4 shadow bg-white space-y-2">
+        <h2 className="text-lg font-semibold border-b pb-2">Consultation</h2>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={values.video_consult}
+            onChange={(event) => set("video_consult", event.target.checked)}
+            data-testid="doctor-form-video_consult"
+          />
+          Video Consult
+        </label>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={values.in_clinic}
+            onChange={(event) => set("in_clinic", event.target.checked)}
+            data-testid="doctor-form-in_clinic"
+          />
+          In Clinic
+        </label>
+        {[...issuesFor("video_consult"), ...issuesFor("in_clinic")].map(({ message }) => (
+          <p key={message} className="text-xs text-red-600">
+            {message}
+          </p>
+        ))}
+      </section>
+
+      <section className="border rounded-lg p-4 shadow bg-white space-y-4">
+        <h2 className="text-lg font-semibold border-b pb-2">Clinic</h2>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={clinic !== null}
+            onChange={(event) => set("clinic", event.target.checked ? EMPTY_CLINIC : null)}
+            data-testid="doctor-form-has-clinic"
+          />
+          Consults at a clinic
+        </label>
+        {issuesFor("clinic").map(({ message }) => (
+          <p key={message} className="text-xs text-red-600">
+            {message}
+          </p>
+        ))}
+        {clinic && (
+          <>
+            {field("clinic.name", "Clinic name", clinic.name, (value) => setClinic("name", value))}
+            {field("clinic.address.address_line1", "Address", clinic.address.address_line1, (value) =>
+              setAddress("address_line1", value)
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {field("clinic.address.locality", "Locality", clinic.address.locality, (value) =>
+                setAddress("locality", value)
+              )}
+              {field("clinic.address.city", "City", clinic.address.city, (value) => setAddress("city", value))}
+            </div>
+            {field("clinic.address.location", "Location", clinic.address.location, (value) => setAddress("location", value), {
+              placeholder: "12.9352,77.6245",
+              hint: "Latitude,longitude or a map link; used for “Nearest First”.",
+            })}
+            {field("clinic.address.logo_url", "Logo URL", clinic.address.logo_url ?? "", (value) =>
+              setAddress("logo_url", value)
+            )}
+          </>
+        )}
+      </section>
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert" data-testid="doctor-form-error">
+          {error}
+        </p>
+      )}
+      <div className="flex items-center gap-4">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-md"
+          data-testid="doctor-form-submit"
+        >
+          {isSaving ? "Saving..." : doctorId ? "Save changes" : "Add doctor"}
+        </button>
+        <Link href="/admin" className="text-sm text-blue-600 hover:underline">
+          Cancel
+        </Link>
+      </div>
+    </form>
+  );
+}
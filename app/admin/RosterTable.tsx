@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { RosterEntry } from "@/types/roster";
+import { restoreDoctor, retireDoctor } from "@/lib/roster/client";
+
+interface RosterTableProps {
+  entries: RosterEntry[];
+}
+
+// Every doctor in the roster, with edit links and retire / restore buttons
+export default function RosterTable({ entries }: RosterTableProps) {
+  const router = useRouter();
+  const [filter, setFilter] = useState<string>("");
+  const [showRetired, setShowRetired] = useState<boolean>(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const term = filter.trim().toLowerCase();
+  const visible = entries.filter(
+    ({ doctor, retired }) =>
+      (showRetired || !retired) &&
+      (!term || doctor.name.toLowerCase().includes(term) || doctor.id.includes(term))
+  );
+  const retiredCount = entries.filter(({ retired }) => retired).length;
+
+  const handleAction = async (id: string, action: (id: string) => Promise<unknown>) => {
+    setPendingId(id);
+    setError(null);
+    try {
+      await action(id);
+      router.refresh();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <input
+          type="search"
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+          placeholder="Filter by name or id"
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+          aria-label="Filter doctors"
+        />
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showRetired}
+            onChange={(event) => setShowRetired(event.target.checked)}
+            data-testid="admin-show-retired"
+          />
+          Show retired ({retiredCount})
+        </label>
+      </div>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse bg-white shadow rounded-lg text-sm" data-testid="admin-roster">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="p-3 border-b">Id</th>
+              <th className="p-3 border-b">Name</th>
+              <th className="p-3 border-b">Specialties</th>
+              <th className="p-3 border-b">Fees</th>
+              <th className="p-3 border-b">Clinic</th>
+              <th className="p-3 border-b">Status</th>
+              <th className="p-3 border-b" />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(({ doctor, retired, updatedAt }) => (
+              <tr key={doctor.id} className={retired ? "text-gray-400" : "text-gray-800"} data-testid="admin-roster-row">
+                <td className="p-3 border-b">{doctor.id}</td>
+                <td className="p-3 border-b font-medium">{doctor.name}</td>
+                <td className="p-3 border-b">{doctor.specialities.map(({ name }) => name).join(", ")}</td>
+                <td className="p-3 border-b">{doctor.fees}</td>
+                <td className="p-3 border-b">{doctor.clinic?.name ?? "—"}</td>
+                <td className="p-3 border-b">
+                  {retired ? "Retired" : "Active"}
+                  {updatedAt && (
+                    <span className="block text-xs text-gray-500">Edited {new Date(updatedAt).toLocaleDateString()}</span>
+                  )}
+                </td>
+                <td className="p-3 border-b whitespace-nowrap text-right space-x-3">
+                  <Link href={`/admin/doctors/${encodeURIComponent(doctor.id)}`} className="text-blue-600 hover:underline">
+                    Edit
+                  </Link>
+                  <button
+                    type="button"
+                    disabled={pendingId === doctor.id}
+                    onClick={() => handleAction(doctor.id, retired ? restoreDoctor : retireDoctor)}
+                    className={`hover:underline disabled:text-gray-400 ${retired ? "text-green-700" : "text-red-600"}`}
+                    data-testid={retired ? "admin-restore" : "admin-retire"}
+                  >
+                    {retired ? "Restore" : "Retire"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visible.length === 0 && <p className="text-center text-gray-500 py-6">No doctors match.</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+// app/admin/doctors/[id]/page.tsx
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { loadRosterEntry } from "@/lib/doctors/sources";
+import { toDoctorInput } from "@/lib/roster/records";
+import DoctorForm from "../../DoctorForm";
+
+export const dynamic = "force-dynamic";
+
+interface EditDoctorPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function EditDoctorPage({ params }: EditDoctorPageProps) {
+  const { id } = await params;
+  const entry = await loadRosterEntry(id);
+  if (!entry) notFound();
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 lg:p-8 font-sans max-w-3xl">
+      <Link href="/admin" className="text-sm text-blue-600 hover:underline">
+        &larr; Back to roster
+      </Link>
+      <h1 className="mt-4 mb-6 text-2xl font-semibold text-gray-800">
+        Edit {entry.doctor.name}
+        {entry.retired && <span className="ml-2 text-sm font-normal text-gray-500">(retired)</span>}
+      </h1>
+      <DoctorForm doctorId={entry.doctor.id} initial={toDoctorInput(entry.doctor)} />
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { ImportColumnMapping, ImportFormat, ImportReport, ImportRowStatus } from "@/types/roster";
+import { IMPORT_FIELD_LABELS, IMPORT_FIELDS, isImportField } from "@/lib/roster/import";
+import { importRoster } from "@/lib/roster/client";
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: "New",
+  changed: "Changed",
+  unchanged: "Unchanged",
+  duplicate: "Duplicate",
+  invalid: "Invalid",
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: "bg-green-100 text-green-800",
+  changed: "bg-blue-100 text-blue-800",
+  unchanged: "bg-gray-100 text-gray-600",
+  duplicate: "bg-yellow-100 text-yellow-800",
+  invalid: "bg-red-100 text-red-800",
+};
+
+// JSON rosters start with "[", anything else is read as CSV
+const detectFormat = (fileName: string, text: string): ImportFormat =>
+  fileName.toLowerCase().endsWith(".json") || text.trimStart().startsWith("[") ? "json" : "csv";
+
+// Upload or paste a roster, check the column mapping, review the dry-run report, then import
+export default function ImportView() {
+  const [text, setText] = useState<string>("");
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+
+  // A new file or mapping needs a fresh dry run before it can be imported
+  const resetReport = () => {
+    setReport(null);
+    setError(null);
+  };
+
+  const handleTextChange = (value: string, fileName = "") => {
+    setText(value);
+    setFormat(detectFormat(fileName, value));
+    setColumns([]);
+    setMapping(null);
+    resetReport();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) handleTextChange(await file.text(), file.name);
+  };
+
+  const run = async (commit: boolean) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await importRoster({ format, text, ...(mapping && { mapping }), commit });
+      setColumns(response.columns);
+      setMapping(response.mapping);
+      setReport(response.report);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to check the import.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toImport = report ? report.counts.new + report.counts.changed : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* File */}
+      <section className="border rounded-lg p-4 shadow bg-white space-y-3">
+        <h2 className="text-lg font-semibold border-b pb-2">1. Roster file</h2>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+          className="text-sm"
+          data-testid="import-file"
+        />
+        <textarea
+          value={text}
+          onChange={(event) => handleTextChange(event.target.value)}
+          rows={6}
+          placeholder={"…or paste it here, e.g.\nname,specialty,fees,experience,clinic,locality,city,video,in clinic"}
+          className="w-full border border-gray-300 rounded px-2 py-1 text-sm font-mono"
+          aria-label="Roster file contents"
+          data-testid="import-text"
+        />
+        <div className="flex items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            Format
+            <select
+              value={format}
+              onChange={(event) => {
+                setFormat(event.target.value as ImportFormat);
+                setMapping(null);
+                resetReport();
+              }}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => run(false)}
+            disabled={!text.trim() || isWorking}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-md"
+            data-testid="import-check"
+          >
+            {isWorking ? "Checking..." : report ? "Check again" : "Check file"}
+          </button>
+        </div>
+        {error && (
+          <p className="text-sm text-red-600" role="alert" data-testid="import-error">
+            {error}
+          </p>
+        )}
+      </section>
+
+      {/* Column mapping */}
+      {mapping && (
+        <section className="border rounded-lg p-4 shadow bg-white">
+          <h2 className="text-lg font-semibold border-b pb-2 mb-3">2. Columns</h2>
+          <p className="text-sm text-gray-600 mb-3">
+            Columns were matched by name. Lists such as specialties may be split with commas, semicolons or “|”;
+            yes/no columns accept yes, no, true, false, 1 or 0.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm" data-testid="import-mapping">
+            {columns.map((column) => (
+              <label key={column} className="flex items-center justify-between gap-2">
+                <span className="font-mono truncate" title={column}>
+                  {column}
+                </span>
+                <select
+                  value={mapping[column] ?? ""}
+                  onChange={(event) => {
+                    const { value } = event.target;
+                    setMapping({ ...mapping, [column]: isImportField(value) ? value : null });
+                    resetReport();
+                  }}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">Ignore</option>
+                  {IMPORT_FIELDS.map((field) => (
+                    <option key={field} value={field}>
+                      {IMPORT_FIELD_LABELS[field]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Dry-run report */}
+      {report && (
+        <section className="border rounded-lg p-4 shadow bg-white" data-testid="import-report">
+          <h2 className="text-lg font-semibold border-b pb-2 mb-3">3. {report.committed ? "Imported" : "Review"}</h2>
+          <ul className="flex flex-wrap gap-2 mb-4 text-sm" data-testid="import-counts">
+            {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map((status) => (
+              <li key={status} className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[status]}`}>
+                {STATUS_LABELS[status]}: {report.counts[status]}
+              </li>
+            ))}
+          </ul>
+
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="p-2 border-b">Row</th>
+                  <th className="p-2 border-b">Status</th>
+                  <th className="p-2 border-b">Id</th>
+                  <th className="p-2 border-b">Name</th>
+                  <th className="p-2 border-b">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((row) => (
+                  <tr key={row.row} data-testid="import-row" data-status={row.status}>
+                    <td className="p-2 border-b">{row.row}</td>
+                    <td className="p-2 border-b">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[row.status]}`}>
+                        {STATUS_LABELS[row.status]}
+                      </span>
+                    </td>
+                    <td className="p-2 border-b">{row.id ?? "—"}</td>
+                    <td className="p-2 border-b">{row.name || "—"}</td>
+                    <td className="p-2 border-b text-gray-600">
+                      {row.changes.length > 0 && `Updates ${row.changes.join(", ")}`}
+                      {row.duplicateOf && `Same as ${row.duplicateOf}; skipped`}
+                      {row.issues.length > 0 && (
+                        <ul className="text-red-700">
+                          {row.issues.map((issue) => (
+                            <li key={issue}>{issue}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex items-center gap-4">
+            {report.committed ? (
+              <p className="text-sm text-green-700" data-testid="import-done">
+                Added {report.counts.new} and updated {report.counts.changed} doctors.{" "}
+                <Link href="/admin" className="text-blue-600 hover:underline">
+                  Back to the roster
+                </Link>
+              </p>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => run(true)}
+                  disabled={toImport === 0 || isWorking}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white text-sm rounded-md"
+                  data-testid="import-commit"
+                >
+                  Import {toImport} {toImport === 1 ? "doctor" : "doctors"}
+                </button>
+                <span className="text-sm text-gray-500">Duplicate, invalid and unchanged rows are skipped.</span>
+              </>
+            )}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+// app/admin/import/page.tsx
+import Link from "next/link";
+import ImportView from "./ImportView";
+
+export default function ImportPage() {
+  return (
+    <div className="container mx-auto p-4 md:p-6 lg:p-8 font-sans max-w-5xl">
+      <Link href="/admin" className="text-sm text-blue-600 hover:underline">
+        &larr; Back to roster
+      </Link>
+      <h1 className="mt-4 mb-6 text-2xl font-semibold text-gray-800">Import roster</h1>
+      <ImportView />
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+// app/admin/page.tsx
+// Roster admin: every doctor, including retired ones, with links to add and edit them.
+import Link from "next/link";
+import { loadRoster } from "@/lib/doctors/sources";
+import RosterTable from "./RosterTable";
+
+// Always read the roster fresh; it changes through the admin routes
+export const dynamic = "force-dynamic";
+
+export default async function AdminPage() {
+  const roster = await loadRoster();
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 lg:p-8 font-sans">
+      <Link href="/" className="text-sm text-blue-600 hover:underline">
+        &larr; Back to doctors
+      </Link>
+      <div className="mt-4 mb-6 flex items-center justify-between gap-4">
+        <h1 className="text-2xl font-semibold text-gray-800">Doctor roster</h1>
+        <div className="flex items-center gap-4">
+          <Link href="/admin/reviews" className="text-sm text-blue-600 hover:underline" data-testid="admin-reviews-link">
+            Reviews
+          </Link>
+          <Link href="/admin/import" className="text-sm text-blue-600 hover:underline" data-testid="admin-import">
+            Import roster
+          </Link>
+          <Link
+            href="/admin/doctors/new"
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md"
+            data-testid="admin-add-doctor"
+          >
+            Add doctor
+          </Link>
+        </div>
+      </div>
+      <RosterTable entries={roster} />
+    </div>
+  );
+}
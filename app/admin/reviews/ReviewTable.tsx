@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { ModeratedReview } from "@/types/review";
+import { setReviewHidden } from "@/lib/reviews/client";
+
+interface ReviewTableProps {
+  reviews: ModeratedReview[];
+  doctorNames: Record<string, string>; // By doctor id
+}
+
+// Every review with the patient's name, and hide / show buttons
+export default function ReviewTable({ reviews, doctorNames }: ReviewTableProps) {
+  const router = useRouter();
+  const [showHidden, setShowHidden] = useState<boolean>(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = reviews.filter(({ hidden }) => showHidden || !hidden);
+  const hiddenCount = reviews.filter(({ hidden }) => hidden).length;
+
+  const handleToggle = async ({ id, hidden }: ModeratedReview) => {
+    setPendingId(id);
+    setError(null);
+    try {
+      await setReviewHidden(id, !hidden);
+      router.refresh();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm cursor-pointer mb-4">
+        <input
+          type="checkbox"
+          checked={showHidden}
+          onChange={(event) => setShowHidden(event.target.checked)}
+          data-testid="admin-show-hidden"
+        />
+        Show hidden ({hiddenCount})
+      </label>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse bg-white shadow rounded-lg text-sm" data-testid="admin-reviews">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="p-3 border-b">Date</th>
+              <th className="p-3 border-b">Doctor</th>
+              <th className="p-3 border-b">Rating</th>
+              <th className="p-3 border-b">Comment</th>
+              <th className="p-3 border-b">Patient</th>
+              <th className="p-3 border-b">Status</th>
+              <th className="p-3 border-b" />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((review) => (
+              <tr
+                key={review.id}
+                className={review.hidden ? "text-gray-400" : "text-gray-800"}
+                data-testid="admin-review-row"
+              >
+                <td className="p-3 border-b whitespace-nowrap">{new Date(review.createdAt).toLocaleDateString()}</td>
+                <td className="p-3 border-b">{doctorNames[review.doctorId] ?? review.doctorId}</td>
+                <td className="p-3 border-b whitespace-nowrap">{review.rating} ★</td>
+                <td className="p-3 border-b max-w-md whitespace-pre-line">{review.comment || "—"}</td>
+                <td className="p-3 border-b">{review.patient.name}</td>
+                <td className="p-3 border-b">{review.hidden ? "Hidden" : "Visible"}</td>
+                <td className="p-3 border-b text-right">
+                  <button
+                    type="button"
+                    disabled={pendingId === review.id}
+                    onClick={() => handleToggle(review)}
+                    className={`hover:underline disabled:text-gray-400 ${review.hidden ? "text-green-700" : "text-red-600"}`}
+                    data-testid={review.hidden ? "admin-show-review" : "admin-hide-review"}
+                  >
+                    {review.hidden ? "Show" : "Hide"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visible.length === 0 && <p className="text-center text-gray-500 py-6">No reviews yet.</p>}
+      </div>
+    </div>
+  );
+}
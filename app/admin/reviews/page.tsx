@@ -0,0 +1,25 @@
+// app/admin/reviews/page.tsx
+// Review moderation: every review, hidden ones included, newest first.
+import Link from "next/link";
+import { loadRoster } from "@/lib/doctors/sources";
+import { getReviewStore } from "@/lib/reviews/store";
+import { moderatedReviews } from "@/lib/reviews/summary";
+import ReviewTable from "./ReviewTable";
+
+// Always read the reviews fresh; patients post them and moderators hide them
+export const dynamic = "force-dynamic";
+
+export default async function AdminReviewsPage() {
+  const [reviews, roster] = await Promise.all([getReviewStore().list(), loadRoster()]);
+  const doctorNames = Object.fromEntries(roster.map(({ doctor }) => [doctor.id, doctor.name]));
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 lg:p-8 font-sans">
+      <Link href="/admin" className="text-sm text-blue-600 hover:underline">
+        &larr; Back to roster
+      </Link>
+      <h1 className="mt-4 mb-6 text-2xl font-semibold text-gray-800">Reviews</h1>
+      <ReviewTable reviews={moderatedReviews(reviews)} doctorNames={doctorNames} />
+    </div>
+  );
+}
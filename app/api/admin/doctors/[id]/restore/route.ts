@@ -0,0 +1,20 @@
+// app/api/admin/doctors/[id]/restore/route.ts
+// POST /api/admin/doctors/:id/restore -> { entry }, back in the listing after being retired
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadRosterEntry } from "@/lib/doctors/sources";
+import { toRosterRecord } from "@/lib/roster/records";
+import { getRosterStore } from "@/lib/roster/store";
+import { notFound, storeError } from "@/app/api/responses";
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const entry = await loadRosterEntry(id);
+    if (!entry) return notFound(id);
+    if (entry.retired) await getRosterStore().save([toRosterRecord(entry.doctor, false)]);
+    return NextResponse.json({ entry: await loadRosterEntry(id) });
+  } catch (e: unknown) {
+    return storeError("restore the doctor", e);
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/admin/doctors/[id]/route.ts
+// GET    /api/admin/doctors/:id -> { entry: RosterEntry }, retired or not
+// PUT    /api/admin/doctors/:id   DoctorInput -> { entry }; 400 with `issues` for invalid input
+// DELETE /api/admin/doctors/:id -> { entry }, retired: hidden from the listing but kept, so it can be restored
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadRosterEntry } from "@/lib/doctors/sources";
+import { fromDoctorInput, toRosterRecord } from "@/lib/roster/records";
+import { getRosterStore } from "@/lib/roster/store";
+import { validateDoctorInput } from "@/lib/roster/validate";
+import { notFound, storeError } from "@/app/api/responses";
+import { invalidInput } from "../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const entry = await loadRosterEntry(id);
+    return entry ? NextResponse.json({ entry }) : notFound(id);
+  } catch (e: unknown) {
+    return storeError("load the doctor", e);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const result = validateDoctorInput(await request.json().catch(() => null));
+  if (!result.ok) return invalidInput(result.issues);
+
+  try {
+    const entry = await loadRosterEntry(id);
+    if (!entry) return notFound(id);
+    // Editing keeps a retired doctor retired
+    await getRosterStore().save([{ ...fromDoctorInput(id, result.input, entry.doctor), retired: entry.retired }]);
+    return NextResponse.json({ entry: await loadRosterEntry(id) });
+  } catch (e: unknown) {
+    return storeError("update the doctor", e);
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const entry = await loadRosterEntry(id);
+    if (!entry) return notFound(id);
+    if (!entry.retired) await getRosterStore().save([toRosterRecord(entry.doctor, true)]);
+    return NextResponse.json({ entry: await loadRosterEntry(id) });
+  } catch (e: unknown) {
+    return storeError("retire the doctor", e);
+  }
+}
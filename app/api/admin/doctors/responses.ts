@@ -0,0 +1,11 @@
+// app/api/admin/doctors/responses.ts
+// Error responses for the admin doctor routes; the ones every route uses are in app/api/responses.ts.
+
+import { NextResponse } from "next/server";
+import type { DoctorInputIssue } from "@/types/roster";
+
+export const invalidInput = (issues: DoctorInputIssue[]) =>
+  NextResponse.json(
+    { error: issues.map(({ message }) => message).join(". ") + ".", issues },
+    { status: 400 }
+  );
@@ -0,0 +1,35 @@
+// app/api/admin/doctors/route.ts
+// GET  /api/admin/doctors -> { entries: RosterEntry[] }, retired doctors included
+// POST /api/admin/doctors   DoctorInput -> 201 { entry }; 400 with `issues` for invalid input
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadRoster, loadRosterEntry } from "@/lib/doctors/sources";
+import { fromDoctorInput } from "@/lib/roster/records";
+import { getRosterStore } from "@/lib/roster/store";
+import { validateDoctorInput } from "@/lib/roster/validate";
+import { storeError } from "@/app/api/responses";
+import { invalidInput } from "./responses";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ entries: await loadRoster() });
+  } catch (e: unknown) {
+    return storeError("load the roster", e);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const result = validateDoctorInput(await request.json().catch(() => null));
+  if (!result.ok) return invalidInput(result.issues);
+
+  try {
+    const roster = await loadRoster();
+    const record = await getRosterStore().add(
+      (id) => fromDoctorInput(id, result.input, null),
+      roster.map(({ doctor }) => doctor.id)
+    );
+    return NextResponse.json({ entry: await loadRosterEntry(record.id) }, { status: 201 });
+  } catch (e: unknown) {
+    return storeError("create the doctor", e);
+  }
+}
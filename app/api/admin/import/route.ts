@@ -0,0 +1,66 @@
+// app/api/admin/import/route.ts
+// POST /api/admin/import  { format: "csv" | "json", text, mapping?, commit? }
+// Plans a bulk import against the current roster and returns { columns, mapping, report }. Without
+// `mapping` the columns are matched by name. Only `commit: true` saves the new and changed rows;
+// anything else is a dry run.
+
+import { NextRequest, NextResponse } from "next/server";
+import type { ImportColumnMapping, ImportReport } from "@/types/roster";
+import { loadRoster } from "@/lib/doctors/sources";
+import {
+  countImportRows,
+  guessColumnMapping,
+  ImportParseError,
+  isImportField,
+  parseImportText,
+  planImport,
+} from "@/lib/roster/import";
+import { getRosterStore } from "@/lib/roster/store";
+import { storeError } from "@/app/api/responses";
+
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+const badRequest = (message: string) => NextResponse.json({ error: message }, { status: 400 });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export async function POST(request: NextRequest) {
+  const body: unknown = await request.json().catch(() => null);
+  if (!isRecord(body)) return badRequest("Expected a JSON object.");
+  const { format, text, mapping, commit } = body;
+  if (format !== "csv" && format !== "json") return badRequest('format must be "csv" or "json".');
+  if (typeof text !== "string") return badRequest("text must be the file's contents.");
+  if (text.length > MAX_IMPORT_BYTES) return badRequest("The file is too large; import at most 2 MB at a time.");
+  if (
+    mapping !== undefined &&
+    !(
+      isRecord(mapping) &&
+      Object.values(mapping).every((field) => field === null || isImportField(field))
+    )
+  ) {
+    return badRequest("mapping must map column names to doctor fields or null.");
+  }
+
+  let table;
+  try {
+    table = parseImportText(text, format);
+  } catch (e: unknown) {
+    if (e instanceof ImportParseError) return badRequest(e.message);
+    throw e;
+  }
+  const columnMapping: ImportColumnMapping = {
+    ...Object.fromEntries(table.columns.map((column) => [column, null])),
+    ...(mapping ? (mapping as ImportColumnMapping) : guessColumnMapping(table.columns)),
+  };
+
+  try {
+    const plan = planImport(table, columnMapping, await loadRoster());
+    const committed = commit === true;
+    if (committed && plan.records.length > 0) await getRosterStore().save(plan.records);
+    const report: ImportReport = { rows: plan.rows, counts: countImportRows(plan.rows), committed };
+    return NextResponse.json({ columns: table.columns, mapping: columnMapping, report });
+  } catch (e: unknown) {
+    return storeError(commit === true ? "import the roster" : "check the import", e);
+  }
+}
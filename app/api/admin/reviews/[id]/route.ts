@@ -0,0 +1,24 @@
+// app/api/admin/reviews/[id]/route.ts
+// PUT /api/admin/reviews/:id   { hidden: boolean }   Hides a review from the site, or shows it again
+
+import { NextRequest, NextResponse } from "next/server";
+import { getReviewStore } from "@/lib/reviews/store";
+import { toModeratedReview } from "@/lib/reviews/summary";
+import { storeError } from "@/app/api/responses";
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const body: unknown = await request.json().catch(() => null);
+  const hidden = typeof body === "object" && body !== null ? (body as { hidden?: unknown }).hidden : undefined;
+  if (typeof hidden !== "boolean") {
+    return NextResponse.json({ error: "hidden must be true or false." }, { status: 400 });
+  }
+
+  try {
+    const review = await getReviewStore().setHidden(id, hidden);
+    if (!review) return NextResponse.json({ error: `No review with id "${id}".` }, { status: 404 });
+    return NextResponse.json({ review: toModeratedReview(review) });
+  } catch (e: unknown) {
+    return storeError(hidden ? "hide the review" : "show the review", e);
+  }
+}
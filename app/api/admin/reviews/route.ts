@@ -0,0 +1,17 @@
+// app/api/admin/reviews/route.ts
+// GET /api/admin/reviews?doctorId=   Every review, hidden ones included, newest first; no phone numbers
+
+import { NextRequest, NextResponse } from "next/server";
+import { getReviewStore } from "@/lib/reviews/store";
+import { moderatedReviews } from "@/lib/reviews/summary";
+import { storeError } from "@/app/api/responses";
+
+export async function GET(request: NextRequest) {
+  const doctorId = request.nextUrl.searchParams.get("doctorId") || undefined;
+  try {
+    const reviews = await getReviewStore().list(doctorId);
+    return NextResponse.json({ reviews: moderatedReviews(reviews) });
+  } catch (e: unknown) {
+    return storeError("load reviews", e);
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/bookings/route.ts
+// POST /api/bookings  { doctorId, mode, date, time, patient: { name, phone, email? } }
+// 201 with the booking; 400 for invalid input or a slot the doctor doesn't have; 404 for an unknown
+// doctor; 409 when the slot is already booked.
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadDoctor } from "@/lib/doctors/sources";
+import { getDaySlots } from "@/lib/bookings/slots";
+import { getBookingStore, isSlotTakenError } from "@/lib/bookings/store";
+import { validateBookingRequest } from "@/lib/bookings/validate";
+
+export async function POST(request: NextRequest) {
+  const body: unknown = await request.json().catch(() => null);
+  const result = validateBookingRequest(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.issues.join(". ") + ".", issues: result.issues }, { status: 400 });
+  }
+  const { doctorId, mode, date, time } = result.request;
+
+  try {
+    const doctor = await loadDoctor(doctorId);
+    if (!doctor) return NextResponse.json({ error: `No doctor with id "${doctorId}".` }, { status: 404 });
+
+    // The store re-checks for a clash while it writes; this only rules out slots that don't exist
+    const store = getBookingStore();
+    const slot = getDaySlots(doctor, mode, date, await store.list(doctorId)).find((s) => s.time === time);
+    if (!slot) {
+      return NextResponse.json({ error: `${doctor.name} has no ${time} slot on ${date}.` }, { status: 400 });
+    }
+
+    const booking = await store.create(result.request);
+    return NextResponse.json({ booking }, { status: 201 });
+  } catch (e: unknown) {
+    if (isSlotTakenError(e)) {
+      return NextResponse.json({ error: e.message }, { status: 409 });
+    }
+    console.error("Failed to create booking:", e);
+    return NextResponse.json(
+      { error: `Failed to create booking. ${e instanceof Error ? e.message : ""}`.trim() },
+      { status: 502 }
+    );
+  }
+}
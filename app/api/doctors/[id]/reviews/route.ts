@@ -0,0 +1,61 @@
+// app/api/doctors/[id]/reviews/route.ts
+// GET  /api/doctors/:id/reviews   The doctor's visible reviews, newest first, with their average
+// POST /api/doctors/:id/reviews   { rating, comment, mode, patient: { name, phone } }
+// POST answers 201 with the review; 400 for invalid input or a mode the doctor doesn't offer; 404 for
+// an unknown doctor; 409 when the patient (by phone number) has already reviewed the doctor.
+
+import { NextRequest, NextResponse } from "next/server";
+import type { DoctorReviews } from "@/types/review";
+import { loadDoctor } from "@/lib/doctors/sources";
+import { offersConsultation } from "@/lib/doctors/listing";
+import { getReviewStore, isDuplicateReviewError } from "@/lib/reviews/store";
+import { publicReviews, summarizeReviews, toPublicReview } from "@/lib/reviews/summary";
+import { validateReviewRequest } from "@/lib/reviews/validate";
+import { notFound, storeError } from "@/app/api/responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const doctor = await loadDoctor(id);
+    if (!doctor) return notFound(id);
+    const reviews = await getReviewStore().list(doctor.id);
+    const body: DoctorReviews = {
+      doctorId: doctor.id,
+      summary: summarizeReviews(reviews).get(doctor.id) ?? null,
+      reviews: publicReviews(reviews),
+    };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    return storeError("load reviews", e);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body: unknown = await request.json().catch(() => null);
+  const result = validateReviewRequest(id, body);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.issues.join(". ") + ".", issues: result.issues }, { status: 400 });
+  }
+
+  try {
+    const doctor = await loadDoctor(id);
+    if (!doctor) return notFound(id);
+    if (!offersConsultation(doctor, result.request.mode)) {
+      return NextResponse.json(
+        { error: `${doctor.name} doesn't offer ${result.request.mode === "video" ? "video" : "in-clinic"} consultations.` },
+        { status: 400 }
+      );
+    }
+
+    const review = await getReviewStore().create(result.request);
+    return NextResponse.json({ review: toPublicReview(review) }, { status: 201 });
+  } catch (e: unknown) {
+    if (isDuplicateReviewError(e)) {
+      return NextResponse.json({ error: e.message }, { status: 409 });
+    }
+    return storeError("save the review", e);
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/doctors/[id]/slots/route.ts
+// GET /api/doctors/:id/slots?mode=video|clinic&date=YYYY-MM-DD
+// Without a date, returns the first date that still has a free slot (or today when none does).
+
+import { NextRequest, NextResponse } from "next/server";
+import type { DaySlots } from "@/types/booking";
+import { loadDoctor } from "@/lib/doctors/sources";
+import { isConsultationMode, offersConsultation } from "@/lib/doctors/listing";
+import { getScheduleException, isDateString } from "@/lib/doctors/schedule";
+import { getBookableDates, getDaySlots } from "@/lib/bookings/slots";
+import { getBookingStore } from "@/lib/bookings/store";
+
+const badRequest = (message: string) =>
+  NextResponse.json({ error: message }, { status: 400 });
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const searchParams = request.nextUrl.searchParams;
+
+  const mode = searchParams.get("mode");
+  if (!isConsultationMode(mode)) return badRequest('mode must be "video" or "clinic".');
+  const dateParam = searchParams.get("date");
+  if (dateParam !== null && !isDateString(dateParam)) return badRequest("date must be a YYYY-MM-DD date.");
+
+  try {
+    const doctor = await loadDoctor(id);
+    if (!doctor) return NextResponse.json({ error: `No doctor with id "${id}".` }, { status: 404 });
+    if (!offersConsultation(doctor, mode)) {
+      return badRequest(`${doctor.name} doesn't offer ${mode === "video" ? "video" : "in-clinic"} consultations.`);
+    }
+
+    const bookings = await getBookingStore().list(doctor.id);
+    const dates = getBookableDates();
+    const slotsOn = (date: string) => getDaySlots(doctor, mode, date, bookings);
+    const date =
+      dateParam ?? dates.find((candidate) => slotsOn(candidate).some(({ available }) => available)) ?? dates[0];
+
+    const note = getScheduleException(doctor.schedule, mode, date)?.reason;
+    const body: DaySlots = { doctorId: doctor.id, mode, date, dates, slots: slotsOn(date), ...(note && { note }) };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("Failed to load slots:", e);
+    return NextResponse.json(
+      { error: `Failed to load slots. ${e instanceof Error ? e.message : ""}`.trim() },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// app/api/doctors/route.ts
+// GET /api/doctors?search=&consultation=&specialty=&clinic=&city=&locality=&language=&minFee=&maxFee=
+//                 &currency=&minExperience=&minRating=&available=&sort=&near=&page=&pageSize=
+// pageSize=all returns every match on a single page; a page past the end returns the last one.
+// Accepts the same query parameters the listing page writes to the URL.
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { applyListingFilters, getFacets } from "@/lib/doctors/listing";
+import { paginate } from "@/lib/doctors/pagination";
+import { parseListingQuery } from "@/lib/doctors/query";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Parses a positive integer param, falling back when absent; null means invalid
+const parsePositiveInt = (value: string | null, fallback: number): number | null => {
+  if (value === null || value === "") return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+const badRequest = (message: string) =>
+  NextResponse.json({ error: message }, { status: 400 });
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  // Same query model as the listing page, but invalid values are an error here rather than ignored
+  const { query, issues } = parseListingQuery(params);
+  if (issues.length > 0) return badRequest(issues.map(({ message }) => message).join(" "));
+
+  const returnAll = params.get("pageSize") === "all";
+  const pageSize = returnAll ? "all" : parsePositiveInt(params.get("pageSize"), DEFAULT_PAGE_SIZE);
+  if (pageSize === null || (pageSize !== "all" && pageSize > MAX_PAGE_SIZE)) {
+    return badRequest(`pageSize must be "all" or an integer between 1 and ${MAX_PAGE_SIZE}.`);
+  }
+
+  try {
+    const allDoctors = await loadDoctors();
+    const matches = applyListingFilters(allDoctors, query);
+    const { items, page } = paginate(matches, query.page, pageSize);
+
+    return NextResponse.json({
+      doctors: items,
+      total: matches.length,
+      page,
+      pageSize: pageSize === "all" ? matches.length : pageSize,
+      facets: getFacets(allDoctors, query),
+    });
+  } catch (e: unknown) {
+    console.error("Failed to fetch doctors:", e);
+    return NextResponse.json(
+      { error: `Failed to load doctor data. ${e instanceof Error ? e.message : ""}`.trim() },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+// app/api/responses.ts
+// Error responses shared by the API routes.
+
+import { NextResponse } from "next/server";
+
+export const notFound = (id: string) => NextResponse.json({ error: `No doctor with id "${id}".` }, { status: 404 });
+
+// The source or the store failed, e.g. the remote roster is down or the file isn't writable
+export const storeError = (action: string, e: unknown) => {
+  console.error(`Failed to ${action}:`, e);
+  return NextResponse.json(
+    { error: `Failed to ${action}. ${e instanceof Error ? e.message : ""}`.trim() },
+    { status: 502 }
+  );
+};
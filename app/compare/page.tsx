@@ -0,0 +1,225 @@
+// app/compare/page.tsx
+// Side-by-side comparison of the doctors in the `id` params, e.g. /compare?id=1001&id=1004. The listing
+// passes its own query along, so fees show in its display currency (&currency=USD) and the back link
+// returns to its filters.
+import type { ReactNode } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import type { Doctor } from "@/types/doctor";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { compareHref, getBestColumns, MIN_COMPARE, parseCompareIds } from "@/lib/doctors/compare";
+import { convertMoney, feeIn } from "@/lib/doctors/currency";
+import { formatMoney } from "@/lib/doctors/money";
+import { parseListingQuery, serializeListingQuery } from "@/lib/doctors/query";
+import { getI18n } from "@/lib/i18n/server";
+import { PLACEHOLDER_PHOTO, doctorProfileHref } from "@/app/components/DoctorCard";
+
+interface ComparePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+interface CompareRow {
+  label: string;
+  testId: string;
+  best?: number[]; // Highlighted columns
+  render: (doctor: Doctor) => ReactNode;
+}
+
+const listOrDash = (items: string[]) => (items.length > 0 ? items.join(", ") : "—");
+
+// null when the doctor source is down; the page then shows the error instead of the table
+async function getDoctors(): Promise<Doctor[] | null> {
+  try {
+    return await loadDoctors();
+  } catch (e: unknown) {
+    console.error("Failed to load doctors:", e);
+    return null;
+  }
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const params = await searchParams;
+  const ids = parseCompareIds(params.id);
+  // Everything but the `id` params is the listing's query
+  const listing = parseListingQuery(params).query;
+  const { currency } = listing; // null: the default currency
+  // The listing's canonical query with `remaining` as its comparison picks
+  const listingQuery = (remaining: string[]) =>
+    serializeListingQuery({
+      ...listing,
+      compare: listing.compare.filter((id) => remaining.includes(id)),
+      extra: listing.extra.filter(([name]) => name !== "id"),
+    }).toString();
+  const backQuery = listingQuery(ids);
+
+  const [roster, { t, formatFee, formatExperience }] = await Promise.all([getDoctors(), getI18n()]);
+  // Keep the order the doctors were picked in; unknown ids are dropped
+  const doctors = ids
+    .map((id) => roster?.find((doctor) => doctor.id === id))
+    .filter((doctor): doctor is Doctor => !!doctor);
+  const best = getBestColumns(doctors);
+  // The ids left when one doctor is removed from the table
+  const remove = (removedId: string) => doctors.filter(({ id }) => id !== removedId).map(({ id }) => id);
+
+  const rows: CompareRow[] = [
+    {
+      label: t("compare.specialties"),
+      testId: "compare-specialties",
+      render: (doctor) => listOrDash(doctor.specialities.map(({ name }) => name)),
+    },
+    {
+      label: t("compare.experience"),
+      testId: "compare-experience",
+      best: best.experience,
+      render: (doctor) => formatExperience(doctor.experience_years),
+    },
+    {
+      label: t("compare.fees"),
+      testId: "compare-fee",
+      best: best.fee,
+      render: (doctor) => {
+        const converted = currency ? convertMoney(doctor.fee, currency) : null;
+        if (converted && converted.currency !== doctor.fee.currency) {
+          return (
+            <>
+              {formatFee(converted)}
+              <span className="block text-xs text-gray-500">{t("fee.listedAs", { fees: formatFee(doctor.fee) })}</span>
+            </>
+          );
+        }
+        return (
+          <>
+            {formatFee(doctor.fee)}
+            {doctor.fees !== formatMoney(doctor.fee) && (
+              <span className="block text-xs text-gray-500">{t("fee.listedAs", { fees: doctor.fees })}</span>
+            )}
+          </>
+        );
+      },
+    },
+    {
+      label: t("compare.consultation"),
+      testId: "compare-consultation",
+      render: (doctor) =>
+        listOrDash([doctor.video_consult && t("consultation.video"), doctor.in_clinic && t("consultation.clinic")].filter(
+          (mode): mode is string => !!mode
+        )),
+    },
+    {
+      label: t("compare.languages"),
+      testId: "compare-languages",
+      render: (doctor) => listOrDash(doctor.languages),
+    },
+    {
+      label: t("compare.clinic"),
+      testId: "compare-clinic",
+      render: (doctor) => doctor.clinic?.name || "—",
+    },
+    {
+      label: t("compare.locality"),
+      testId: "compare-locality",
+      render: (doctor) =>
+        listOrDash([doctor.clinic?.address.locality, doctor.clinic?.address.city].filter(
+          (part): part is string => !!part
+        )),
+    },
+  ];
+  if (doctors.some((doctor) => doctor.ratings !== undefined)) {
+    rows.push({
+      label: t("compare.rating"),
+      testId: "compare-rating",
+      best: best.rating,
+      render: (doctor) =>
+        doctor.ratings === undefined
+          ? "—"
+          : doctor.review_count === undefined
+            ? t("rating.stars", { rating: doctor.ratings })
+            : `${t("rating.stars", { rating: doctor.ratings })} (${t("rating.reviewCount", { count: doctor.review_count })})`,
+    });
+  }
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 lg:p-8 font-sans">
+      <Link
+        href={backQuery ? `/?${backQuery}` : "/"}
+        className="text-sm text-blue-600 hover:underline"
+        data-testid="back-to-listing"
+      >
+        &larr; {t("common.backToDoctors")}
+      </Link>
+      <h1 className="mt-4 text-2xl font-semibold text-gray-800">{t("compare.title")}</h1>
+
+      {roster === null ? (
+        <p className="mt-6 text-center text-red-600 bg-red-100 p-4 rounded-lg shadow" data-testid="compare-error">
+          {t("listing.loadError", { detail: t("listing.tryLater") })}
+        </p>
+      ) : doctors.length < MIN_COMPARE ? (
+        <p className="mt-6 text-gray-500" data-testid="compare-empty">
+          {t("compare.empty", { count: MIN_COMPARE })}
+        </p>
+      ) : (
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full border-collapse bg-white shadow rounded-lg text-sm" data-testid="compare-table">
+            <thead>
+              <tr>
+                <th className="p-3 border-b w-32" />
+                {doctors.map((doctor) => (
+                  <th key={doctor.id} className="p-3 border-b align-top font-normal" data-testid="compare-column">
+                    <div className="flex flex-col items-center text-center gap-2">
+                      <Image
+                        src={doctor.photo || PLACEHOLDER_PHOTO}
+                        alt={t("doctor.photoAlt", { name: doctor.name })}
+                        width={64}
+                        height={64}
+                        className="w-16 h-16 rounded-full object-cover border border-gray-200"
+                      />
+                      <Link
+                        href={doctorProfileHref(doctor.id)}
+                        className="font-semibold text-gray-800 hover:text-blue-700 hover:underline"
+                      >
+                        {doctor.name}
+                      </Link>
+                      <Link
+                        href={compareHref(remove(doctor.id), listingQuery(remove(doctor.id)))}
+                        className="text-xs text-gray-500 hover:text-red-600 hover:underline"
+                        data-testid="compare-remove"
+                      >
+                        {t("compare.remove")}
+                      </Link>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.testId} data-testid={row.testId}>
+                  <th scope="row" className="p-3 border-b text-left font-medium text-gray-600 align-top">
+                    {row.label}
+                  </th>
+                  {doctors.map((doctor, i) => {
+                    const isBest = row.best?.includes(i) ?? false;
+                    return (
+                      <td
+                        key={doctor.id}
+                        className={`p-3 border-b text-center align-top ${
+                          isBest ? "bg-green-50 text-green-800 font-semibold" : "text-gray-700"
+                        }`}
+                        data-best={isBest || undefined}
+                      >
+                        {row.render(doctor)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {doctors.some(({ fee }) => feeIn(fee) === null) && (
+            <p className="mt-2 text-xs text-gray-500">{t("compare.unrankedFees")}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
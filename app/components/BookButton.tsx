@@ -0,0 +1,32 @@
+"use client";
+
+import { useState } from "react";
+import type { Doctor } from "@/types/doctor";
+import useI18n from "@/app/hooks/useI18n";
+import BookingDialog from "./BookingDialog";
+
+interface BookButtonProps {
+  doctor: Doctor;
+  className?: string;
+}
+
+// "Book" action for cards and the profile; hidden for doctors with no consultation mode to book
+export default function BookButton({ doctor, className = "" }: BookButtonProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const { t } = useI18n();
+  if (!doctor.video_consult && !doctor.in_clinic) return null;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className={`px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md ${className}`}
+        data-testid="book-button"
+      >
+        {t("card.book")}
+      </button>
+      {isOpen && <BookingDialog doctor={doctor} onClose={() => setIsOpen(false)} />}
+    </>
+  );
+}
@@ -0,0 +1,350 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Booking, DaySlots } from "@/types/booking";
+import type { ConsultationMode, Doctor } from "@/types/doctor";
+import { CONSULTATION_MODES, offersConsultation } from "@/lib/doctors/listing";
+import { BookingApiError, createBooking, fetchSlots } from "@/lib/bookings/client";
+import { isEmailAddress, isPhoneNumber } from "@/lib/bookings/validate";
+import type { MessageKey } from "@/lib/i18n/translate";
+import useI18n from "@/app/hooks/useI18n";
+
+interface BookingDialogProps {
+  doctor: Doctor;
+  onClose: () => void;
+}
+
+type Step = "slot" | "details" | "done";
+
+const MODE_LABELS: Record<ConsultationMode, MessageKey> = {
+  video: "consultation.video",
+  clinic: "consultation.clinic",
+};
+
+// Modal booking flow: consultation mode and slot, then patient details, then a confirmation
+export default function BookingDialog({ doctor, onClose }: BookingDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const { t, formatFee, formatSlotDate } = useI18n();
+  const modes = CONSULTATION_MODES.filter((mode) => offersConsultation(doctor, mode));
+
+  const [step, setStep] = useState<Step>("slot");
+  const [mode, setMode] = useState<ConsultationMode>(modes[0] ?? "video");
+  const [date, setDate] = useState<string | null>(null); // null: first date with a free slot
+  const [day, setDay] = useState<DaySlots | null>(null);
+  const [slotsLoading, setSlotsLoading] = useState<boolean>(true);
+  const [reloadKey, setReloadKey] = useState<number>(0); // Bumped to refetch after a clash
+  const [time, setTime] = useState<string | null>(null);
+
+  const [name, setName] = useState<string>("");
+  const [phone, setPhone] = useState<string>("");
+  const [email, setEmail] = useState<string>("");
+  const [showIssues, setShowIssues] = useState<boolean>(false); // Only after the first submit attempt
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null); // The API's message; "" for a generic failure
+  const [booking, setBooking] = useState<Booking | null>(null);
+
+  // Opened as a modal, so focus is trapped and Escape closes it
+  useEffect(() => {
+    dialogRef.current?.showModal();
+  }, []);
+
+  // == Slots for the chosen mode and date ==
+  useEffect(() => {
+    let cancelled = false;
+    setSlotsLoading(true);
+    fetchSlots(doctor.id, mode, date ?? undefined)
+      .then((result) => {
+        if (cancelled) return;
+        setDay(result);
+        setTime((current) => (result.slots.some((slot) => slot.time === current && slot.available) ? current : null));
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof BookingApiError && e.status < 500 ? e.message : "");
+      })
+      .finally(() => {
+        if (!cancelled) setSlotsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [doctor.id, mode, date, reloadKey]);
+
+  const handleModeChange = (nextMode: ConsultationMode) => {
+    setMode(nextMode);
+    setDate(null);
+    setTime(null);
+  };
+
+  // == Patient Details ==
+  const detailIssues = [
+    !name.trim() && t("booking.enterName"),
+    !isPhoneNumber(phone.trim()) && t("booking.enterPhone"),
+    email.trim() !== "" && !isEmailAddress(email.trim()) && t("booking.enterEmail"),
+  ].filter((issue): issue is string => Boolean(issue));
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!day || !time) return;
+    if (detailIssues.length > 0) {
+      setShowIssues(true);
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      setBooking(
+        await createBooking({
+          doctorId: doctor.id,
+          mode,
+          date: day.date,
+          time,
+          patient: { name: name.trim(), phone: phone.trim(), email: email.trim() || undefined },
+        })
+      );
+      setStep("done");
+    } catch (e: unknown) {
+      // 400 and 409 ("slot taken") carry a message meant for the patient
+      setError(e instanceof BookingApiError && e.status < 500 ? e.message : "");
+      // Someone else got the slot first: back to the slot picker with fresh availability
+      if (e instanceof BookingApiError && e.status === 409) {
+        setTime(null);
+        setStep("slot");
+        setReloadKey((key) => key + 1);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <dialog
+      ref={dialogRef}
+      onClose={onClose}
+      className="w-full max-w-lg rounded-lg p-0 shadow-xl backdrop:bg-black/40"
+      aria-labelledby="booking-title"
+      data-testid="booking-dialog"
+    >
+      <div className="p-5">
+        <div className="flex items-start justify-between gap-4 border-b pb-3 mb-4">
+          <div>
+            <h2 id="booking-title" className="text-lg font-semibold text-gray-800">
+              {step === "done" ? t("booking.confirmedTitle") : t("booking.title")}
+            </h2>
+            <p className="text-sm text-gray-600">
+              {doctor.name} &middot; {formatFee(doctor.fee)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => dialogRef.current?.close()}
+            className="text-gray-500 hover:text-gray-800 text-xl leading-none"
+            aria-label={t("booking.close")}
+          >
+            &times;
+          </button>
+        </div>
+
+        {error !== null && step !== "done" && (
+          <p className="mb-3 text-sm text-red-600 bg-red-50 p-2 rounded" role="alert" data-testid="booking-error">
+            {error || t("booking.failed")}
+          </p>
+        )}
+
+        {/* Step 1: mode, date and time */}
+        {step === "slot" && (
+          <div className="space-y-4">
+            <fieldset>
+              <legend className="font-semibold text-sm mb-1">{t("booking.mode")}</legend>
+              <div className="flex gap-4">
+                {modes.map((option) => (
+                  <label key={option} className="flex items-center space-x-2 cursor-pointer text-sm">
+                    <input
+                      type="radio"
+                      name="bookingMode"
+                      value={option}
+                      checked={mode === option}
+                      onChange={() => handleModeChange(option)}
+                      className="form-radio text-blue-600 focus:ring-blue-500"
+                      data-testid={`booking-mode-${option}`}
+                    />
+                    <span>{t(MODE_LABELS[option])}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <label className="block text-sm">
+              <span className="font-semibold">{t("booking.date")}</span>
+              <select
+                value={day?.date ?? ""}
+                onChange={(event) => {
+                  setDate(event.target.value);
+                  setTime(null);
+                }}
+                className={`${inputClass} mt-1`}
+                disabled={!day}
+                data-testid="booking-date"
+              >
+                {day?.dates.map((option) => (
+                  <option key={option} value={option}>
+                    {formatSlotDate(option)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <fieldset>
+              <legend className="font-semibold text-sm mb-1">{t("booking.time")}</legend>
+              {slotsLoading ? (
+                <p className="text-sm text-gray-500">{t("booking.loadingSlots")}</p>
+              ) : day && day.slots.length > 0 ? (
+                <div className="grid grid-cols-4 gap-2" data-testid="booking-slots">
+                  {day.slots.map((slot) => (
+                    <button
+                      key={slot.time}
+                      type="button"
+                      onClick={() => setTime(slot.time)}
+                      disabled={!slot.available}
+                      aria-pressed={time === slot.time}
+                      className={`px-2 py-1 text-sm border rounded disabled:text-gray-300 disabled:line-through disabled:cursor-not-allowed ${
+                        time === slot.time ? "bg-blue-600 border-blue-600 text-white" : "border-gray-300 hover:bg-gray-50"
+                      }`}
+                      data-testid={`booking-slot-${slot.time}`}
+                    >
+                      {slot.time}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  {day?.note ? `${day.note}. ` : ""}
+                  {t("booking.noSlots")}
+                </p>
+              )}
+            </fieldset>
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => {
+                  setError(null);
+                  setStep("details");
+                }}
+                disabled={!time}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                data-testid="booking-continue"
+              >
+                {t("booking.continue")}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 2: patient details */}
+        {step === "details" && day && time && (
+          <form onSubmit={handleSubmit} className="space-y-3" noValidate>
+            <p className="text-sm text-gray-700 bg-gray-50 p-2 rounded">
+              {t(MODE_LABELS[mode])} &middot; {t("booking.dateTime", { date: formatSlotDate(day.date), time })}
+            </p>
+            <label className="block text-sm">
+              <span className="font-semibold">{t("booking.name")}</span>
+              <input
+                type="text"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                className={`${inputClass} mt-1`}
+                autoComplete="name"
+                required
+                data-testid="booking-name"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="font-semibold">{t("booking.phone")}</span>
+              <input
+                type="tel"
+                value={phone}
+                onChange={(event) => setPhone(event.target.value)}
+                className={`${inputClass} mt-1`}
+                autoComplete="tel"
+                required
+                data-testid="booking-phone"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="font-semibold">{t("booking.email")}</span>{" "}
+              <span className="text-gray-500">{t("booking.optional")}</span>
+              <input
+                type="email"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                className={`${inputClass} mt-1`}
+                autoComplete="email"
+                data-testid="booking-email"
+              />
+            </label>
+            {showIssues && detailIssues.length > 0 && (
+              <ul className="text-sm text-red-600 list-disc pl-5" role="alert">
+                {detailIssues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+            <div className="flex justify-between">
+              <button type="button" onClick={() => setStep("slot")} className="text-sm text-blue-600 hover:underline">
+                &larr; {t("booking.changeSlot")}
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md disabled:opacity-50"
+                data-testid="booking-submit"
+              >
+                {isSubmitting ? t("booking.submitting") : t("booking.submit")}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Step 3: confirmation */}
+        {step === "done" && booking && (
+          <div className="space-y-3 text-sm" data-testid="booking-confirmation">
+            <p className="text-green-800 bg-green-50 p-2 rounded">
+              {t("booking.booked", { name: booking.patient.name, doctor: doctor.name })}
+            </p>
+            <dl className="grid grid-cols-3 gap-y-1">
+              <dt className="text-gray-500">{t("booking.when")}</dt>
+              <dd className="col-span-2">
+                {t("booking.dateTime", { date: formatSlotDate(booking.date), time: booking.time })}
+              </dd>
+              <dt className="text-gray-500">{t("booking.mode")}</dt>
+              <dd className="col-span-2">{t(MODE_LABELS[booking.mode])}</dd>
+              {booking.mode === "clinic" && doctor.clinic && (
+                <>
+                  <dt className="text-gray-500">{t("booking.where")}</dt>
+                  <dd className="col-span-2">
+                    {doctor.clinic.name}, {[doctor.clinic.address.locality, doctor.clinic.address.city].filter(Boolean).join(", ")}
+                  </dd>
+                </>
+              )}
+              <dt className="text-gray-500">{t("booking.reference")}</dt>
+              <dd className="col-span-2 font-mono text-xs break-all" data-testid="booking-reference">
+                {booking.id}
+              </dd>
+            </dl>
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => dialogRef.current?.close()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md"
+              >
+                {t("booking.done")}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </dialog>
+  );
+}
@@ -0,0 +1,171 @@
+import Image from "next/image";
+import Link from "next/link";
+import type { ConsultationMode, Doctor } from "@/types/doctor";
+import { doctorDistanceKm, GeoPoint } from "@/lib/doctors/geo";
+import { convertMoney } from "@/lib/doctors/currency";
+import { getNextSlot } from "@/lib/doctors/schedule";
+import { getMatchedFields } from "@/lib/doctors/search";
+import useI18n from "@/app/hooks/useI18n";
+import Highlight from "./Highlight";
+import BookButton from "./BookButton";
+import ShortlistButton from "./ShortlistButton";
+
+export const PLACEHOLDER_PHOTO = "https://placehold.co/150x150/E0E0E0/BDBDBD?text=No+Image";
+
+// Profile URL for a doctor; `query` is the listing's filter query string, carried along for the back link
+export const doctorProfileHref = (doctorId: string, query?: string) =>
+  `/doctors/${encodeURIComponent(doctorId)}${query ? `?${query}` : ""}`;
+
+interface DoctorCardProps {
+  doctor: Doctor;
+  query?: string;
+  highlight?: string; // Current search term
+  near?: GeoPoint | null; // Shows the distance to the clinic when set
+  consultation?: ConsultationMode | null; // Next slot in this mode only, when set
+  currency?: string | null; // Display currency for the fee; the listed price is shown too when it differs
+  isCompared?: boolean;
+  compareFull?: boolean; // The comparison already has the most doctors it can take
+  onCompareToggle?: (doctorId: string) => void; // Shows the "Compare" checkbox when set
+}
+
+export default function DoctorCard({
+  doctor,
+  query,
+  highlight,
+  near,
+  consultation = null,
+  currency = null,
+  isCompared = false,
+  compareFull = false,
+  onCompareToggle,
+}: DoctorCardProps) {
+  const { t, formatFee, formatExperience, formatNextSlot } = useI18n();
+  const profileHref = doctorProfileHref(doctor.id, query);
+  const firstSpecialty = doctor.specialities[0]?.name;
+  const area = [doctor.clinic?.address.locality, doctor.clinic?.address.city].filter(Boolean).join(", ");
+  const distance = near ? doctorDistanceKm(doctor, near) : null;
+  const nextSlot = getNextSlot(doctor, consultation);
+  const displayFee = currency ? convertMoney(doctor.fee, currency) : null;
+  const isConverted = displayFee !== null && displayFee.currency !== doctor.fee.currency;
+
+  // Matches in fields the card doesn't otherwise show (clinic, area, other specialties)
+  const otherMatches = highlight
+    ? getMatchedFields(doctor, highlight).filter(
+        ({ field, value }) =>
+          field !== "name" && field !== "language" && !(field === "specialty" && value === firstSpecialty)
+      )
+    : [];
+
+  return (
+    <div
+      className="relative border rounded-lg p-4 shadow hover:shadow-lg transition-shadow duration-300 bg-white flex flex-col items-center text-center" // Centered content
+      data-testid="doctor-card"
+    >
+      <ShortlistButton doctor={doctor} className="absolute top-3 right-3" />
+      <Image
+        src={doctor.photo || PLACEHOLDER_PHOTO}
+        alt={t("doctor.photoAlt", { name: doctor.name })}
+        width={96}
+        height={96}
+        className="w-24 h-24 rounded-full mb-3 object-cover border border-gray-200"
+      />
+      <h3 className="text-lg font-semibold text-gray-800 mb-1" data-testid="doctor-name">
+        {/* Removed "Dr." prefix assuming it's in the name */}
+        <Link href={profileHref} className="hover:text-blue-700 hover:underline">
+          <Highlight text={doctor.name} query={highlight} />
+        </Link>
+      </h3>
+      {/* Display first specialty, handle cases with no specialties */}
+      <p className="text-sm text-blue-700 mb-2" data-testid="doctor-specialty">
+        {firstSpecialty ? <Highlight text={firstSpecialty} query={highlight} /> : t("common.notAvailable")}
+      </p>
+      {otherMatches.length > 0 && (
+        <p className="text-xs text-gray-500 mb-2" data-testid="doctor-search-match">
+          {otherMatches.map(({ field, value }, i) => (
+            <span key={`${field}-${value}`}>
+              {i > 0 && " · "}
+              <Highlight text={value} query={highlight} />
+            </span>
+          ))}
+        </p>
+      )}
+      <div className="text-sm text-gray-600 space-y-1 w-full">
+        <p data-testid="doctor-experience">
+          {t("card.experience", { experience: formatExperience(doctor.experience_years) })}
+        </p>
+        {doctor.ratings !== undefined && (
+          <p data-testid="doctor-rating">
+            <span className="text-amber-600">{t("rating.stars", { rating: doctor.ratings })}</span>
+            {doctor.review_count !== undefined && (
+              <span className="text-gray-500"> ({t("rating.reviewCount", { count: doctor.review_count })})</span>
+            )}
+          </p>
+        )}
+        <p data-testid="doctor-fee">
+          {t("card.fees", { fees: formatFee(isConverted ? displayFee : doctor.fee) })}
+          {isConverted && (
+            <span className="block text-xs text-gray-500" data-testid="doctor-fee-listed">
+              {t("fee.listedAs", { fees: formatFee(doctor.fee) })}
+            </span>
+          )}
+        </p>
+        {area && (
+          <p data-testid="doctor-location">
+            {area}
+            {distance !== null && (
+              <span className="text-gray-500"> · {t("card.distance", { distance: distance.toFixed(1) })}</span>
+            )}
+          </p>
+        )}
+
+        {doctor.languages.length > 0 && (
+          <ul className="pt-1 flex justify-center gap-1 flex-wrap" data-testid="doctor-languages">
+            {doctor.languages.map((language) => (
+              <li key={language} className="text-xs bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded">
+                <Highlight text={language} query={highlight} />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p data-testid="doctor-next-slot" className={nextSlot ? "text-green-700" : "text-gray-400"}>
+          {nextSlot
+            ? t("card.nextSlot", { slot: formatNextSlot(nextSlot), mode: t(`slotMode.${nextSlot.mode}`) })
+            : t("card.noSlots")}
+        </p>
+
+        <div className="text-xs text-gray-500 pt-2 flex justify-center gap-2 flex-wrap">
+          {doctor.video_consult && (
+            <span className="bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full">{t("consultation.video")}</span>
+          )}
+          {doctor.in_clinic && (
+            <span className="bg-green-100 text-green-800 px-2 py-0.5 rounded-full">{t("consultation.clinic")}</span>
+          )}
+        </div>
+      </div>
+      <div className="mt-3 flex items-center gap-4">
+        <BookButton doctor={doctor} />
+        <Link href={profileHref} className="text-sm text-blue-600 hover:underline" data-testid="doctor-profile-link">
+          {t("card.viewProfile")}
+        </Link>
+      </div>
+      {onCompareToggle && (
+        <label
+          className={`mt-2 flex items-center gap-1.5 text-xs ${
+            compareFull && !isCompared ? "text-gray-400" : "text-gray-600 cursor-pointer"
+          }`}
+          title={compareFull && !isCompared ? t("card.compareFull") : undefined}
+        >
+          <input
+            type="checkbox"
+            checked={isCompared}
+            disabled={compareFull && !isCompared}
+            onChange={() => onCompareToggle(doctor.id)}
+            data-testid="compare-toggle"
+          />
+          {t("card.compare")}
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import type { Doctor } from "@/types/doctor";
+import type { ListingFilters } from "@/lib/doctors/listing";
+import { ExportFormat, exportFileName, toCsv, toJson } from "@/lib/doctors/export";
+import useI18n from "@/app/hooks/useI18n";
+
+interface ExportMenuProps {
+  doctors: Doctor[]; // Exactly what's exported: the filtered, sorted results (every page)
+  filters: ListingFilters; // Noted in each export
+  printHref: string; // The print sheet for the same query
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  json: "application/json",
+};
+
+// Saves the text as a file through a temporary object URL
+const download = (text: string, format: ExportFormat) => {
+  const url = URL.createObjectURL(new Blob([text], { type: MIME_TYPES[format] }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = exportFileName(format);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// "Export" dropdown above the results: CSV, JSON or a print-friendly sheet
+export default function ExportMenu({ doctors, filters, printHref }: ExportMenuProps) {
+  const { t } = useI18n();
+  const handleExport = (format: ExportFormat) => (event: React.MouseEvent<HTMLButtonElement>) => {
+    const exportedAt = new Date();
+    download(format === "csv" ? toCsv(doctors, filters, exportedAt, t) : toJson(doctors, filters, exportedAt, t), format);
+    event.currentTarget.closest("details")?.removeAttribute("open");
+  };
+
+  const itemClass = "block w-full text-left px-4 py-2 text-sm hover:bg-blue-50";
+
+  return (
+    <details className="relative" data-testid="export-menu">
+      <summary className="cursor-pointer list-none text-sm text-blue-600 hover:underline select-none">
+        {t("export.menu")} &#9662;
+      </summary>
+      <div className="absolute right-0 z-10 mt-1 w-44 bg-white border border-gray-300 rounded-md shadow-lg py-1">
+        <button type="button" onClick={handleExport("csv")} className={itemClass} data-testid="export-csv">
+          {t("export.csv")}
+        </button>
+        <button type="button" onClick={handleExport("json")} className={itemClass} data-testid="export-json">
+          {t("export.json")}
+        </button>
+        <a href={printHref} target="_blank" rel="noopener" className={itemClass} data-testid="export-print">
+          {t("export.print")}
+        </a>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import useI18n from "@/app/hooks/useI18n";
+
+interface FacetCheckboxListProps {
+  title: string;
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  testIdPrefix: string; // e.g. "filter-specialty" -> "filter-specialty-General-Physician"
+  headerTestId?: string;
+  clearLabel?: string; // Defaults to the locale's "Clear"
+  counts?: Record<string, number>; // Live count per option; zero-count options are de-emphasized
+}
+
+// Multi-select filter section (Specialty, City, Locality, ...); any selected option matches
+export default function FacetCheckboxList({
+  title,
+  options,
+  selected,
+  onChange,
+  testIdPrefix,
+  headerTestId,
+  clearLabel,
+  counts,
+}: FacetCheckboxListProps) {
+  const { t } = useI18n();
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const { value, checked } = event.target;
+    onChange(checked ? [...selected, value] : selected.filter((option) => option !== value));
+  };
+
+  return (
+    <div className="mb-4">
+      <h3 className="font-semibold mb-2" data-testid={headerTestId}>{title}</h3>
+      <div className="flex flex-col space-y-1 max-h-60 overflow-y-auto pr-2"> {/* Added padding-right for scrollbar */}
+        {options.map((option) => {
+          const count = counts?.[option];
+          // Selected options stay at full strength even at zero, so they still read as active
+          const isEmpty = count === 0 && !selected.includes(option);
+          return (
+            <label
+              key={option}
+              className={`flex items-center space-x-2 cursor-pointer ${isEmpty ? "text-gray-400" : ""}`}
+            >
+              <input
+                type="checkbox"
+                value={option}
+                checked={selected.includes(option)}
+                onChange={handleChange}
+                className="form-checkbox text-blue-600 rounded focus:ring-blue-500"
+                // Generate test-id safely
+                data-testid={`${testIdPrefix}-${option.replace(/[^a-zA-Z0-9]/g, '-')}`}
+              />
+              <span>{option}</span>
+              {count !== undefined && (
+                <span className="text-xs text-gray-500" data-testid={`${testIdPrefix}-count`}>({count})</span>
+              )}
+            </label>
+          );
+        })}
+        {selected.length > 0 && (
+          <button
+            onClick={() => onChange([])}
+            className="text-sm text-blue-600 hover:underline mt-1 text-left"
+          >
+            {clearLabel ?? t("common.clear")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { getHighlightRanges } from "@/lib/doctors/search";
+
+interface HighlightProps {
+  text: string;
+  query?: string;
+}
+
+// Renders `text` with the fragments matching the search query wrapped in <mark>
+export default function Highlight({ text, query }: HighlightProps) {
+  const ranges = query ? getHighlightRanges(text, query) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
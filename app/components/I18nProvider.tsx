@@ -0,0 +1,18 @@
+"use client";
+
+import { createContext, useMemo } from "react";
+import { DEFAULT_LOCALE, Locale } from "@/lib/i18n/config";
+import { createI18n, I18n } from "@/lib/i18n/translate";
+
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+interface I18nProviderProps {
+  locale: Locale; // Read from the cookie by the root layout
+  children: React.ReactNode;
+}
+
+// Makes the active locale's messages and formatters available to client components; see useI18n
+export default function I18nProvider({ locale, children }: I18nProviderProps) {
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
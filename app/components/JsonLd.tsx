@@ -0,0 +1,11 @@
+import type { JsonLdObject } from "@/lib/doctors/structuredData";
+
+// Structured data for search engines; "<" is escaped so a value can't close the script element
+export default function JsonLd({ data }: { data: JsonLdObject }) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, "\\u003c") }}
+    />
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { isLocale, LOCALE_COOKIE, LOCALE_NAMES, LOCALES } from "@/lib/i18n/config";
+import useI18n from "@/app/hooks/useI18n";
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+// Stores the choice in the locale cookie, then re-renders the page on the server in that locale
+export default function LocaleSwitcher() {
+  const router = useRouter();
+  const { locale, t } = useI18n();
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const { value } = event.target;
+    if (!isLocale(value)) return;
+    document.cookie = `${LOCALE_COOKIE}=${value}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+    router.refresh();
+  };
+
+  return (
+    <select
+      value={locale}
+      onChange={handleChange}
+      className="border border-gray-300 rounded px-2 py-1 text-sm bg-white"
+      aria-label={t("common.language")}
+      data-testid="locale-switcher"
+    >
+      {LOCALES.map((option) => (
+        <option key={option} value={option} lang={option}>
+          {LOCALE_NAMES[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
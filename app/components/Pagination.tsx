@@ -0,0 +1,62 @@
+"use client";
+
+import { getPageNumbers } from "@/lib/doctors/pagination";
+import useI18n from "@/app/hooks/useI18n";
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  onChange: (page: number) => void;
+}
+
+const buttonClass = "min-w-9 px-2 py-1 border rounded text-sm disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Numbered pages with Previous / Next; hidden when everything fits on one page
+export default function Pagination({ page, pageCount, onChange }: PaginationProps) {
+  const { t } = useI18n();
+  if (pageCount <= 1) return null;
+
+  return (
+    <nav aria-label={t("pagination.label")} className="flex flex-wrap items-center justify-center gap-1 mt-6">
+      <button
+        type="button"
+        onClick={() => onChange(page - 1)}
+        disabled={page <= 1}
+        className={`${buttonClass} border-gray-300 hover:bg-gray-50`}
+        data-testid="pagination-prev"
+      >
+        {t("pagination.previous")}
+      </button>
+      {getPageNumbers(page, pageCount).map((n, i) =>
+        n === "gap" ? (
+          <span key={`gap-${i}`} className="px-1 text-gray-500" aria-hidden="true">
+            &hellip;
+          </span>
+        ) : (
+          <button
+            key={n}
+            type="button"
+            onClick={() => onChange(n)}
+            aria-current={n === page ? "page" : undefined}
+            aria-label={t("pagination.page", { page: n })}
+            className={`${buttonClass} ${
+              n === page ? "bg-blue-600 border-blue-600 text-white" : "border-gray-300 hover:bg-gray-50"
+            }`}
+            data-testid={`pagination-page-${n}`}
+          >
+            {n}
+          </button>
+        )
+      )}
+      <button
+        type="button"
+        onClick={() => onChange(page + 1)}
+        disabled={page >= pageCount}
+        className={`${buttonClass} border-gray-300 hover:bg-gray-50`}
+        data-testid="pagination-next"
+      >
+        {t("pagination.next")}
+      </button>
+    </nav>
+  );
+}
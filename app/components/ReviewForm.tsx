@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { ConsultationMode, Doctor } from "@/types/doctor";
+import { CONSULTATION_MODES, offersConsultation } from "@/lib/doctors/listing";
+import { isPhoneNumber } from "@/lib/bookings/validate";
+import { ReviewApiError, submitReview } from "@/lib/reviews/client";
+import { MAX_COMMENT_LENGTH, MAX_RATING, MIN_RATING } from "@/lib/reviews/validate";
+import type { MessageKey } from "@/lib/i18n/translate";
+import useI18n from "@/app/hooks/useI18n";
+
+interface ReviewFormProps {
+  doctor: Doctor;
+}
+
+const STARS = Array.from({ length: MAX_RATING - MIN_RATING + 1 }, (_, i) => MIN_RATING + i);
+
+// Review form on the profile; the page is refreshed after posting so the new review and average show
+export default function ReviewForm({ doctor }: ReviewFormProps) {
+  const router = useRouter();
+  const { t } = useI18n();
+  const modes = CONSULTATION_MODES.filter((mode) => offersConsultation(doctor, mode));
+
+  const [rating, setRating] = useState<number | null>(null);
+  const [mode, setMode] = useState<ConsultationMode>(modes[0] ?? "video");
+  const [comment, setComment] = useState<string>("");
+  const [name, setName] = useState<string>("");
+  const [phone, setPhone] = useState<string>("");
+  const [showIssues, setShowIssues] = useState<boolean>(false); // Only after the first submit attempt
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null); // The API's message; "" for a generic failure
+  const [isPosted, setIsPosted] = useState<boolean>(false);
+
+  if (modes.length === 0) return null;
+
+  const issues = [
+    rating === null && t("reviews.chooseRating"),
+    comment.trim().length > MAX_COMMENT_LENGTH && t("reviews.commentTooLong", { count: MAX_COMMENT_LENGTH }),
+    !name.trim() && t("reviews.enterName"),
+    !isPhoneNumber(phone.trim()) && t("reviews.enterPhone"),
+  ].filter((issue): issue is string => Boolean(issue));
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (rating === null || issues.length > 0) {
+      setShowIssues(true);
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await submitReview({
+        doctorId: doctor.id,
+        rating,
+        comment: comment.trim(),
+        mode,
+        patient: { name: name.trim(), phone: phone.trim() },
+      });
+      setIsPosted(true);
+      router.refresh();
+    } catch (e: unknown) {
+      // 400 and 409 ("already reviewed") carry a message meant for the patient
+      setError(e instanceof ReviewApiError && e.status < 500 ? e.message : "");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isPosted) {
+    return (
+      <p className="text-sm text-green-800 bg-green-50 p-2 rounded" data-testid="review-posted">
+        {t("reviews.thanks")}
+      </p>
+    );
+  }
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const modeLabel: Record<ConsultationMode, MessageKey> = { video: "consultation.video", clinic: "consultation.clinic" };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" noValidate data-testid="review-form">
+      <h3 className="font-semibold">{t("reviews.write")}</h3>
+      {error !== null && (
+        <p className="text-sm text-red-600 bg-red-50 p-2 rounded" role="alert" data-testid="review-error">
+          {error || t("reviews.failed")}
+        </p>
+      )}
+
+      <fieldset>
+        <legend className="font-semibold text-sm mb-1">{t("reviews.rating")}</legend>
+        <div className="flex gap-1" data-testid="review-rating">
+          {STARS.map((stars) => (
+            <button
+              key={stars}
+              type="button"
+              onClick={() => setRating(stars)}
+              aria-pressed={rating === stars}
+              aria-label={t("reviews.starLabel", { count: stars })}
+              className={`text-2xl leading-none ${rating !== null && stars <= rating ? "text-amber-500" : "text-gray-300"}`}
+              data-testid={`review-star-${stars}`}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+      </fieldset>
+
+      {modes.length > 1 && (
+        <fieldset>
+          <legend className="font-semibold text-sm mb-1">{t("reviews.mode")}</legend>
+          <div className="flex gap-4">
+            {modes.map((option) => (
+              <label key={option} className="flex items-center space-x-2 cursor-pointer text-sm">
+                <input
+                  type="radio"
+                  name="reviewMode"
+                  value={option}
+                  checked={mode === option}
+                  onChange={() => setMode(option)}
+                  className="form-radio text-blue-600 focus:ring-blue-500"
+                  data-testid={`review-mode-${option}`}
+                />
+                <span>{t(modeLabel[option])}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <label className="block text-sm">
+        <span className="font-semibold">{t("reviews.comment")}</span>{" "}
+        <span className="text-gray-500">{t("reviews.optional")}</span>
+        <textarea
+          value={comment}
+          onChange={(event) => setComment(event.target.value)}
+          className={`${inputClass} mt-1`}
+          rows={3}
+          maxLength={MAX_COMMENT_LENGTH}
+          data-testid="review-comment"
+        />
+      </label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="block text-sm">
+          <span className="font-semibold">{t("reviews.name")}</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className={`${inputClass} mt-1`}
+            autoComplete="name"
+            required
+            data-testid="review-name"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="font-semibold">{t("reviews.phone")}</span>
+          <input
+            type="tel"
+            value={phone}
+            onChange={(event) => setPhone(event.target.value)}
+            className={`${inputClass} mt-1`}
+            autoComplete="tel"
+            required
+            data-testid="review-phone"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">{t("reviews.phoneNote")}</p>
+
+      {showIssues && issues.length > 0 && (
+        <ul className="text-sm text-red-600 list-disc pl-5" role="alert">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md disabled:opacity-50"
+          data-testid="review-submit"
+        >
+          {isSubmitting ? t("reviews.submitting") : t("reviews.submit")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { describeSearchQuery, MAX_SEARCH_NAME_LENGTH, SavedSearch } from "@/lib/doctors/savedSearches";
+import useSearchHistory from "@/app/hooks/useSearchHistory";
+import useI18n from "@/app/hooks/useI18n";
+
+interface SavedSearchesProps {
+  currentQuery: string; // What "Save" stores; see toSearchQuery
+  onOpen: (query: string) => void;
+}
+
+// Saves the current search under a name and lists the saved ones; also clears the recent-search history
+export default function SavedSearches({ currentQuery, onOpen }: SavedSearchesProps) {
+  const { saved, recent, save, rename, remove, clearSaved, clearRecent } = useSearchHistory();
+  const { t } = useI18n();
+  const [name, setName] = useState<string>("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState<string>("");
+
+  const handleSave = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    save(name, currentQuery);
+    setName("");
+  };
+
+  const startRename = (search: SavedSearch) => {
+    setEditingId(search.id);
+    setEditingName(search.name);
+  };
+
+  const handleRename = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (editingId && editingName.trim()) rename(editingId, editingName);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mb-4 pb-4 border-b" data-testid="saved-searches">
+      <h3 className="font-semibold mb-2">{t("savedSearches.title")}</h3>
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={MAX_SEARCH_NAME_LENGTH}
+          placeholder={t("savedSearches.namePlaceholder")}
+          className="w-full min-w-0 border border-gray-300 rounded px-2 py-1 text-sm"
+          aria-label={t("savedSearches.nameLabel")}
+          data-testid="saved-search-name"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-2 py-1 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded"
+          data-testid="saved-search-save"
+        >
+          {t("savedSearches.save")}
+        </button>
+      </form>
+
+      {saved.length > 0 && (
+        <ul className="mt-2 space-y-2 text-sm">
+          {saved.map((search) => (
+            <li key={search.id} data-testid="saved-search-item">
+              {editingId === search.id ? (
+                <form onSubmit={handleRename} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(event) => setEditingName(event.target.value)}
+                    onKeyDown={(event) => event.key === "Escape" && setEditingId(null)}
+                    maxLength={MAX_SEARCH_NAME_LENGTH}
+                    className="w-full min-w-0 border border-gray-300 rounded px-2 py-1"
+                    aria-label={t("savedSearches.renameLabel", { name: search.name })}
+                    autoFocus
+                  />
+                  <button type="submit" className="text-blue-600 hover:underline">
+                    {t("savedSearches.ok")}
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onOpen(search.query)}
+                    className="text-left text-blue-700 hover:underline font-medium break-words"
+                    data-testid="saved-search-open"
+                  >
+                    {search.name}
+                  </button>
+                  <p className="text-xs text-gray-500 break-words">{describeSearchQuery(search.query, t)}</p>
+                  <div className="flex gap-3 text-xs">
+                    <button
+                      type="button"
+                      onClick={() => startRename(search)}
+                      className="text-gray-600 hover:underline"
+                      data-testid="saved-search-rename"
+                    >
+                      {t("savedSearches.rename")}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => remove(search.id)}
+                      className="text-gray-600 hover:text-red-600 hover:underline"
+                      data-testid="saved-search-delete"
+                    >
+                      {t("savedSearches.delete")}
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-2 flex flex-col items-start gap-1">
+        {saved.length > 0 && (
+          <button onClick={clearSaved} className="text-sm text-blue-600 hover:underline" data-testid="saved-search-clear">
+            {t("savedSearches.clearSaved")}
+          </button>
+        )}
+        {recent.length > 0 && (
+          <button onClick={clearRecent} className="text-sm text-blue-600 hover:underline" data-testid="recent-search-clear">
+            {t("savedSearches.clearRecent", { count: recent.length })}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Doctor } from "@/types/doctor";
+import { getSuggestionGroups, Suggestion } from "@/lib/doctors/search";
+import { describeSearchQuery, RecentSearch } from "@/lib/doctors/savedSearches";
+import useI18n from "@/app/hooks/useI18n";
+import Highlight from "./Highlight";
+
+interface SearchAutocompleteProps {
+  doctors: Doctor[];
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (suggestion: Suggestion) => void;
+  onSubmit?: (value: string) => void; // Enter without an active suggestion
+  recentSearches?: RecentSearch[]; // Listed instead of suggestions while the input is empty
+  onRecentSelect?: (query: string) => void;
+}
+
+const LISTBOX_ID = "autocomplete-suggestions";
+const optionId = (index: number) => `autocomplete-option-${index}`;
+
+// ARIA 1.2 combobox: focus stays in the input, the active option is exposed via aria-activedescendant
+export default function SearchAutocomplete({
+  doctors,
+  value,
+  onChange,
+  onSelect,
+  onSubmit,
+  recentSearches = [],
+  onRecentSelect,
+}: SearchAutocompleteProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+
+  const groups = useMemo(() => getSuggestionGroups(doctors, value), [doctors, value]);
+  // Flat list in display order, used for arrow-key navigation
+  const options = useMemo(() => groups.flatMap((group) => group.suggestions), [groups]);
+
+  // An empty input lists the recent searches instead
+  const showRecent = value.trim() === "" && recentSearches.length > 0 && !!onRecentSelect;
+  const optionCount = showRecent ? recentSearches.length : options.length;
+
+  const isExpanded = isOpen && optionCount > 0;
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const select = (suggestion: Suggestion) => {
+    onSelect(suggestion);
+    close();
+  };
+
+  const selectRecent = (recent: RecentSearch) => {
+    onRecentSelect?.(recent.query);
+    close();
+  };
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(event.target.value);
+    setIsOpen(true);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        if (optionCount === 0) return;
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setIsOpen(true);
+        // Wraps around; from "nothing active" ArrowUp goes to the last option
+        setActiveIndex((prev) =>
+          !isExpanded || prev === -1
+            ? step === 1 ? 0 : optionCount - 1
+            : (prev + step + optionCount) % optionCount
+        );
+        break;
+      }
+      case "Enter":
+        if (isExpanded && activeIndex >= 0) {
+          event.preventDefault(); // Don't also submit the form
+          if (showRecent) selectRecent(recentSearches[activeIndex]);
+          else select(options[activeIndex]);
+        } else {
+          close();
+        }
+        break;
+      case "Escape":
+        if (isExpanded) {
+          event.preventDefault();
+          close();
+        }
+        break;
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault(); // Prevent full page reload; filtering runs from the search term
+    onSubmit?.(value);
+    close();
+  };
+
+  return (
+    <div className="relative">
+      <form onSubmit={handleSubmit} className="flex items-center" role="search">
+        <input
+          type="text"
+          placeholder={t("search.placeholder")}
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={close}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          data-testid="autocomplete-input"
+          role="combobox"
+          aria-label={t("search.label")}
+          aria-autocomplete="list"
+          aria-expanded={isExpanded}
+          aria-controls={LISTBOX_ID}
+          aria-activedescendant={isExpanded && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+        />
+      </form>
+      {isExpanded && (
+        <div
+          id={LISTBOX_ID}
+          role="listbox"
+          aria-label={t(showRecent ? "search.recent" : "search.suggestions")}
+          className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-80 overflow-y-auto"
+        >
+          {showRecent && (
+            <ul role="group" aria-labelledby="autocomplete-group-recent">
+              <li
+                id="autocomplete-group-recent"
+                role="presentation"
+                className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500"
+              >
+                {t("search.recent")}
+              </li>
+              {recentSearches.map((recent, index) => (
+                <li
+                  key={recent.query}
+                  id={optionId(index)}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // mousedown fires before the input's blur closes the list
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => selectRecent(recent)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`px-4 py-2 cursor-pointer ${index === activeIndex ? "bg-blue-50" : ""}`}
+                  data-testid="recent-search-item"
+                >
+                  {describeSearchQuery(recent.query, t)}
+                </li>
+              ))}
+            </ul>
+          )}
+          {!showRecent && groups.map((group) => (
+            <ul key={group.kind} role="group" aria-labelledby={`autocomplete-group-${group.kind}`}>
+              <li
+                id={`autocomplete-group-${group.kind}`}
+                role="presentation"
+                className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500"
+              >
+                {t(`search.group.${group.kind}`)}
+              </li>
+              {group.suggestions.map((suggestion) => {
+                const index = options.indexOf(suggestion);
+                const isActive = index === activeIndex;
+                return (
+                  <li
+                    key={suggestion.id}
+                    id={optionId(index)}
+                    role="option"
+                    aria-selected={isActive}
+                    // mousedown fires before the input's blur closes the list
+                    onMouseDown={(event) => event.preventDefault()}
+                    onClick={() => select(suggestion)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={`px-4 py-2 cursor-pointer flex justify-between gap-2 ${isActive ? "bg-blue-50" : ""}`}
+                    data-testid="suggestion-item"
+                    data-kind={suggestion.kind}
+                  >
+                    <span>
+                      <Highlight text={suggestion.value} query={value} />
+                      {suggestion.detail && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          <Highlight text={suggestion.detail} query={value} />
+                        </span>
+                      )}
+                    </span>
+                    {suggestion.count !== undefined && (
+                      <span className="text-xs text-gray-500">
+                        {t("doctor.count", { count: suggestion.count })}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import type { Doctor } from "@/types/doctor";
+import { MAX_SHORTLIST_SIZE } from "@/lib/doctors/shortlist";
+import useShortlist from "@/app/hooks/useShortlist";
+import useI18n from "@/app/hooks/useI18n";
+
+interface ShortlistButtonProps {
+  doctor: Doctor;
+  className?: string;
+}
+
+// Heart toggle that adds the doctor to, or removes them from, the shortlist; disabled once it's full
+export default function ShortlistButton({ doctor, className = "" }: ShortlistButtonProps) {
+  const { ids, isFull, toggle } = useShortlist();
+  const { t } = useI18n();
+  const isShortlisted = ids.includes(doctor.id);
+  const cannotAdd = isFull && !isShortlisted;
+
+  return (
+    <button
+      type="button"
+      onClick={() => toggle(doctor.id)}
+      disabled={cannotAdd}
+      aria-pressed={isShortlisted}
+      aria-label={t(isShortlisted ? "shortlist.removeDoctor" : "shortlist.addDoctor", { name: doctor.name })}
+      title={
+        cannotAdd
+          ? t("shortlist.full", { count: MAX_SHORTLIST_SIZE })
+          : t(isShortlisted ? "shortlist.remove" : "shortlist.add")
+      }
+      className={`text-2xl leading-none transition-colors disabled:cursor-not-allowed disabled:hover:text-gray-300 ${
+        isShortlisted ? "text-red-500 hover:text-red-600" : "text-gray-300 hover:text-red-400"
+      } ${className}`}
+      data-testid="shortlist-toggle"
+    >
+      {isShortlisted ? "♥" : "♡"}
+    </button>
+  );
+}
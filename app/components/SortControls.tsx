@@ -0,0 +1,112 @@
+"use client";
+
+import { SortCriterion, sortCriterion, SortDirection, SortKey } from "@/lib/doctors/sort";
+import useI18n from "@/app/hooks/useI18n";
+
+interface SortControlsProps {
+  criteria: SortCriterion[];
+  onChange: (criteria: SortCriterion[]) => void;
+  keys: SortKey[]; // Keys offered for this roster, e.g. "rating" only when doctors have ratings
+  children?: React.ReactNode; // Extra controls shown under the list, e.g. the "Nearest First" origin picker
+}
+
+const flip = (direction: SortDirection): SortDirection => (direction === "asc" ? "desc" : "asc");
+
+// Primary sort key as radios, then optional "then by" keys; every key has its own direction
+export default function SortControls({ criteria, onChange, keys, children }: SortControlsProps) {
+  const { t } = useI18n();
+  const [primary, ...secondary] = criteria;
+  const unusedKeys = keys.filter((key) => !criteria.some((criterion) => criterion.key === key));
+
+  // Choosing a primary key drops it from the "then by" list
+  const handlePrimaryChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const key = event.target.value as SortKey;
+    onChange([sortCriterion(key), ...secondary.filter((criterion) => criterion.key !== key)]);
+  };
+
+  const updateAt = (index: number, criterion: SortCriterion) =>
+    onChange(criteria.map((current, i) => (i === index ? criterion : current)));
+
+  const removeAt = (index: number) => onChange(criteria.filter((_, i) => i !== index));
+
+  const directionButton = (criterion: SortCriterion, index: number) => (
+    <button
+      type="button"
+      onClick={() => updateAt(index, { ...criterion, direction: flip(criterion.direction) })}
+      className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+      aria-label={t("sort.reverse", { key: t(`sort.${criterion.key}`), direction: t(`sort.${criterion.direction}`) })}
+      data-testid={`sort-direction-${index}`}
+    >
+      {criterion.direction === "asc" ? "↑" : "↓"} {t(`sort.${criterion.direction}`)}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col space-y-1">
+      {keys.map((key) => (
+        <label key={key} className="flex items-center space-x-2 cursor-pointer">
+          <input
+            type="radio"
+            name="sortBy"
+            value={key} // Value matches state
+            checked={primary?.key === key}
+            onChange={handlePrimaryChange}
+            className="form-radio text-blue-600 focus:ring-blue-500"
+            data-testid={`sort-${key}`}
+          />
+          <span>{t(`sort.${key}`)}</span>
+          {primary?.key === key && directionButton(primary, 0)}
+        </label>
+      ))}
+
+      {children}
+
+      {/* Secondary keys */}
+      {secondary.map((criterion, i) => (
+        <div key={criterion.key} className="flex items-center gap-2 text-sm" data-testid={`sort-then-${i + 1}`}>
+          <span className="text-gray-500">{t("sort.then")}</span>
+          <select
+            value={criterion.key}
+            onChange={(event) => updateAt(i + 1, sortCriterion(event.target.value as SortKey))}
+            className="border border-gray-300 rounded px-1 py-0.5"
+            aria-label={t("sort.keyLabel", { position: i + 2 })}
+          >
+            {[criterion.key, ...unusedKeys].map((key) => (
+              <option key={key} value={key}>{t(`sort.${key}`)}</option>
+            ))}
+          </select>
+          {directionButton(criterion, i + 1)}
+          <button
+            type="button"
+            onClick={() => removeAt(i + 1)}
+            className="text-gray-500 hover:text-red-600"
+            aria-label={t("sort.remove", { key: t(`sort.${criterion.key}`) })}
+          >
+            &times;
+          </button>
+        </div>
+      ))}
+      {primary && unusedKeys.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([...criteria, sortCriterion(unusedKeys[0])])}
+          className="text-sm text-blue-600 hover:underline text-left"
+          data-testid="sort-add"
+        >
+          {t("sort.add")}
+        </button>
+      )}
+
+      {/* Clear Sort */}
+      {criteria.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="text-sm text-blue-600 hover:underline mt-1 text-left"
+        >
+          {t("sort.clear")}
+        </button>
+      )}
+    </div>
+  );
+}
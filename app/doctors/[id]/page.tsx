@@ -0,0 +1,223 @@
+// app/doctors/[id]/page.tsx
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { loadDoctor } from "@/lib/doctors/sources";
+import { canonicalizeListingQuery } from "@/lib/doctors/query";
+import { absoluteUrl, specialtyHref } from "@/lib/doctors/seo";
+import { doctorJsonLd } from "@/lib/doctors/structuredData";
+import { getReviewStore } from "@/lib/reviews/store";
+import { publicReviews } from "@/lib/reviews/summary";
+import { MAX_RATING } from "@/lib/reviews/validate";
+import { getI18n } from "@/lib/i18n/server";
+import { doctorProfileHref, PLACEHOLDER_PHOTO } from "@/app/components/DoctorCard";
+import JsonLd from "@/app/components/JsonLd";
+import BookButton from "@/app/components/BookButton";
+import ReviewForm from "@/app/components/ReviewForm";
+
+interface DoctorProfilePageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// Loaded once per request for both the metadata and the page
+const getDoctor = cache(loadDoctor);
+
+// e.g. "Dermatologist, Cosmetologist · Experience: 13 years · Koramangala, Bengaluru · Fees: ₹500"
+export async function generateMetadata({ params }: DoctorProfilePageProps): Promise<Metadata> {
+  const doctor = await getDoctor((await params).id);
+  if (!doctor) return {};
+  const { t, formatFee, formatExperience } = await getI18n();
+  const description = [
+    doctor.specialities.map(({ name }) => name).join(", "),
+    t("profile.experience", { experience: formatExperience(doctor.experience_years) }),
+    [doctor.clinic?.address.locality, doctor.clinic?.address.city].filter(Boolean).join(", "),
+    t("profile.fees", { fees: formatFee(doctor.fee) }),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  const url = doctorProfileHref(doctor.id);
+  return {
+    title: doctor.name,
+    description,
+    alternates: { canonical: url },
+    openGraph: { title: doctor.name, description, url, type: "profile", images: doctor.photo ? [doctor.photo] : [] },
+  };
+}
+
+export default async function DoctorProfilePage({ params, searchParams }: DoctorProfilePageProps) {
+  const { id } = await params;
+  const doctor = await getDoctor(id);
+  if (!doctor) notFound();
+
+  // The listing's filter params are forwarded to the profile so "Back" restores the same view
+  const query = canonicalizeListingQuery(await searchParams);
+  const { clinic } = doctor;
+  const reviews = publicReviews(await getReviewStore().list(doctor.id));
+  const { t, formatFee, formatExperience, formatDate } = await getI18n();
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 lg:p-8 font-sans max-w-4xl">
+      <JsonLd data={doctorJsonLd(doctor, absoluteUrl(doctorProfileHref(doctor.id)))} />
+      <Link
+        href={query ? `/?${query}` : "/"}
+        className="text-sm text-blue-600 hover:underline"
+        data-testid="back-to-listing"
+      >
+        &larr; {t("common.backToDoctors")}
+      </Link>
+
+      {/* Header */}
+      <section className="mt-4 border rounded-lg p-6 shadow bg-white flex flex-col sm:flex-row gap-6 items-center sm:items-start">
+        <Image
+          src={doctor.photo || PLACEHOLDER_PHOTO}
+          alt={t("doctor.photoAlt", { name: doctor.name })}
+          width={128}
+          height={128}
+          className="w-32 h-32 rounded-full object-cover border border-gray-200"
+        />
+        <div className="text-center sm:text-left">
+          <h1 className="text-2xl font-semibold text-gray-800" data-testid="profile-name">
+            {doctor.name}
+          </h1>
+          <ul className="mt-2 flex flex-wrap gap-2 justify-center sm:justify-start" data-testid="profile-specialties">
+            {doctor.specialities.map((specObj) => (
+              <li key={specObj.name}>
+                <Link
+                  href={specialtyHref(specObj.name)}
+                  className="text-sm bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full hover:underline"
+                >
+                  {specObj.name}
+                </Link>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-3 text-sm text-gray-600" data-testid="profile-experience">
+            {t("profile.experience", { experience: formatExperience(doctor.experience_years) })}
+          </p>
+          <p className="text-sm text-gray-600" data-testid="profile-fee">
+            {t("profile.fees", { fees: formatFee(doctor.fee) })}
+          </p>
+          {doctor.ratings !== undefined && (
+            <p className="text-sm text-gray-600" data-testid="profile-rating">
+              <span className="text-amber-600">{t("rating.stars", { rating: doctor.ratings })}</span>
+              {doctor.review_count !== undefined && (
+                <a href="#reviews" className="text-blue-600 hover:underline">
+                  {" "}
+                  ({t("rating.reviewCount", { count: doctor.review_count })})
+                </a>
+              )}
+            </p>
+          )}
+          <BookButton doctor={doctor} className="mt-4" />
+        </div>
+      </section>
+
+      <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="md:col-span-2 space-y-6">
+          {/* About */}
+          <section className="border rounded-lg p-4 shadow bg-white">
+            <h2 className="text-lg font-semibold mb-2 border-b pb-2">{t("profile.about")}</h2>
+            <p className="text-gray-700 whitespace-pre-line" data-testid="profile-introduction">
+              {doctor.doctor_introduction || t("profile.noIntroduction")}
+            </p>
+          </section>
+
+          {/* Languages */}
+          <section className="border rounded-lg p-4 shadow bg-white">
+            <h2 className="text-lg font-semibold mb-2 border-b pb-2">{t("profile.languages")}</h2>
+            {doctor.languages.length > 0 ? (
+              <ul className="flex flex-wrap gap-2" data-testid="profile-languages">
+                {doctor.languages.map((language) => (
+                  <li key={language} className="text-sm bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">
+                    {language}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500">{t("profile.notSpecified")}</p>
+            )}
+          </section>
+
+          {/* Reviews */}
+          <section id="reviews" className="border rounded-lg p-4 shadow bg-white">
+            <h2 className="text-lg font-semibold mb-2 border-b pb-2">{t("reviews.title")}</h2>
+            {reviews.length > 0 ? (
+              <ul className="divide-y" data-testid="profile-reviews">
+                {reviews.map((review) => (
+                  <li key={review.id} className="py-3" data-testid="profile-review">
+                    <p className="text-amber-500" aria-label={t("reviews.ratingLabel", { rating: review.rating })}>
+                      {"★".repeat(review.rating)}
+                      <span className="text-gray-300">{"★".repeat(MAX_RATING - review.rating)}</span>
+                    </p>
+                    {review.comment && <p className="text-gray-700 whitespace-pre-line mt-1">{review.comment}</p>}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {t("reviews.byline", {
+                        author: review.author,
+                        mode: t(review.mode === "video" ? "consultation.video" : "consultation.clinic"),
+                        date: formatDate(review.createdAt),
+                      })}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500 text-sm">{t("reviews.none")}</p>
+            )}
+            <div className="mt-4 border-t pt-4">
+              <ReviewForm doctor={doctor} />
+            </div>
+          </section>
+        </div>
+
+        <div className="space-y-6">
+          {/* Consultation options */}
+          <section className="border rounded-lg p-4 shadow bg-white">
+            <h2 className="text-lg font-semibold mb-2 border-b pb-2">{t("profile.consultation")}</h2>
+            <ul className="space-y-1 text-sm" data-testid="profile-consultation">
+              <li className={doctor.video_consult ? "text-blue-800" : "text-gray-400 line-through"}>
+                {t(doctor.video_consult ? "profile.available" : "profile.notAvailable", {
+                  mode: t("consultation.video"),
+                })}
+              </li>
+              <li className={doctor.in_clinic ? "text-green-800" : "text-gray-400 line-through"}>
+                {t(doctor.in_clinic ? "profile.available" : "profile.notAvailable", {
+                  mode: t("consultation.clinic"),
+                })}
+              </li>
+            </ul>
+          </section>
+
+          {/* Clinic */}
+          <section className="border rounded-lg p-4 shadow bg-white" data-testid="profile-clinic">
+            <h2 className="text-lg font-semibold mb-2 border-b pb-2">{t("profile.clinic")}</h2>
+            {clinic ? (
+              <div className="flex gap-3 items-start">
+                {clinic.address.logo_url && (
+                  <Image
+                    src={clinic.address.logo_url}
+                    alt={t("profile.clinicLogo", { clinic: clinic.name })}
+                    width={48}
+                    height={48}
+                    className="w-12 h-12 object-contain"
+                  />
+                )}
+                <address className="not-italic text-sm text-gray-700">
+                  <p className="font-semibold">{clinic.name}</p>
+                  {clinic.address.address_line1 && <p>{clinic.address.address_line1}</p>}
+                  <p>
+                    {[clinic.address.locality, clinic.address.city].filter(Boolean).join(", ")}
+                  </p>
+                </address>
+              </div>
+            ) : (
+              <p className="text-gray-500 text-sm">{t("profile.noClinic")}</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
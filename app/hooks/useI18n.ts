@@ -0,0 +1,9 @@
+"use client";
+
+import { useContext } from "react";
+import { I18nContext } from "@/app/components/I18nProvider";
+
+// Messages and formatters for the active locale
+export default function useI18n() {
+  return useContext(I18nContext);
+}
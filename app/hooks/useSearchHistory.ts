@@ -0,0 +1,33 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import {
+  addRecentSearch,
+  addSavedSearch,
+  EMPTY_SEARCH_HISTORY,
+  readSearchHistory,
+  removeSavedSearch,
+  renameSavedSearch,
+  SearchHistory,
+  subscribeToSearchHistory,
+  writeSearchHistory,
+} from "@/lib/doctors/savedSearches";
+
+// The history is browser-only; the server render shows it empty
+const getServerSnapshot = (): SearchHistory => EMPTY_SEARCH_HISTORY;
+
+const update = (change: (history: SearchHistory) => SearchHistory) => writeSearchHistory(change(readSearchHistory()));
+
+// Saved and recent searches, kept in sync across components and tabs
+export default function useSearchHistory() {
+  const { saved, recent } = useSyncExternalStore(subscribeToSearchHistory, readSearchHistory, getServerSnapshot);
+
+  const save = useCallback((name: string, query: string) => update((history) => addSavedSearch(history, name, query)), []);
+  const rename = useCallback((id: string, name: string) => update((history) => renameSavedSearch(history, id, name)), []);
+  const remove = useCallback((id: string) => update((history) => removeSavedSearch(history, id)), []);
+  const clearSaved = useCallback(() => update((history) => ({ ...history, saved: [] })), []);
+  const recordRecent = useCallback((query: string) => update((history) => addRecentSearch(history, query)), []);
+  const clearRecent = useCallback(() => update((history) => ({ ...history, recent: [] })), []);
+
+  return { saved, recent, save, rename, remove, clearSaved, recordRecent, clearRecent };
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import {
+  MAX_SHORTLIST_SIZE,
+  readShortlist,
+  subscribeToShortlist,
+  toggleShortlistId,
+  writeShortlist,
+} from "@/lib/doctors/shortlist";
+
+const EMPTY: string[] = [];
+
+// The shortlist is browser-only; the server render shows it empty
+const getServerSnapshot = (): string[] => EMPTY;
+
+// Shortlisted doctor ids, kept in sync across components and tabs
+export default function useShortlist() {
+  const ids = useSyncExternalStore(subscribeToShortlist, readShortlist, getServerSnapshot);
+
+  // Adding to a full shortlist does nothing; check `isFull` first
+  const toggle = useCallback((id: string) => writeShortlist(toggleShortlistId(readShortlist(), id)), []);
+  const add = useCallback((newIds: string[]) => writeShortlist([...readShortlist(), ...newIds]), []);
+  const clear = useCallback(() => writeShortlist([]), []);
+
+  return { ids, isFull: ids.length >= MAX_SHORTLIST_SIZE, toggle, add, clear };
+}
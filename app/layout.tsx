@@ -1,6 +1,10 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { getSiteUrl } from "@/lib/doctors/seo";
+import { getI18n, getLocale } from "@/lib/i18n/server";
+import I18nProvider from "./components/I18nProvider";
+import LocaleSwitcher from "./components/LocaleSwitcher";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -12,22 +16,36 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
-};
+// Defaults for every page; pages set their own title, which the template puts the site name after
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getI18n();
+  return {
+    metadataBase: getSiteUrl(),
+    title: { default: t("site.name"), template: `%s | ${t("site.name")}` },
+    description: t("site.description"),
+    openGraph: { siteName: t("site.name"), type: "website" },
+  };
+}
 
-export default function RootLayout({
+// The locale comes from the cookie set by the switcher, so every page renders in it from the first byte
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <I18nProvider locale={locale}>
+          <div className="container mx-auto px-4 pt-4 md:px-6 lg:px-8 flex justify-end print:hidden">
+            <LocaleSwitcher />
+          </div>
+          {children}
+        </I18nProvider>
       </body>
     </html>
   );
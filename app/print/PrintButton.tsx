@@ -0,0 +1,17 @@
+"use client";
+
+import useI18n from "@/app/hooks/useI18n";
+
+export default function PrintButton() {
+  const { t } = useI18n();
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md print:hidden"
+      data-testid="print-button"
+    >
+      {t("print.button")}
+    </button>
+  );
+}
@@ -0,0 +1,73 @@
+// app/print/page.tsx
+// Print-friendly sheet of the listing's results for the same query params, e.g. /print?specialty=Dentist&sort=fees.
+// Runs the listing's own filter pipeline, so it holds the same doctors in the same order (every page).
+import Link from "next/link";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { applyListingFilters } from "@/lib/doctors/listing";
+import { canonicalizeListingQuery, parseListingQuery } from "@/lib/doctors/query";
+import { describeListingFilters, EXPORT_COLUMNS } from "@/lib/doctors/export";
+import { getI18n } from "@/lib/i18n/server";
+import PrintButton from "./PrintButton";
+
+interface PrintPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function PrintPage({ searchParams }: PrintPageProps) {
+  const params = await searchParams;
+  const { query } = parseListingQuery(params);
+  const [{ t, formatDate }, roster] = await Promise.all([getI18n(), loadDoctors()]);
+  const doctors = applyListingFilters(roster, query);
+  const filters = describeListingFilters(query, t);
+  const listingQuery = canonicalizeListingQuery(params);
+
+  return (
+    <div className="mx-auto p-6 font-sans max-w-5xl print:p-0 print:max-w-none text-gray-900">
+      <div className="mb-6 flex items-center justify-between gap-4 print:hidden">
+        <Link href={listingQuery ? `/?${listingQuery}` : "/"} className="text-sm text-blue-600 hover:underline">
+          &larr; {t("common.backToDoctors")}
+        </Link>
+        <PrintButton />
+      </div>
+
+      <h1 className="text-2xl font-semibold">{t("print.title")}</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        {t("print.printed", {
+          doctors: t("doctor.count", { count: doctors.length }),
+          date: formatDate(new Date().toISOString()),
+        })}
+      </p>
+      <div className="mt-3 text-sm" data-testid="print-filters">
+        <span className="font-semibold">{t("print.filters")} </span>
+        {filters.length > 0 ? filters.join(" · ") : t("print.noFilters")}
+      </div>
+
+      {doctors.length > 0 ? (
+        <table className="mt-6 w-full border-collapse text-sm" data-testid="print-table">
+          <thead>
+            <tr className="text-left">
+              {EXPORT_COLUMNS.map(({ header }) => (
+                <th key={header} className="p-2 border-b-2 border-gray-800 align-bottom">
+                  {t(header)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {doctors.map((doctor) => (
+              <tr key={doctor.id} className="break-inside-avoid">
+                {EXPORT_COLUMNS.map(({ header, value }) => (
+                  <td key={header} className="p-2 border-b border-gray-300 align-top">
+                    {value(doctor, t) || "—"}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="mt-6 text-gray-500">{t("print.noResults")}</p>
+      )}
+    </div>
+  );
+}
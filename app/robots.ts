@@ -0,0 +1,11 @@
+// app/robots.ts
+// /robots.txt: points crawlers at the sitemap and keeps them out of the admin console, the API and print views
+import type { MetadataRoute } from "next";
+import { absoluteUrl } from "@/lib/doctors/seo";
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: { userAgent: "*", allow: "/", disallow: ["/admin", "/api/", "/print"] },
+    sitemap: absoluteUrl("/sitemap.xml"),
+  };
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import type { Doctor } from "@/types/doctor";
+import { fetchAllDoctors } from "@/lib/doctors/client";
+import { MAX_SHORTLIST_SIZE, parseShortlistParams, shortlistHref } from "@/lib/doctors/shortlist";
+import DoctorCard from "@/app/components/DoctorCard";
+import useI18n from "@/app/hooks/useI18n";
+import useShortlist from "@/app/hooks/useShortlist";
+
+// The shortlist saved in this browser, or a list someone shared (?id=...&id=...)
+export default function ShortlistView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const shortlist = useShortlist();
+  const { t } = useI18n();
+
+  const sharedIds = useMemo(() => parseShortlistParams(searchParams), [searchParams]);
+  const isShared = sharedIds.length > 0;
+  const ids = isShared ? sharedIds : shortlist.ids;
+
+  const [allDoctors, setAllDoctors] = useState<Doctor[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null); // The failure detail; "" when there is none
+  const [origin, setOrigin] = useState<string>(""); // Known only in the browser
+  const [copied, setCopied] = useState<boolean>(false);
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+    fetchAllDoctors()
+      .then(setAllDoctors)
+      .catch((e: unknown) => {
+        console.error("Failed to fetch doctors:", e);
+        setError(e instanceof Error ? e.message : "");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // In shortlist order; ids no longer in the roster are counted but not shown
+  const doctors = useMemo(
+    () => ids.map((id) => allDoctors.find((doctor) => doctor.id === id)).filter((doctor): doctor is Doctor => !!doctor),
+    [ids, allDoctors]
+  );
+  const missingCount = isLoading ? 0 : ids.length - doctors.length;
+
+  const shareUrl = `${origin}${shortlistHref(ids)}`;
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false); // Clipboard blocked; the link can still be copied from the field
+    }
+  };
+
+  // Shared doctors that won't fit once merged into this browser's shortlist
+  const overflowCount = Math.max(0, new Set([...shortlist.ids, ...sharedIds]).size - MAX_SHORTLIST_SIZE);
+
+  // Adds the shared doctors to this browser's shortlist and shows it
+  const handleSaveShared = () => {
+    shortlist.add(sharedIds);
+    router.replace(shortlistHref());
+  };
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 lg:p-8 font-sans">
+      <Link href="/" className="text-sm text-blue-600 hover:underline" data-testid="back-to-listing">
+        &larr; {t("common.backToDoctors")}
+      </Link>
+
+      <div className="mt-4 mb-6 flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-semibold text-gray-800">
+          {isShared ? t("shortlist.shared") : t("shortlist.mine")}{" "}
+          <span className="text-base font-normal text-gray-500">({ids.length})</span>
+        </h1>
+        {isShared ? (
+          <button
+            type="button"
+            onClick={handleSaveShared}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md"
+            data-testid="shortlist-save-shared"
+          >
+            {t("shortlist.saveShared")}
+          </button>
+        ) : (
+          ids.length > 0 && (
+            <button
+              type="button"
+              onClick={shortlist.clear}
+              className="text-sm text-blue-600 hover:underline"
+              data-testid="shortlist-clear"
+            >
+              {t("shortlist.clear")}
+            </button>
+          )
+        )}
+      </div>
+
+      {isShared && overflowCount > 0 && (
+        <p className="mb-6 -mt-3 text-sm text-amber-700" data-testid="shortlist-overflow">
+          {t("shortlist.overflow", { max: MAX_SHORTLIST_SIZE, count: overflowCount })}
+        </p>
+      )}
+
+      {/* Share link */}
+      {!isShared && ids.length > 0 && (
+        <div className="mb-6 flex flex-col sm:flex-row gap-2 sm:items-center">
+          <label htmlFor="shortlist-share-url" className="text-sm font-semibold whitespace-nowrap">
+            {t("shortlist.share")}
+          </label>
+          <input
+            id="shortlist-share-url"
+            type="text"
+            readOnly
+            value={shareUrl}
+            onFocus={(event) => event.target.select()}
+            className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700"
+            data-testid="shortlist-share-link"
+          />
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+            data-testid="shortlist-copy"
+          >
+            {copied ? t("shortlist.copied") : t("shortlist.copy")}
+          </button>
+        </div>
+      )}
+
+      {isLoading && <p className="text-center text-gray-500 py-10">{t("listing.loading")}</p>}
+      {error !== null && (
+        <p className="text-center text-red-600 bg-red-100 p-4 rounded-lg shadow">
+          {t("listing.loadError", { detail: error || t("listing.tryLater") })}
+        </p>
+      )}
+      {!isLoading && error === null && (
+        <>
+          {missingCount > 0 && (
+            <p className="mb-3 text-sm text-gray-500">
+              {t("shortlist.missing", { count: missingCount })}
+            </p>
+          )}
+          {doctors.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+              {doctors.map((doctor) => (
+                <DoctorCard key={doctor.id} doctor={doctor} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-500 mt-10 py-10">
+              {isShared ? t("shortlist.sharedEmpty") : t("shortlist.empty")}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+// app/shortlist/page.tsx
+import { Suspense } from "react";
+import { getI18n } from "@/lib/i18n/server";
+import ShortlistView from "./ShortlistView";
+
+// ShortlistView reads shared ids from the URL, so it has to render inside a Suspense boundary
+export default async function ShortlistPage() {
+  const { t } = await getI18n();
+  return (
+    <Suspense fallback={<p className="text-center text-gray-500 py-10">{t("shortlist.loading")}</p>}>
+      <ShortlistView />
+    </Suspense>
+  );
+}
@@ -0,0 +1,32 @@
+// app/sitemap.ts
+// /sitemap.xml: the listing, every specialty landing page and every listed doctor's profile
+import type { MetadataRoute } from "next";
+import { loadRoster } from "@/lib/doctors/sources";
+import { absoluteUrl, listSpecialties, specialtyHref } from "@/lib/doctors/seo";
+import { doctorProfileHref } from "./components/DoctorCard";
+
+// Always read the roster fresh; it changes through the admin routes
+export const dynamic = "force-dynamic";
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const roster = await loadRoster();
+  // The listed doctors are the roster without the retired ones; ratings don't matter here
+  const doctors = roster.filter(({ retired }) => !retired).map(({ doctor }) => doctor);
+  // Admin edits date a profile; doctors straight from the source have no date
+  const editedAt = new Map(roster.map(({ doctor, updatedAt }) => [doctor.id, updatedAt]));
+
+  return [
+    { url: absoluteUrl("/"), changeFrequency: "daily", priority: 1 },
+    ...listSpecialties(doctors).map(({ value }) => ({
+      url: absoluteUrl(specialtyHref(value)),
+      changeFrequency: "weekly" as const,
+      priority: 0.8,
+    })),
+    ...doctors.map(({ id }) => ({
+      url: absoluteUrl(doctorProfileHref(id)),
+      lastModified: editedAt.get(id) ?? undefined,
+      changeFrequency: "weekly" as const,
+      priority: 0.6,
+    })),
+  ];
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import type { Doctor } from "@/types/doctor";
+import DoctorCard from "@/app/components/DoctorCard";
+import Pagination from "@/app/components/Pagination";
+
+interface SpecialtyDoctorsProps {
+  doctors: Doctor[]; // The current page's doctors
+  page: number;
+  pageCount: number;
+  query: string; // The listing's query for this specialty, for the profiles' back link
+}
+
+// The specialty's doctors as cards; filtering and sorting are left to the listing. Changing the page
+// loads it from the server, so each page has its own URL.
+export default function SpecialtyDoctors({ doctors, page, pageCount, query }: SpecialtyDoctorsProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  return (
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4" data-testid="specialty-doctors">
+        {doctors.map((doctor) => (
+          <DoctorCard key={doctor.id} doctor={doctor} query={query} />
+        ))}
+      </div>
+      <Pagination
+        page={page}
+        pageCount={pageCount}
+        onChange={(next) => router.push(next > 1 ? `${pathname}?page=${next}` : pathname)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+// app/specialty/[slug]/page.tsx
+// Landing page for one specialty, e.g. /specialty/dermatologist: its doctors rendered on the server,
+// for search engines and for links from outside the site.
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { applyListingFilters } from "@/lib/doctors/listing";
+import { paginate } from "@/lib/doctors/pagination";
+import { parseListingQuery, serializeListingQuery } from "@/lib/doctors/query";
+import { absoluteUrl, findSpecialty, listingDescription, listSpecialties, specialtyHref } from "@/lib/doctors/seo";
+import { doctorListJsonLd } from "@/lib/doctors/structuredData";
+import { getI18n } from "@/lib/i18n/server";
+import { doctorProfileHref } from "@/app/components/DoctorCard";
+import JsonLd from "@/app/components/JsonLd";
+import SpecialtyDoctors from "./SpecialtyDoctors";
+
+interface SpecialtyPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// The specialty and its doctors, in the listing's default order; null for an unknown slug.
+// Loaded once per request for both the metadata and the page.
+const loadSpecialty = cache(async (slug: string) => {
+  const allDoctors = await loadDoctors();
+  const specialty = findSpecialty(allDoctors, slug);
+  if (!specialty) return null;
+  return {
+    specialty,
+    doctors: applyListingFilters(allDoctors, { specialties: [specialty] }),
+    others: listSpecialties(allDoctors).filter(({ value }) => value !== specialty),
+  };
+});
+
+export async function generateMetadata({ params }: SpecialtyPageProps): Promise<Metadata> {
+  const page = await loadSpecialty((await params).slug);
+  if (!page) return {};
+  const { t } = await getI18n();
+  const title = t("seo.specialtyDoctors", { specialty: page.specialty });
+  const description = listingDescription(title, page.doctors.length, t);
+  const url = specialtyHref(page.specialty);
+  return { title, description, alternates: { canonical: url }, openGraph: { title, description, url } };
+}
+
+// Pages through the doctors with the listing's `page` param, e.g. /specialty/dermatologist?page=2
+export default async function SpecialtyPage({ params, searchParams }: SpecialtyPageProps) {
+  const page = await loadSpecialty((await params).slug);
+  if (!page) notFound();
+  const { specialty, doctors, others } = page;
+  const { t } = await getI18n();
+  const listingQuery = serializeListingQuery({ specialties: [specialty] }).toString();
+  const currentPage = paginate(doctors, parseListingQuery(await searchParams).query.page);
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 lg:p-8 font-sans">
+      <JsonLd data={doctorListJsonLd(currentPage.items, (doctor) => absoluteUrl(doctorProfileHref(doctor.id)))} />
+      <Link href="/" className="text-sm text-blue-600 hover:underline" data-testid="back-to-listing">
+        &larr; {t("common.backToDoctors")}
+      </Link>
+
+      <div className="mt-4 mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-800" data-testid="specialty-title">
+            {t("seo.specialtyDoctors", { specialty })}
+          </h1>
+          <p className="text-sm text-gray-600" data-testid="specialty-summary">
+            {currentPage.pageCount > 1
+              ? t("listing.summary", { start: currentPage.start, end: currentPage.end, count: currentPage.total })
+              : t("doctor.count", { count: doctors.length })}
+          </p>
+        </div>
+        <Link
+          href={`/?${listingQuery}`}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md"
+          data-testid="specialty-listing-link"
+        >
+          {t("specialty.filterLink")}
+        </Link>
+      </div>
+
+      <SpecialtyDoctors
+        doctors={currentPage.items}
+        page={currentPage.page}
+        pageCount={currentPage.pageCount}
+        query={listingQuery}
+      />
+
+      {others.length > 0 && (
+        <nav className="mt-8 border-t pt-4" aria-labelledby="other-specialties">
+          <h2 id="other-specialties" className="font-semibold mb-2">
+            {t("specialty.others")}
+          </h2>
+          <ul className="flex flex-wrap gap-2" data-testid="specialty-others">
+            {others.map(({ value, count }) => (
+              <li key={value}>
+                <Link
+                  href={specialtyHref(value)}
+                  className="text-sm bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full hover:underline"
+                >
+                  {value} <span className="text-xs text-gray-500">({count})</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </nav>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { isAdminAuthorized } from "@/lib/admin/auth";
+
+const basic = (credentials: string) =>
+  `Basic ${btoa(String.fromCharCode(...new TextEncoder().encode(credentials)))}`;
+
+const ENV: NodeJS.ProcessEnv = { NODE_ENV: "test", ADMIN_PASSWORD: "s3cret" };
+
+describe("isAdminAuthorized", () => {
+  it("lets in the default user with the right password", () => {
+    expect(isAdminAuthorized(basic("admin:s3cret"), ENV)).toBe(true);
+  });
+
+  it("uses ADMIN_USER when it is set", () => {
+    const env = { ...ENV, ADMIN_USER: "ops" };
+    expect(isAdminAuthorized(basic("ops:s3cret"), env)).toBe(true);
+    expect(isAdminAuthorized(basic("admin:s3cret"), env)).toBe(false);
+  });
+
+  it("refuses a wrong user or password", () => {
+    expect(isAdminAuthorized(basic("admin:s3cre"), ENV)).toBe(false);
+    expect(isAdminAuthorized(basic("admin:s3cret!"), ENV)).toBe(false);
+    expect(isAdminAuthorized(basic("root:s3cret"), ENV)).toBe(false);
+  });
+
+  it("keeps colons after the first in the password and decodes UTF-8", () => {
+    expect(isAdminAuthorized(basic("admin:a:b"), { ...ENV, ADMIN_PASSWORD: "a:b" })).toBe(true);
+    expect(isAdminAuthorized(basic("admin:पासवर्ड"), { ...ENV, ADMIN_PASSWORD: "पासवर्ड" })).toBe(true);
+  });
+
+  it("refuses missing or malformed headers", () => {
+    expect(isAdminAuthorized(null, ENV)).toBe(false);
+    expect(isAdminAuthorized("Bearer s3cret", ENV)).toBe(false);
+    expect(isAdminAuthorized("Basic !!!", ENV)).toBe(false);
+    expect(isAdminAuthorized(basic("admins3cret"), ENV)).toBe(false);
+  });
+
+  it("lets nobody in while ADMIN_PASSWORD is unset", () => {
+    expect(isAdminAuthorized(basic("admin:"), { NODE_ENV: "test" })).toBe(false);
+  });
+});
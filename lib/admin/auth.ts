@@ -0,0 +1,36 @@
+// lib/admin/auth.ts
+// Who may use the admin console and /api/admin: HTTP Basic auth against ADMIN_USER / ADMIN_PASSWORD.
+// Nobody gets in while ADMIN_PASSWORD is unset. Checked in middleware.ts, so no Node-only APIs here.
+
+export const DEFAULT_ADMIN_USER = "admin";
+export const ADMIN_REALM = "Doctor directory admin";
+
+// Compares every character, so the time taken doesn't tell how much of a guess was right
+const safeEqual = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+};
+
+// "user:password" from a Basic Authorization header, decoded as UTF-8; null when it isn't one
+const decodeBasic = (authorization: string | null): [string, string] | null => {
+  const match = authorization?.match(/^Basic\s+(\S+)$/i);
+  if (!match) return null;
+  try {
+    const bytes = Uint8Array.from(atob(match[1]), (char) => char.charCodeAt(0));
+    const credentials = new TextDecoder().decode(bytes);
+    const separator = credentials.indexOf(":");
+    return separator === -1 ? null : [credentials.slice(0, separator), credentials.slice(separator + 1)];
+  } catch {
+    return null;
+  }
+};
+
+export function isAdminAuthorized(authorization: string | null, env: NodeJS.ProcessEnv = process.env): boolean {
+  const password = env.ADMIN_PASSWORD;
+  const credentials = decodeBasic(authorization);
+  if (!password || !credentials) return false;
+  const userMatches = safeEqual(credentials[0], env.ADMIN_USER || DEFAULT_ADMIN_USER);
+  const passwordMatches = safeEqual(credentials[1], password);
+  return userMatches && passwordMatches;
+}
@@ -0,0 +1,38 @@
+// lib/bookings/client.ts
+// Browser-side access to slots and bookings.
+import type { Booking, BookingRequest, DaySlots } from "@/types/booking";
+import type { ConsultationMode } from "@/types/doctor";
+
+// Carries the HTTP status, so the booking form can tell "slot just taken" (409) from bad input (400)
+export class BookingApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "BookingApiError";
+  }
+}
+
+// Error from an API error response, using its message when it has one
+const apiError = async (response: Response): Promise<BookingApiError> => {
+  const data: { error?: string } = await response.json().catch(() => ({}));
+  return new BookingApiError(data.error || `HTTP error! status: ${response.status}`, response.status);
+};
+
+// Slots for one date; without a date the API picks the first bookable one
+export async function fetchSlots(doctorId: string, mode: ConsultationMode, date?: string): Promise<DaySlots> {
+  const params = new URLSearchParams({ mode });
+  if (date) params.set("date", date);
+  const response = await fetch(`/api/doctors/${encodeURIComponent(doctorId)}/slots?${params}`, { cache: "no-store" });
+  if (!response.ok) throw await apiError(response);
+  return response.json();
+}
+
+export async function createBooking(request: BookingRequest): Promise<Booking> {
+  const response = await fetch("/api/bookings", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) throw await apiError(response);
+  const data: { booking: Booking } = await response.json();
+  return data.booking;
+}
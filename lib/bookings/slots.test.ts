@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { Booking } from "@/types/booking";
+import type { Doctor } from "@/types/doctor";
+import { DEFAULT_SCHEDULE } from "@/lib/doctors/schedule";
+import { BOOKING_WINDOW_DAYS, getBookableDates, getDaySlots } from "@/lib/bookings/slots";
+
+const doctor: Doctor = {
+  id: "d1",
+  name: "Dr. Test",
+  name_initials: "DT",
+  photo: null,
+  doctor_introduction: "",
+  specialities: [],
+  fees: "₹ 500",
+  fee: { amount: 500, currency: "INR" },
+  experience: "10 Years of experience",
+  experience_years: 10,
+  languages: [],
+  clinic: null,
+  video_consult: true,
+  in_clinic: true,
+  schedule: DEFAULT_SCHEDULE, // Monday to Saturday, 09:00-17:00
+};
+
+const booking = (doctorId: string, date: string, time: string): Booking => ({
+  id: `${doctorId}-${date}-${time}`,
+  doctorId,
+  mode: "clinic",
+  date,
+  time,
+  patient: { name: "Asha", phone: "9876543210" },
+  createdAt: "2026-10-18T10:00:00.000Z",
+});
+
+// Monday 2026-10-19, 15:10 at the clinics (UTC+05:30)
+const NOW = new Date("2026-10-19T15:10:00+05:30");
+
+describe("getBookableDates", () => {
+  it("starts today at the clinics and covers the booking window", () => {
+    const dates = getBookableDates(NOW);
+    expect(dates).toHaveLength(BOOKING_WINDOW_DAYS);
+    expect(dates[0]).toBe("2026-10-19");
+    expect(dates[1]).toBe("2026-10-20");
+  });
+});
+
+describe("getDaySlots", () => {
+  it("leaves out today's slots that have already started", () => {
+    expect(getDaySlots(doctor, "video", "2026-10-19", [], NOW)).toEqual([
+      { time: "15:30", available: true },
+      { time: "16:00", available: true },
+      { time: "16:30", available: true },
+    ]);
+  });
+
+  it("marks the doctor's booked slots as taken for every mode", () => {
+    const bookings = [booking("d1", "2026-10-20", "09:30"), booking("d2", "2026-10-20", "10:00")];
+    const slots = getDaySlots(doctor, "video", "2026-10-20", bookings, NOW);
+    expect(slots).toHaveLength(16);
+    expect(slots.filter(({ available }) => !available)).toEqual([{ time: "09:30", available: false }]);
+  });
+
+  it("has no slots outside the booking window", () => {
+    expect(getDaySlots(doctor, "video", "2026-10-17", [], NOW)).toEqual([]);
+    expect(getDaySlots(doctor, "video", "2026-11-02", [], NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+// lib/bookings/slots.ts
+// Bookable appointment slots: the doctor's schedule (lib/doctors/schedule.ts) minus bookings and
+// slots that have already started. Slots can be booked up to BOOKING_WINDOW_DAYS ahead.
+
+import type { Booking, TimeSlot } from "@/types/booking";
+import type { ConsultationMode, Doctor } from "@/types/doctor";
+import { addDays, getClinicNow, getSlotTimes, SCHEDULE_HORIZON_DAYS } from "@/lib/doctors/schedule";
+
+export const BOOKING_WINDOW_DAYS = SCHEDULE_HORIZON_DAYS;
+
+// Dates that can be booked right now, starting today
+export const getBookableDates = (now: Date = new Date()): string[] => {
+  const today = getClinicNow(now).date;
+  return Array.from({ length: BOOKING_WINDOW_DAYS }, (_, i) => addDays(today, i));
+};
+
+// Upcoming slots on a date. A booked slot is taken for every mode, since the doctor can only see
+// one patient at a time; slots that have already started are left out.
+export function getDaySlots(
+  doctor: Doctor,
+  mode: ConsultationMode,
+  date: string,
+  bookings: Booking[],
+  now: Date = new Date()
+): TimeSlot[] {
+  if (!getBookableDates(now).includes(date)) return [];
+  const clinicNow = getClinicNow(now);
+  const taken = new Set(
+    bookings.filter((booking) => booking.doctorId === doctor.id && booking.date === date).map((booking) => booking.time)
+  );
+  return getSlotTimes(doctor, mode, date)
+    .filter((time) => date > clinicNow.date || time > clinicNow.time)
+    .map((time) => ({ time, available: !taken.has(time) }));
+}
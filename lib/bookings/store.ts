@@ -0,0 +1,53 @@
+// lib/bookings/store.ts
+// Where bookings are kept (server-only), in the JSON store from lib/storage/jsonStore.ts:
+//
+//   BOOKING_STORE=file     BOOKING_STORE_FILE=data/bookings.json   (default)
+//   BOOKING_STORE=memory   (lost on restart; handy for demos)
+
+import { randomUUID } from "crypto";
+import type { Booking, BookingRequest } from "@/types/booking";
+import { getJsonStore, JsonStore } from "@/lib/storage/jsonStore";
+
+export const DEFAULT_BOOKINGS_FILE = "data/bookings.json";
+
+export interface BookingStore {
+  // Short label for logs, e.g. "file:data/bookings.json"
+  name: string;
+  list(doctorId?: string): Promise<Booking[]>;
+  // Throws SlotTakenError when the doctor already has a booking at that date and time
+  create(request: BookingRequest): Promise<Booking>;
+}
+
+export class SlotTakenError extends Error {
+  constructor(request: BookingRequest) {
+    super(`The ${request.time} slot on ${request.date} is no longer available. Please pick another one.`);
+    this.name = "SlotTakenError";
+  }
+}
+
+// Checked by name: each route may get its own copy of this module, and with it its own error class
+export const isSlotTakenError = (e: unknown): e is SlotTakenError => e instanceof Error && e.name === "SlotTakenError";
+
+const isSameSlot = (booking: Booking, request: BookingRequest) =>
+  booking.doctorId === request.doctorId && booking.date === request.date && booking.time === request.time;
+
+// Bookings are checked and written one request at a time, so two patients racing for the same slot
+// can't both get it
+export function createBookingStore(store: JsonStore<Booking>): BookingStore {
+  return {
+    name: store.name,
+    list: async (doctorId) => {
+      const bookings = await store.read();
+      return doctorId ? bookings.filter((booking) => booking.doctorId === doctorId) : bookings;
+    },
+    create: (request) =>
+      store.update((bookings) => {
+        if (bookings.some((booking) => isSameSlot(booking, request))) throw new SlotTakenError(request);
+        const booking: Booking = { id: randomUUID(), ...request, createdAt: new Date().toISOString() };
+        return { items: [...bookings, booking], result: booking };
+      }),
+  };
+}
+
+export const getBookingStore = (env: NodeJS.ProcessEnv = process.env): BookingStore =>
+  createBookingStore(getJsonStore("BOOKING_STORE", DEFAULT_BOOKINGS_FILE, env));
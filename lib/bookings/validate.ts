@@ -0,0 +1,52 @@
+// lib/bookings/validate.ts
+// Runtime validation of booking requests posted to /api/bookings.
+
+import type { BookingRequest } from "@/types/booking";
+import { isConsultationMode } from "@/lib/doctors/listing";
+import { isDateString, isTimeString } from "@/lib/doctors/schedule";
+
+export type ValidateBookingResult =
+  | { ok: true; request: BookingRequest }
+  | { ok: false; issues: string[] };
+
+const MAX_NAME_LENGTH = 100;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const trimmed = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+// 7–15 digits, optionally with a leading "+" and spaces / dashes between groups
+export const isPhoneNumber = (value: string): boolean =>
+  /^\+?[\d\s-]+$/.test(value) && /^\d{7,15}$/.test(value.replace(/\D/g, ""));
+
+export const isEmailAddress = (value: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+export function validateBookingRequest(body: unknown): ValidateBookingResult {
+  if (!isRecord(body)) return { ok: false, issues: ["Expected a JSON object"] };
+  const issues: string[] = [];
+
+  const doctorId = trimmed(body.doctorId);
+  if (!doctorId) issues.push("doctorId is required");
+  const { mode, date, time } = body;
+  if (!isConsultationMode(mode)) issues.push('mode must be "video" or "clinic"');
+  if (!isDateString(date)) issues.push("date must be a YYYY-MM-DD date");
+  if (!isTimeString(time)) issues.push("time must be an HH:MM time");
+
+  const patient = isRecord(body.patient) ? body.patient : {};
+  const name = trimmed(patient.name);
+  const phone = trimmed(patient.phone);
+  const email = trimmed(patient.email);
+  if (!name) issues.push("Patient name is required");
+  else if (name.length > MAX_NAME_LENGTH) issues.push(`Patient name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (!isPhoneNumber(phone)) issues.push("Patient phone must be a valid phone number");
+  if (email && !isEmailAddress(email)) issues.push("Patient email is not a valid email address");
+
+  if (issues.length > 0 || !isConsultationMode(mode) || !isDateString(date) || !isTimeString(time)) {
+    return { ok: false, issues };
+  }
+  return {
+    ok: true,
+    request: { doctorId, mode, date, time, patient: { name, phone, ...(email ? { email } : {}) } },
+  };
+}
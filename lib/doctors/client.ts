@@ -0,0 +1,13 @@
+// lib/doctors/client.ts
+// Browser-side access to the doctor directory; the data source itself lives behind /api/doctors.
+import type { Doctor } from "@/types/doctor";
+
+// Loads the full roster from the configured data source
+export async function fetchAllDoctors(): Promise<Doctor[]> {
+  const response = await fetch("/api/doctors?pageSize=all");
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  const data: { doctors?: Doctor[] } = await response.json();
+  return data.doctors || []; // Ensure data is an array
+}
@@ -0,0 +1,48 @@
+// lib/doctors/compare.ts
+// Side-by-side comparison of 2-4 doctors: the shareable /compare link, and which value is best in
+// each numeric row. Numbers come from the normalized model (fee.amount, experience_years), never
+// from the display strings.
+
+import type { Doctor } from "@/types/doctor";
+import { feeIn } from "@/lib/doctors/currency";
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+export const COMPARE_PATH = "/compare";
+
+// Keeps the first occurrence of each non-empty id, in order, up to MAX_COMPARE
+export const uniqueCompareIds = (ids: string[]): string[] =>
+  [...new Set(ids.map((id) => id.trim()).filter(Boolean))].slice(0, MAX_COMPARE);
+
+// `listingQuery`: the listing's query string, so the table shows fees in its display currency
+// (currency=USD) and the back link returns to the same filters
+export const compareHref = (ids: string[], listingQuery = ""): string => {
+  const params = new URLSearchParams();
+  uniqueCompareIds(ids).forEach((id) => params.append("id", id));
+  return `${COMPARE_PATH}?${params}${listingQuery ? `&${listingQuery}` : ""}`;
+};
+
+export type Better = "higher" | "lower";
+export type NumericField = "experience" | "fee" | "rating";
+
+// Columns with the best value; ties all win. Needs at least two values, and not all equal.
+export function bestIndexes(values: (number | null)[], better: Better): number[] {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length < 2 || present.every((value) => value === present[0])) return [];
+  const best = better === "higher" ? Math.max(...present) : Math.min(...present);
+  return values.flatMap((value, i) => (value === best ? [i] : []));
+}
+
+// Best column(s) of each numeric row: most experience, lowest fee, highest rating
+export function getBestColumns(doctors: Doctor[]): Record<NumericField, number[]> {
+  return {
+    experience: bestIndexes(doctors.map((doctor) => doctor.experience_years), "higher"),
+    // Compared after conversion to the base currency; a fee with no exchange rate isn't ranked
+    fee: bestIndexes(doctors.map((doctor) => feeIn(doctor.fee)), "lower"),
+    rating: bestIndexes(doctors.map((doctor) => doctor.ratings ?? null), "higher"),
+  };
+}
+
+// Ids from the page's `id` search param(s)
+export const parseCompareIds = (value: string | string[] | undefined): string[] =>
+  uniqueCompareIds([value ?? []].flat());
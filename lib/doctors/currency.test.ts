@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertMoney,
+  DEFAULT_DISPLAY_CURRENCY,
+  DISPLAY_CURRENCIES,
+  ExchangeRates,
+  feeIn,
+  isDisplayCurrency,
+} from "@/lib/doctors/currency";
+
+const RATES: ExchangeRates = { base: "INR", asOf: "2026-10-01", rates: { INR: 1, USD: 80, EUR: 100 } };
+
+describe("convertMoney", () => {
+  it("returns the same money for its own currency", () => {
+    const money = { amount: 500, currency: "JPY" };
+    expect(convertMoney(money, "JPY", RATES)).toBe(money);
+  });
+
+  it("converts to and from the base", () => {
+    expect(convertMoney({ amount: 10, currency: "USD" }, "INR", RATES)).toEqual({ amount: 800, currency: "INR" });
+    expect(convertMoney({ amount: 800, currency: "INR" }, "USD", RATES)).toEqual({ amount: 10, currency: "USD" });
+  });
+
+  it("converts between two other currencies through the base", () => {
+    expect(convertMoney({ amount: 50, currency: "EUR" }, "USD", RATES)).toEqual({ amount: 62.5, currency: "USD" });
+  });
+
+  it("rounds to the cent", () => {
+    expect(convertMoney({ amount: 1000, currency: "INR" }, "USD", RATES)).toEqual({ amount: 12.5, currency: "USD" });
+    expect(convertMoney({ amount: 999, currency: "INR" }, "USD", RATES)?.amount).toBe(12.49);
+  });
+
+  it("gives null when a currency has no rate", () => {
+    expect(convertMoney({ amount: 5, currency: "JPY" }, "INR", RATES)).toBeNull();
+    expect(convertMoney({ amount: 5, currency: "INR" }, "JPY", RATES)).toBeNull();
+  });
+});
+
+describe("feeIn", () => {
+  it("compares fees in the base currency when none is chosen", () => {
+    expect(feeIn({ amount: 700, currency: DEFAULT_DISPLAY_CURRENCY })).toBe(700);
+    expect(feeIn({ amount: 700, currency: DEFAULT_DISPLAY_CURRENCY }, null)).toBe(700);
+  });
+
+  it("gives null for a fee that can't be converted", () => {
+    expect(feeIn({ amount: 700, currency: "XYZ" }, "USD")).toBeNull();
+  });
+});
+
+describe("display currencies", () => {
+  it("lists the base first", () => {
+    expect(DISPLAY_CURRENCIES[0]).toBe(DEFAULT_DISPLAY_CURRENCY);
+    expect(new Set(DISPLAY_CURRENCIES).size).toBe(DISPLAY_CURRENCIES.length);
+  });
+
+  it("only accepts currencies with a rate, in upper case", () => {
+    expect(isDisplayCurrency("USD")).toBe(true);
+    expect(isDisplayCurrency("usd")).toBe(false);
+    expect(isDisplayCurrency("XYZ")).toBe(false);
+    expect(isDisplayCurrency(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+// lib/doctors/currency.ts
+// Fee conversion for sorting, filtering and display in one currency.
+// Rates come from the fixed table in data/exchange-rates.json, never from a live service; update the
+// file (and its `asOf` date) to change them.
+
+import type { Money } from "@/types/doctor";
+import exchangeRates from "@/data/exchange-rates.json";
+
+export interface ExchangeRates {
+  base: string; // ISO 4217 code every rate is quoted in, also the default display currency
+  asOf: string; // "YYYY-MM-DD" the rates were taken
+  rates: Record<string, number>; // Value of one unit of each currency in `base`; `base` itself is 1
+}
+
+export const EXCHANGE_RATES: ExchangeRates = exchangeRates;
+
+export const DEFAULT_DISPLAY_CURRENCY = EXCHANGE_RATES.base;
+
+// Currencies fees can be shown in: every one with a rate, base first
+export const DISPLAY_CURRENCIES = [
+  DEFAULT_DISPLAY_CURRENCY,
+  ...Object.keys(EXCHANGE_RATES.rates).filter((code) => code !== DEFAULT_DISPLAY_CURRENCY).sort(),
+];
+
+export const isDisplayCurrency = (value: unknown): value is string =>
+  typeof value === "string" && DISPLAY_CURRENCIES.includes(value);
+
+// `money` in `currency`, rounded to the cent; null when either currency has no rate
+export function convertMoney(money: Money, currency: string, rates: ExchangeRates = EXCHANGE_RATES): Money | null {
+  if (money.currency === currency) return money;
+  const from = rates.rates[money.currency];
+  const to = rates.rates[currency];
+  if (from === undefined || to === undefined) return null;
+  return { amount: Math.round(((money.amount * from) / to) * 100) / 100, currency };
+}
+
+// Amount used to compare fees, in the display currency (the base when none is chosen)
+export const feeIn = (money: Money, currency?: string | null): number | null =>
+  convertMoney(money, currency ?? DEFAULT_DISPLAY_CURRENCY)?.amount ?? null;
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import type { Doctor } from "@/types/doctor";
+import { normalizeDoctor } from "@/lib/doctors/normalize";
+import { createI18n } from "@/lib/i18n/translate";
+import { describeListingFilters, exportFileName, toCsv, toJson } from "@/lib/doctors/export";
+
+const doctor = (record: Record<string, unknown>): Doctor => {
+  const result = normalizeDoctor({
+    id: "1001",
+    name: "Dr. Ananya Sharma",
+    specialities: [{ name: "General Physician" }],
+    fees: "₹ 500",
+    experience: "13 Years of experience",
+    languages: ["English"],
+    clinic: {
+      name: "Sharma Family Clinic",
+      address: { address_line1: "80 Feet Road", locality: "Koramangala", city: "Bengaluru" },
+    },
+    video_consult: true,
+    in_clinic: true,
+    ...record,
+  });
+  if (!result.ok) throw new Error(result.issues.join("; "));
+  return result.doctor;
+};
+
+const EXPORTED_AT = new Date("2026-10-19T10:00:00.000Z");
+
+describe("toCsv", () => {
+  it("writes the filter notes, a blank line, then the header and one row per doctor", () => {
+    const csv = toCsv([doctor({})], { specialties: ["General Physician"] }, EXPORTED_AT);
+    expect(csv.split("\r\n")).toEqual([
+      "Exported,2026-10-19T10:00:00.000Z",
+      "Filters,Specialties: General Physician",
+      "Doctors,1",
+      "",
+      "Name,Specialties,Experience,Fees,Consultation,Clinic,Address",
+      'Dr. Ananya Sharma,General Physician,13 Years of experience,₹ 500,"Video, In clinic",Sharma Family Clinic,' +
+        '"80 Feet Road, Koramangala, Bengaluru"',
+      "",
+    ]);
+  });
+
+  it("notes when no filter is active", () => {
+    expect(toCsv([], {}, EXPORTED_AT).split("\r\n")[1]).toBe("Filters,None");
+  });
+
+  it("quotes cells with commas, quotes and line breaks", () => {
+    const csv = toCsv([doctor({ name: 'Dr. "Annie" Sharma', doctor_introduction: "x" })], {}, EXPORTED_AT);
+    expect(csv).toContain('"Dr. ""Annie"" Sharma",');
+    const clinic = { name: "Sharma\nClinic", address: { locality: "Koramangala", city: "Bengaluru" } };
+    expect(toCsv([doctor({ clinic })], {}, EXPORTED_AT)).toContain(',"Sharma\nClinic",');
+  });
+
+  it("keeps cells that would run as a formula as text", () => {
+    const clinic = { name: "+91 Clinic", address: { address_line1: "@home", locality: "Koramangala", city: "Bengaluru" } };
+    const row = toCsv([doctor({ name: '=HYPERLINK("http://evil.test","Dr. A")', clinic })], {}, EXPORTED_AT)
+      .split("\r\n")
+      .at(-2);
+    expect(row).toBe(
+      `"'=HYPERLINK(""http://evil.test"",""Dr. A"")",General Physician,13 Years of experience,₹ 500,` +
+        `"Video, In clinic",'+91 Clinic,"'@home, Koramangala, Bengaluru"`
+    );
+    expect(toCsv([doctor({ name: "-1+1" })], {}, EXPORTED_AT)).toContain("\r\n'-1+1,");
+  });
+
+  it("translates the notes and headers", () => {
+    const { t } = createI18n("hi");
+    const csv = toCsv([], {}, EXPORTED_AT, t);
+    expect(csv.split("\r\n")[4]).toBe("नाम,विशेषज्ञता,अनुभव,फ़ीस,परामर्श,क्लिनिक,पता");
+  });
+});
+
+describe("toJson", () => {
+  it("holds the filters, the total and the doctors, unescaped", () => {
+    const data = JSON.parse(toJson([doctor({ name: "=1+1" })], { consultation: "video" }, EXPORTED_AT));
+    expect(data).toMatchObject({
+      exportedAt: "2026-10-19T10:00:00.000Z",
+      filters: ["Consultation: Video"],
+      total: 1,
+      doctors: [{ id: "1001", name: "=1+1", fee: { amount: 500, currency: "INR" }, in_clinic: true }],
+    });
+  });
+});
+
+describe("describeListingFilters", () => {
+  it("gives one line per active filter", () => {
+    expect(
+      describeListingFilters({
+        search: " heart ",
+        cities: ["Pune"],
+        minFee: 200,
+        maxFee: null,
+        minExperience: 1,
+        minRating: 4,
+        availableToday: true,
+        sort: [{ key: "fees", direction: "asc" }],
+      })
+    ).toEqual([
+      "Search: “heart”",
+      "City: Pune",
+      "Fees: 200 or more",
+      "Experience: 1+ year",
+      "Rating: 4★ and above",
+      "Available today",
+      "Sorted by: Fees (Ascending)",
+    ]);
+  });
+});
+
+describe("exportFileName", () => {
+  it("names the file after the export date", () => {
+    expect(exportFileName("csv", EXPORTED_AT)).toBe("doctors-2026-10-19.csv");
+  });
+});
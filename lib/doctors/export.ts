@@ -0,0 +1,130 @@
+// lib/doctors/export.ts
+// Exports of a result set (CSV, JSON and the print sheet at /print), each noting the filters that
+// produced it so whoever receives the list knows how it was made.
+
+import type { Doctor } from "@/types/doctor";
+import type { ListingFilters } from "@/lib/doctors/listing";
+import { formatGeoPoint } from "@/lib/doctors/geo";
+import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+import { createI18n, MessageKey, Translate } from "@/lib/i18n/translate";
+
+export const PRINT_PATH = "/print";
+
+export type ExportFormat = "csv" | "json";
+
+const defaultT = (): Translate => createI18n(DEFAULT_LOCALE).t;
+
+// == Active Filters ==
+
+const range = (min: number | null | undefined, max: number | null | undefined, t: Translate): string =>
+  min != null && max != null
+    ? t("export.range.between", { min, max })
+    : min != null
+      ? t("export.range.atLeast", { min })
+      : t("export.range.atMost", { max: max ?? 0 });
+
+// One line per active filter, e.g. ["Search: “heart”", "Consultation: Video", "Sorted by: Fees (Ascending)"]
+export function describeListingFilters(filters: ListingFilters, t: Translate = defaultT()): string[] {
+  const lines: string[] = [];
+  const list = (key: MessageKey, values: string[] | undefined) => {
+    if (values && values.length > 0) lines.push(t(key, { values: values.join(", ") }));
+  };
+
+  if (filters.search?.trim()) lines.push(t("export.filter.search", { search: filters.search.trim() }));
+  if (filters.consultation) {
+    lines.push(t("export.filter.consultation", { mode: t(`slotMode.${filters.consultation}`) }));
+  }
+  list("export.filter.specialties", filters.specialties);
+  if (filters.clinic) lines.push(t("export.filter.clinic", { clinic: filters.clinic }));
+  list("export.filter.city", filters.cities);
+  list("export.filter.locality", filters.localities);
+  list("export.filter.languages", filters.languages);
+  if (filters.minFee != null || filters.maxFee != null) {
+    lines.push(t("export.filter.fees", { range: range(filters.minFee, filters.maxFee, t) }));
+  }
+  if (filters.currency) lines.push(t("export.filter.currency", { currency: filters.currency }));
+  if (filters.minExperience != null) lines.push(t("export.filter.experience", { count: filters.minExperience }));
+  if (filters.minRating != null) lines.push(t("export.filter.rating", { rating: filters.minRating }));
+  if (filters.availableToday) lines.push(t("filters.availableToday"));
+  if (filters.sort && filters.sort.length > 0) {
+    const keys = filters.sort.map(({ key, direction }) =>
+      t("export.filter.sortKey", { key: t(`sort.${key}`), direction: t(`sort.${direction}`) })
+    );
+    lines.push(t("export.filter.sort", { keys: keys.join(", ") }));
+  }
+  if (filters.near && filters.sort?.some(({ key }) => key === "distance")) {
+    lines.push(t("export.filter.near", { point: formatGeoPoint(filters.near) }));
+  }
+  return lines;
+}
+
+// == Rows ==
+
+export const consultationModes = (doctor: Doctor, t: Translate = defaultT()): string =>
+  [doctor.video_consult && t("slotMode.video"), doctor.in_clinic && t("slotMode.clinic")].filter(Boolean).join(", ");
+
+export const clinicAddress = (doctor: Doctor): string =>
+  [doctor.clinic?.address.address_line1, doctor.clinic?.address.locality, doctor.clinic?.address.city]
+    .filter(Boolean)
+    .join(", ");
+
+// The columns every export shows, in order; `header` is a message key
+export const EXPORT_COLUMNS: { header: MessageKey; value: (doctor: Doctor, t: Translate) => string }[] = [
+  { header: "export.column.name", value: (doctor) => doctor.name },
+  { header: "export.column.specialties", value: (doctor) => doctor.specialities.map(({ name }) => name).join(", ") },
+  { header: "export.column.experience", value: (doctor) => doctor.experience },
+  { header: "export.column.fees", value: (doctor) => doctor.fees },
+  { header: "export.column.consultation", value: consultationModes },
+  { header: "export.column.clinic", value: (doctor) => doctor.clinic?.name ?? "" },
+  { header: "export.column.address", value: clinicAddress },
+];
+
+// == Files ==
+
+// A spreadsheet runs a cell starting with one of these as a formula. Names and addresses can come from
+// the admin console or a clinic's import file, so such cells get a leading "'" to keep them text.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (text: string): string => {
+  const value = FORMULA_START.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// The filter notes come first, then a blank line, then the header and one row per doctor
+export function toCsv(doctors: Doctor[], filters: ListingFilters, exportedAt = new Date(), t = defaultT()): string {
+  const notes = [
+    [t("export.exported"), exportedAt.toISOString()],
+    [t("export.filters"), describeListingFilters(filters, t).join("; ") || t("export.noFilters")],
+    [t("export.doctors"), String(doctors.length)],
+  ];
+  const table = [
+    EXPORT_COLUMNS.map(({ header }) => t(header)),
+    ...doctors.map((doctor) => EXPORT_COLUMNS.map(({ value }) => value(doctor, t))),
+  ];
+  return [...notes, [], ...table].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function toJson(doctors: Doctor[], filters: ListingFilters, exportedAt = new Date(), t = defaultT()): string {
+  const data = {
+    exportedAt: exportedAt.toISOString(),
+    filters: describeListingFilters(filters, t),
+    total: doctors.length,
+    doctors: doctors.map((doctor) => ({
+      id: doctor.id,
+      name: doctor.name,
+      specialities: doctor.specialities.map(({ name }) => name),
+      experience: doctor.experience,
+      experience_years: doctor.experience_years,
+      fees: doctor.fees,
+      fee: doctor.fee,
+      video_consult: doctor.video_consult,
+      in_clinic: doctor.in_clinic,
+      clinic: doctor.clinic && { name: doctor.clinic.name, address: clinicAddress(doctor) },
+    })),
+  };
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+// e.g. "doctors-2026-10-19.csv"
+export const exportFileName = (format: ExportFormat, exportedAt = new Date()): string =>
+  `doctors-${exportedAt.toISOString().slice(0, 10)}.${format}`;
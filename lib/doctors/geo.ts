@@ -0,0 +1,58 @@
+// lib/doctors/geo.ts
+// Clinic coordinates and distances for "nearest first" sorting.
+
+import type { Doctor } from "@/types/doctor";
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toPoint = (lat: number, lng: number): GeoPoint | null =>
+  Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+    ? { lat, lng }
+    : null;
+
+// Parses "12.93,77.62" as well as map links containing "@12.93,77.62" or "q=12.93,77.62"
+export const parseGeoPoint = (value: string | null | undefined): GeoPoint | null => {
+  const match = value?.match(/(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)/);
+  return match ? toPoint(parseFloat(match[1]), parseFloat(match[2])) : null;
+};
+
+// Compact form used in the `near` URL param
+export const formatGeoPoint = ({ lat, lng }: GeoPoint): string =>
+  `${lat.toFixed(4)},${lng.toFixed(4)}`;
+
+export const getClinicPoint = (doctor: Doctor): GeoPoint | null =>
+  parseGeoPoint(doctor.clinic?.address.location);
+
+// Great-circle (haversine) distance in kilometres
+export const distanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+// Distance from `origin` to the doctor's clinic; null when the clinic has no usable location
+export const doctorDistanceKm = (doctor: Doctor, origin: GeoPoint): number | null => {
+  const point = getClinicPoint(doctor);
+  return point ? distanceKm(origin, point) : null;
+};
+
+// Average position of the clinics in a locality, used as a stand-in for "near <locality>"
+export const getLocalityCenter = (doctors: Doctor[], locality: string): GeoPoint | null => {
+  const points = doctors
+    .filter((doctor) => doctor.clinic?.address.locality === locality)
+    .map(getClinicPoint)
+    .filter((point): point is GeoPoint => point !== null);
+  if (points.length === 0) return null;
+  return {
+    lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+    lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length,
+  };
+};
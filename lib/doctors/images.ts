@@ -0,0 +1,20 @@
+// lib/doctors/images.ts
+// Hosts next/image may load doctor photos and clinic logos from. next.config.ts builds its
+// `images.remotePatterns` from this list, and the roster validator only accepts URLs on these hosts,
+// so a saved doctor can't carry an image that breaks the cards.
+
+export const IMAGE_HOSTS = [
+  "doctorlistingingestionpr.azureedge.net",
+  "doctorlistingingestionpr.blob.core.windows.net",
+  "placehold.co", // Fallback photo for doctors without one
+];
+
+// An http(s) URL on one of IMAGE_HOSTS
+export const isAllowedImageUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return ["http:", "https:"].includes(url.protocol) && IMAGE_HOSTS.includes(url.hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+};
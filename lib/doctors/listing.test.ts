@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { Doctor } from "@/types/doctor";
+import { applyListingFilters, getFacets } from "@/lib/doctors/listing";
+import { formatMoney } from "@/lib/doctors/money";
+import { normalizeDoctors } from "@/lib/doctors/normalize";
+import { sortCriterion } from "@/lib/doctors/sort";
+
+const ids = (doctors: Doctor[]) => doctors.map(({ id }) => id);
+
+describe("fees without an exchange rate", () => {
+  const { doctors } = normalizeDoctors([
+    { id: "1", name: "Dr. Asha Rao", fees: "₹ 800", experience: 5 },
+    { id: "2", name: "Dr. Ben Clarke", fees: "CAD 50", experience: 5 },
+    { id: "3", name: "Dr. Chitra Iyer", fees: "$ 10", experience: 5 },
+  ]);
+
+  it("keep their own currency", () => {
+    const fee = doctors[1].fee;
+    expect(fee).toEqual({ amount: 50, currency: "CAD" });
+    expect(formatMoney(fee, "en-US")).toBe("CA$50");
+  });
+
+  it("never match a fee range", () => {
+    expect(ids(applyListingFilters(doctors, { minFee: 0 }))).toEqual(["1", "3"]);
+    expect(ids(applyListingFilters(doctors, { maxFee: 100000 }))).toEqual(["1", "3"]);
+    expect(ids(applyListingFilters(doctors, { maxFee: 100, currency: "USD" }))).toEqual(["1", "3"]);
+  });
+
+  it("sort after every ranked fee in both directions", () => {
+    expect(ids(applyListingFilters(doctors, { sort: [sortCriterion("fees", "asc")] }))).toEqual(["1", "3", "2"]);
+    expect(ids(applyListingFilters(doctors, { sort: [sortCriterion("fees", "desc")] }))).toEqual(["3", "1", "2"]);
+  });
+
+  it("are left out of the fee bounds", () => {
+    expect(getFacets(doctors).fee).toEqual({ min: 800, max: 885 });
+  });
+});
+
+describe("getFacets", () => {
+  const { doctors } = normalizeDoctors([
+    {
+      id: "1",
+      name: "Dr. Asha Rao",
+      specialities: [{ name: "Dentist" }],
+      fees: 500,
+      experience: 8,
+      languages: ["English", "Kannada"],
+      clinic: { name: "Smile Dental", address: { locality: "Jayanagar", city: "Bengaluru" } },
+      video_consult: true,
+      in_clinic: true,
+      ratings: 4.5,
+    },
+    {
+      id: "2",
+      name: "Dr. Ben Clarke",
+      specialities: [{ name: "Dermatologist" }],
+      fees: 700,
+      experience: 12,
+      languages: ["English"],
+      clinic: { name: "SkinCare", address: { locality: "Andheri", city: "Mumbai" } },
+      video_consult: false,
+      in_clinic: true,
+      ratings: 3.9,
+    },
+    {
+      id: "3",
+      name: "Dr. Chitra Iyer",
+      specialities: [{ name: "Dentist" }, { name: "Dermatologist" }],
+      fees: 300,
+      experience: 3,
+      languages: ["Hindi"],
+      clinic: { name: "City Health", address: { locality: "Indiranagar", city: "Bengaluru" } },
+      video_consult: true,
+      in_clinic: false,
+    },
+  ]);
+
+  const counts = (options: { value: string; count: number }[]) =>
+    Object.fromEntries(options.map(({ value, count }) => [value, count]));
+
+  it("counts every option over the whole roster without filters", () => {
+    const facets = getFacets(doctors);
+    expect(counts(facets.specialties)).toEqual({ Dentist: 2, Dermatologist: 2 });
+    expect(counts(facets.cities)).toEqual({ Bengaluru: 2, Mumbai: 1 });
+    expect(counts(facets.consultation)).toEqual({ video: 2, clinic: 2 });
+    expect(facets.topRated).toBe(1);
+  });
+
+  it("leaves each facet's own filter out of its counts", () => {
+    const filters = {
+      specialties: ["Dentist"],
+      cities: ["Bengaluru"],
+      languages: ["English"],
+      consultation: "clinic" as const,
+    };
+    const facets = getFacets(doctors, filters);
+    // Only doctor 1 matches everything; each facet counts as if its own filter were cleared
+    expect(ids(applyListingFilters(doctors, filters))).toEqual(["1"]);
+    expect(counts(facets.specialties)).toEqual({ Dentist: 1, Dermatologist: 0 });
+    expect(counts(facets.cities)).toEqual({ Bengaluru: 1, Mumbai: 0 });
+    expect(counts(facets.languages)).toEqual({ English: 1, Hindi: 0, Kannada: 1 });
+    expect(counts(facets.consultation)).toEqual({ video: 1, clinic: 1 });
+  });
+
+  it("still applies the other facets' filters", () => {
+    const facets = getFacets(doctors, { specialties: ["Dermatologist"], cities: ["Mumbai"] });
+    // Specialties ignore "Dermatologist" but still apply Mumbai; cities ignore Mumbai but apply Dermatologist
+    expect(counts(facets.specialties)).toEqual({ Dentist: 0, Dermatologist: 1 });
+    expect(counts(facets.cities)).toEqual({ Bengaluru: 1, Mumbai: 1 });
+  });
+
+  it("counts toggles as if they were switched on, and keeps bounds on the whole roster", () => {
+    const facets = getFacets(doctors, { minRating: 4, minFee: 400 });
+    expect(facets.topRated).toBe(1);
+    expect(getFacets(doctors, { minFee: 600 }).topRated).toBe(0);
+    expect(facets.fee).toEqual({ min: 300, max: 700 });
+    expect(facets.experience).toEqual({ min: 3, max: 12 });
+  });
+});
@@ -0,0 +1,218 @@
+// lib/doctors/listing.ts
+// Shared filter / sort / facet pipeline for the doctor directory.
+// Used by the listing page and the /api/doctors route so both return the same results.
+
+import type { ConsultationMode, Doctor } from "@/types/doctor";
+import type { GeoPoint } from "@/lib/doctors/geo";
+import { feeIn } from "@/lib/doctors/currency";
+import { isAvailableToday } from "@/lib/doctors/schedule";
+import { scoreDoctor } from "@/lib/doctors/search";
+import { SortCriterion, sortDoctors } from "@/lib/doctors/sort";
+
+export const CONSULTATION_MODES: ConsultationMode[] = ["video", "clinic"];
+
+// The "4★ and above" filter
+export const TOP_RATING = 4;
+
+// Filters as written to the URL by the listing page
+export interface ListingFilters {
+  search?: string;
+  consultation?: ConsultationMode | null;
+  specialties?: string[];
+  clinic?: string | null; // Exact clinic name, set from the autocomplete
+  cities?: string[];
+  localities?: string[];
+  languages?: string[]; // Doctor has to speak at least one of them
+  minFee?: number | null; // In the display currency
+  maxFee?: number | null;
+  currency?: string | null; // Display currency for the fee range and sort; see lib/doctors/currency.ts
+  minExperience?: number | null; // Years
+  minRating?: number | null; // Stars; doctors without a rating never match
+  availableToday?: boolean; // Has a slot left today, in the selected consultation mode if any
+  sort?: SortCriterion[]; // Applied in order; see lib/doctors/sort.ts
+  near?: GeoPoint | null; // Origin for the "distance" sort
+}
+
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+export interface RangeBounds {
+  min: number;
+  max: number;
+}
+
+export interface ListingFacets {
+  consultation: FacetOption[];
+  specialties: FacetOption[];
+  cities: FacetOption[];
+  localities: FacetOption[];
+  languages: FacetOption[];
+  fee: RangeBounds | null; // In the display currency; null for an empty roster
+  experience: RangeBounds | null;
+  topRated: number; // Doctors rated TOP_RATING or above
+  availableToday: number; // Doctors with a slot left today
+}
+
+// Display order for the specialty filter; anything unknown goes last, alphabetically
+const SPECIALTY_ORDER = [
+  "General Physician", "Dentist", "Dermatologist", "Paediatrician", "Gynaecologist",
+  "ENT", "Diabetologist", "Cardiologist", "Physiotherapist", "Endocrinologist",
+  "Orthopaedic", "Ophthalmologist", "Gastroenterologist", "Pulmonologist", "Psychiatrist",
+  "Urologist", "Dietitian/Nutritionist", "Psychologist", "Sexologist", "Nephrologist",
+  "Neurologist", "Oncologist", "Ayurveda", "Homeopath"
+];
+
+export const isConsultationMode = (value: unknown): value is ConsultationMode =>
+  CONSULTATION_MODES.includes(value as ConsultationMode);
+
+// Parses a numeric filter param; null when absent, negative or not a number
+export const parseRangeParam = (value: string | null): number | null => {
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+export const offersConsultation = (doctor: Doctor, mode: ConsultationMode): boolean =>
+  mode === "video" ? doctor.video_consult : doctor.in_clinic;
+
+// Sorts specialty names into the display order used by the filter panel
+export const sortSpecialties = (names: Iterable<string>): string[] =>
+  [...names].sort((a, b) => {
+    const indexA = SPECIALTY_ORDER.indexOf(a);
+    const indexB = SPECIALTY_ORDER.indexOf(b);
+    if (indexA !== -1 && indexB !== -1) return indexA - indexB;
+    if (indexA !== -1) return -1;
+    if (indexB !== -1) return 1;
+    return a.localeCompare(b);
+  });
+
+// == Filtering ==
+export function filterDoctors(doctors: Doctor[], filters: ListingFilters): Doctor[] {
+  let result = doctors;
+
+  // 1. Search Filter - name, specialties, clinic, locality/city and languages, typo-tolerant
+  const search = filters.search?.trim();
+  if (search) {
+    result = result.filter((doctor) => scoreDoctor(doctor, search) > 0);
+  }
+
+  // 2. Consultation Type Filter
+  const consultation = filters.consultation;
+  if (consultation) {
+    result = result.filter((doctor) => offersConsultation(doctor, consultation));
+  }
+
+  // 3. Specialties Filter - at least one of the doctor's specialties must be selected
+  const specialties = filters.specialties ?? [];
+  if (specialties.length > 0) {
+    result = result.filter((doctor) =>
+      doctor.specialities.some((specObj) => specialties.includes(specObj.name))
+    );
+  }
+
+  // 4. Clinic Filter
+  const clinic = filters.clinic;
+  if (clinic) {
+    result = result.filter((doctor) => doctor.clinic?.name === clinic);
+  }
+
+  // 5. Location Filters - city and locality of the clinic
+  const cities = filters.cities ?? [];
+  if (cities.length > 0) {
+    result = result.filter((doctor) => cities.includes(doctor.clinic?.address.city ?? ""));
+  }
+  const localities = filters.localities ?? [];
+  if (localities.length > 0) {
+    result = result.filter((doctor) => localities.includes(doctor.clinic?.address.locality ?? ""));
+  }
+
+  // 6. Languages Filter - at least one selected language spoken
+  const languages = filters.languages ?? [];
+  if (languages.length > 0) {
+    result = result.filter((doctor) => doctor.languages.some((language) => languages.includes(language)));
+  }
+
+  // 7. Fee Range (in the display currency; fees that can't be converted never match) and Minimum Experience
+  const { minFee, maxFee, minExperience, currency } = filters;
+  if (minFee != null) result = result.filter((doctor) => (feeIn(doctor.fee, currency) ?? -Infinity) >= minFee);
+  if (maxFee != null) result = result.filter((doctor) => (feeIn(doctor.fee, currency) ?? Infinity) <= maxFee);
+  if (minExperience != null) result = result.filter((doctor) => doctor.experience_years >= minExperience);
+
+  // 8. Minimum Rating
+  const { minRating } = filters;
+  if (minRating != null) result = result.filter((doctor) => doctor.ratings !== undefined && doctor.ratings >= minRating);
+
+  // 9. Availability - a slot left today
+  if (filters.availableToday) {
+    const now = new Date();
+    result = result.filter((doctor) => isAvailableToday(doctor, consultation ?? null, now));
+  }
+
+  return result;
+}
+
+export function applyListingFilters(doctors: Doctor[], filters: ListingFilters): Doctor[] {
+  return sortDoctors(filterDoctors(doctors, filters), filters.sort ?? [], {
+    search: filters.search,
+    near: filters.near,
+    consultation: filters.consultation,
+    currency: filters.currency,
+  });
+}
+
+// == Facets ==
+const countValues = (values: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return counts;
+};
+
+const toOptions = (counts: Map<string, number>, names: string[]): FacetOption[] =>
+  names.map((name) => ({ value: name, count: counts.get(name) ?? 0 }));
+
+// Smallest and largest value in the roster, used as slider / input bounds
+export const getRangeBounds = (values: number[]): RangeBounds | null =>
+  values.length > 0 ? { min: Math.min(...values), max: Math.max(...values) } : null;
+
+const specialtiesOf = (doctor: Doctor) => doctor.specialities.map((specObj) => specObj.name);
+const cityOf = (doctor: Doctor) => (doctor.clinic?.address.city ? [doctor.clinic.address.city] : []);
+const localityOf = (doctor: Doctor) => (doctor.clinic?.address.locality ? [doctor.clinic.address.locality] : []);
+const languagesOf = (doctor: Doctor) => doctor.languages;
+
+// Every option present in the roster. Each option's count is the number of doctors it would return
+// given all the *other* active filters, so selecting more specialties never shrinks their own counts.
+export function getFacets(doctors: Doctor[], filters: ListingFilters = {}): ListingFacets {
+  const matchingWithout = (override: Partial<ListingFilters>) =>
+    filterDoctors(doctors, { ...filters, ...override });
+  const alphabetical = (names: Iterable<string>) => [...names].sort((a, b) => a.localeCompare(b));
+  const facet = (
+    valuesOf: (doctor: Doctor) => string[],
+    override: Partial<ListingFilters>,
+    order: (names: Iterable<string>) => string[]
+  ) => {
+    const allValues = new Set(doctors.flatMap(valuesOf));
+    return toOptions(countValues(matchingWithout(override).flatMap(valuesOf)), order(allValues));
+  };
+
+  const withoutConsultation = matchingWithout({ consultation: null });
+
+  return {
+    consultation: CONSULTATION_MODES.map((mode) => ({
+      value: mode,
+      count: withoutConsultation.filter((doctor) => offersConsultation(doctor, mode)).length,
+    })),
+    specialties: facet(specialtiesOf, { specialties: [] }, sortSpecialties),
+    cities: facet(cityOf, { cities: [] }, alphabetical),
+    localities: facet(localityOf, { localities: [] }, alphabetical),
+    languages: facet(languagesOf, { languages: [] }, alphabetical),
+    // Bounds always span the whole roster so the controls don't jump around while filtering
+    fee: getRangeBounds(
+      doctors.map((doctor) => feeIn(doctor.fee, filters.currency)).filter((fee): fee is number => fee !== null)
+    ),
+    experience: getRangeBounds(doctors.map((doctor) => doctor.experience_years)),
+    topRated: matchingWithout({ minRating: TOP_RATING }).length,
+    availableToday: matchingWithout({ availableToday: true }).length,
+  };
+}
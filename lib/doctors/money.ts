@@ -0,0 +1,10 @@
+// lib/doctors/money.ts
+import type { Money } from "@/types/doctor";
+
+// e.g. { amount: 500, currency: "INR" } -> "₹500"; `locale` is an Intl tag such as "hi-IN"
+export const formatMoney = ({ amount, currency }: Money, locale = "en-IN"): string =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+  }).format(amount);
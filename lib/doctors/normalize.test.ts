@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CURRENCY, parseExperience, parseFee } from "@/lib/doctors/normalize";
+
+describe("parseFee", () => {
+  it("reads currency symbols", () => {
+    expect(parseFee("₹ 1,000")).toEqual({ amount: 1000, currency: "INR" });
+    expect(parseFee("Rs. 500")).toEqual({ amount: 500, currency: "INR" });
+    expect(parseFee("$49.50")).toEqual({ amount: 49.5, currency: "USD" });
+    expect(parseFee("€ 60")).toEqual({ amount: 60, currency: "EUR" });
+    expect(parseFee("£40")).toEqual({ amount: 40, currency: "GBP" });
+  });
+
+  it("reads any ISO code before or after the amount", () => {
+    expect(parseFee("CAD 50")).toEqual({ amount: 50, currency: "CAD" });
+    expect(parseFee("50 chf")).toEqual({ amount: 50, currency: "CHF" });
+    expect(parseFee("Fee: JPY 3,000")).toEqual({ amount: 3000, currency: "JPY" });
+    expect(parseFee("AED 150")).toEqual({ amount: 150, currency: "AED" });
+  });
+
+  it("prefers an ISO code over a symbol", () => {
+    expect(parseFee("$50 CAD")).toEqual({ amount: 50, currency: "CAD" });
+    expect(parseFee("AU$ 80 AUD")).toEqual({ amount: 80, currency: "AUD" });
+  });
+
+  it("ignores words that aren't currencies", () => {
+    expect(parseFee("500 per visit")).toEqual({ amount: 500, currency: DEFAULT_CURRENCY });
+    expect(parseFee("$ 20 per visit")).toEqual({ amount: 20, currency: "USD" });
+    expect(parseFee("XYZ 20")).toEqual({ amount: 20, currency: DEFAULT_CURRENCY });
+  });
+
+  it("assumes the default currency for bare numbers", () => {
+    expect(parseFee(500)).toEqual({ amount: 500, currency: DEFAULT_CURRENCY });
+    expect(parseFee("500")).toEqual({ amount: 500, currency: DEFAULT_CURRENCY });
+  });
+
+  it("gives null without an amount", () => {
+    expect(parseFee("Free")).toBeNull();
+    expect(parseFee(-5)).toBeNull();
+    expect(parseFee(null)).toBeNull();
+  });
+});
+
+describe("parseExperience", () => {
+  it("reads the leading whole years", () => {
+    expect(parseExperience("13 Years of experience")).toBe(13);
+    expect(parseExperience(4)).toBe(4);
+    expect(parseExperience("many")).toBeNull();
+    expect(parseExperience(2.5)).toBeNull();
+  });
+});
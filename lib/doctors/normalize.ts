@@ -0,0 +1,314 @@
+// lib/doctors/normalize.ts
+// Runtime validation of raw doctor records (either shape in types/doctor.ts) into the canonical Doctor model.
+
+import type { Clinic, ConsultationMode, Doctor, Money, Schedule, TimeRange, WeeklyHours } from "@/types/doctor";
+import {
+  DEFAULT_SCHEDULE,
+  EMPTY_WEEKLY_HOURS,
+  isDateString,
+  parseTimeRange,
+  WEEKDAYS,
+} from "@/lib/doctors/schedule";
+
+export interface RejectedRecord {
+  index: number; // Position in the source array
+  id: string | null;
+  issues: string[];
+}
+
+export interface NormalizeResult {
+  doctors: Doctor[];
+  rejected: RejectedRecord[];
+}
+
+export type NormalizeDoctorResult =
+  | { ok: true; doctor: Doctor }
+  | { ok: false; issues: string[] };
+
+export const DEFAULT_CURRENCY = "INR";
+
+// ISO 4217 codes (e.g. "CAD"), whether or not data/exchange-rates.json has a rate for them
+const ISO_CURRENCIES = new Set(Intl.supportedValuesOf("currency"));
+
+// Three letters right before or after the amount, e.g. "CAD 50", "50 chf"
+const ISO_CODE_PATTERNS = [/\b([a-z]{3})\.?\s*\d/gi, /\d\s*([a-z]{3})\b/gi];
+
+const CURRENCY_SYMBOLS: [RegExp, string][] = [
+  [/₹|\bRs\.?/i, "INR"],
+  [/€/, "EUR"],
+  [/£/, "GBP"],
+  [/\$/, "USD"],
+];
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+// An explicit ISO code beats a currency symbol, so "$50 CAD" is in CAD. Words next to the amount that
+// aren't currencies ("500 per visit") are ignored.
+const detectCurrency = (feeString: string): string | null => {
+  for (const pattern of ISO_CODE_PATTERNS) {
+    for (const [, letters] of feeString.matchAll(pattern)) {
+      const code = letters.toUpperCase();
+      if (ISO_CURRENCIES.has(code)) return code;
+    }
+  }
+  for (const [pattern, code] of CURRENCY_SYMBOLS) {
+    if (pattern.test(feeString)) return code;
+  }
+  return null;
+};
+
+// Parses a fee into amount + currency (e.g., "₹ 1,000" -> { amount: 1000, currency: "INR" })
+// Returns null when no amount can be found; bare numbers are assumed to be in DEFAULT_CURRENCY.
+export const parseFee = (fee: unknown): Money | null => {
+  if (typeof fee === "number") {
+    return Number.isFinite(fee) && fee >= 0 ? { amount: fee, currency: DEFAULT_CURRENCY } : null;
+  }
+  if (typeof fee !== "string") return null;
+  const match = fee.replace(/,/g, "").match(/\d+(\.\d+)?/);
+  if (!match) return null;
+  return { amount: parseFloat(match[0]), currency: detectCurrency(fee) ?? DEFAULT_CURRENCY };
+};
+
+// Parses experience in whole years (e.g., "13 Years of experience" -> 13); null when unparseable
+export const parseExperience = (experience: unknown): number | null => {
+  if (typeof experience === "number") {
+    return Number.isInteger(experience) && experience >= 0 ? experience : null;
+  }
+  const match = typeof experience === "string" ? experience.match(/^\s*(\d+)/) : null;
+  return match ? parseInt(match[1], 10) : null;
+};
+
+const deriveInitials = (name: string): string =>
+  name
+    .replace(/^dr\.?\s+/i, "")
+    .split(/\s+/)
+    .map((part) => part.charAt(0).toUpperCase())
+    .join("")
+    .slice(0, 3);
+
+const normalizeSpecialities = (raw: RawRecord, issues: string[]): { name: string }[] => {
+  // API shape: specialities: [{ name }]; legacy shape: specialty: "..."
+  if (raw.specialities === undefined) {
+    const legacy = nonEmptyString(raw.specialty);
+    return legacy ? [{ name: legacy }] : [];
+  }
+  if (!Array.isArray(raw.specialities)) {
+    issues.push("specialities must be an array");
+    return [];
+  }
+  const names: string[] = [];
+  raw.specialities.forEach((entry, i) => {
+    const name = nonEmptyString(isRecord(entry) ? entry.name : entry);
+    if (name) {
+      if (!names.includes(name)) names.push(name);
+    } else {
+      issues.push(`specialities[${i}] has no name`);
+    }
+  });
+  return names.map((name) => ({ name }));
+};
+
+const normalizeLanguages = (raw: RawRecord, issues: string[]): string[] => {
+  if (raw.languages === undefined) return [];
+  if (!Array.isArray(raw.languages) || !raw.languages.every((lang) => typeof lang === "string")) {
+    issues.push("languages must be an array of strings");
+    return [];
+  }
+  return raw.languages.map((lang: string) => lang.trim()).filter(Boolean);
+};
+
+const normalizeClinic = (raw: RawRecord, issues: string[]): Clinic | null => {
+  if (raw.clinic === undefined || raw.clinic === null) return null;
+  if (!isRecord(raw.clinic)) {
+    issues.push("clinic must be an object");
+    return null;
+  }
+  const address = isRecord(raw.clinic.address) ? raw.clinic.address : {};
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  return {
+    name: text(raw.clinic.name),
+    address: {
+      locality: text(address.locality),
+      city: text(address.city),
+      address_line1: text(address.address_line1),
+      location: text(address.location),
+      logo_url: nonEmptyString(address.logo_url) ?? undefined,
+    },
+  };
+};
+
+// Consultation flags: top-level booleans (API shape) or the legacy availability map
+const readConsultationFlag = (
+  raw: RawRecord,
+  key: "video_consult" | "in_clinic",
+  availabilityKey: "Video Consult" | "In Clinic",
+  issues: string[]
+): boolean => {
+  const flag = raw[key];
+  if (flag !== undefined && typeof flag !== "boolean") {
+    issues.push(`${key} must be a boolean`);
+  }
+  const availability = isRecord(raw.availability) ? raw.availability[availabilityKey] : undefined;
+  return flag === true || availability === true;
+};
+
+// Schedule: weekly "HH:MM-HH:MM" ranges per mode plus dated exceptions; see RawSchedule in types/doctor.ts
+const normalizeSchedule = (raw: RawRecord, issues: string[]): Schedule => {
+  if (raw.schedule === undefined || raw.schedule === null) return DEFAULT_SCHEDULE;
+  if (!isRecord(raw.schedule)) {
+    issues.push("schedule must be an object");
+    return DEFAULT_SCHEDULE;
+  }
+  const schedule = raw.schedule;
+
+  const ranges = (value: unknown, label: string): TimeRange[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      issues.push(`${label} must be an array of "HH:MM-HH:MM" ranges`);
+      return [];
+    }
+    return value.flatMap((entry, i) => {
+      const range = parseTimeRange(entry);
+      if (!range) issues.push(`${label}[${i}] ${JSON.stringify(entry)} is not an "HH:MM-HH:MM" range`);
+      return range ? [range] : [];
+    });
+  };
+
+  // A mode left out of the schedule keeps the default hours; listing it with no days means "never"
+  const weekly = (mode: ConsultationMode): WeeklyHours => {
+    const days = schedule[mode];
+    if (days === undefined) return DEFAULT_SCHEDULE.weekly[mode];
+    if (!isRecord(days)) {
+      issues.push(`schedule.${mode} must be an object keyed by weekday`);
+      return EMPTY_WEEKLY_HOURS;
+    }
+    Object.keys(days)
+      .filter((day) => !(WEEKDAYS as string[]).includes(day))
+      .forEach((day) => issues.push(`schedule.${mode}.${day} is not a weekday (${WEEKDAYS.join(", ")})`));
+    return Object.fromEntries(
+      WEEKDAYS.map((day) => [day, ranges(days[day], `schedule.${mode}.${day}`)])
+    ) as WeeklyHours;
+  };
+
+  const rawExceptions = schedule.exceptions ?? [];
+  if (!Array.isArray(rawExceptions)) issues.push("schedule.exceptions must be an array");
+  const exceptions = (Array.isArray(rawExceptions) ? rawExceptions : []).flatMap((entry, i) => {
+    const label = `schedule.exceptions[${i}]`;
+    if (!isRecord(entry) || !isDateString(entry.date)) {
+      issues.push(`${label} needs a "YYYY-MM-DD" date`);
+      return [];
+    }
+    const modes = entry.modes ?? ["video", "clinic"];
+    if (!Array.isArray(modes) || !modes.every((mode) => mode === "video" || mode === "clinic")) {
+      issues.push(`${label}.modes must list "video" and/or "clinic"`);
+      return [];
+    }
+    const reason = nonEmptyString(entry.reason);
+    return [
+      {
+        date: entry.date,
+        modes: modes as ConsultationMode[],
+        hours: ranges(entry.hours, `${label}.hours`), // None: not consulting that day
+        ...(reason && { reason }),
+      },
+    ];
+  });
+
+  return { weekly: { video: weekly("video"), clinic: weekly("clinic") }, exceptions };
+};
+
+export function normalizeDoctor(raw: unknown): NormalizeDoctorResult {
+  if (!isRecord(raw)) return { ok: false, issues: ["record is not an object"] };
+
+  const issues: string[] = [];
+
+  const id =
+    typeof raw.id === "number" && Number.isFinite(raw.id) ? String(raw.id) : nonEmptyString(raw.id);
+  if (!id) issues.push("id is missing");
+
+  const name = nonEmptyString(raw.name);
+  if (!name) issues.push("name is missing");
+
+  const fee = parseFee(raw.fees);
+  if (!fee) issues.push(`fees ${JSON.stringify(raw.fees)} could not be parsed`);
+
+  const experienceYears = parseExperience(raw.experience);
+  if (experienceYears === null) {
+    issues.push(`experience ${JSON.stringify(raw.experience)} could not be parsed`);
+  }
+
+  let ratings: number | undefined;
+  if (raw.ratings !== undefined) {
+    if (typeof raw.ratings === "number" && raw.ratings >= 0 && raw.ratings <= 5) {
+      ratings = raw.ratings;
+    } else {
+      issues.push("ratings must be a number between 0 and 5");
+    }
+  }
+
+  const specialities = normalizeSpecialities(raw, issues);
+  const languages = normalizeLanguages(raw, issues);
+  const clinic = normalizeClinic(raw, issues);
+  const video_consult = readConsultationFlag(raw, "video_consult", "Video Consult", issues);
+  const in_clinic = readConsultationFlag(raw, "in_clinic", "In Clinic", issues);
+  const schedule = normalizeSchedule(raw, issues);
+
+  if (issues.length > 0 || !id || !name || !fee || experienceYears === null) {
+    return { ok: false, issues };
+  }
+
+  return {
+    ok: true,
+    doctor: {
+      id,
+      name,
+      name_initials: nonEmptyString(raw.name_initials) ?? deriveInitials(name),
+      photo: nonEmptyString(raw.photo) ?? nonEmptyString(raw.profile_img),
+      doctor_introduction: nonEmptyString(raw.doctor_introduction) ?? "",
+      specialities,
+      fees: typeof raw.fees === "string" ? raw.fees.trim() : String(raw.fees),
+      fee,
+      experience:
+        typeof raw.experience === "string" ? raw.experience.trim() : `${experienceYears} Years of experience`,
+      experience_years: experienceYears,
+      languages,
+      clinic,
+      video_consult,
+      in_clinic,
+      schedule,
+      ...(ratings !== undefined && { ratings }),
+    },
+  };
+}
+
+// Normalizes a whole roster. Malformed or duplicate records are skipped and reported in `rejected`.
+export function normalizeDoctors(data: unknown): NormalizeResult {
+  if (!Array.isArray(data)) {
+    throw new Error("Doctor data must be a JSON array.");
+  }
+
+  const doctors: Doctor[] = [];
+  const rejected: RejectedRecord[] = [];
+  const seenIds = new Set<string>();
+
+  data.forEach((raw, index) => {
+    const result = normalizeDoctor(raw);
+    const rawId = isRecord(raw) && raw.id !== undefined && raw.id !== null ? String(raw.id) : null;
+    if (!result.ok) {
+      rejected.push({ index, id: rawId, issues: result.issues });
+    } else if (seenIds.has(result.doctor.id)) {
+      rejected.push({ index, id: rawId, issues: [`duplicate id "${result.doctor.id}"`] });
+    } else {
+      seenIds.add(result.doctor.id);
+      doctors.push(result.doctor);
+    }
+  });
+
+  return { doctors, rejected };
+}
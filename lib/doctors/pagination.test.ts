@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { getPageNumbers, LISTING_PAGE_SIZE, paginate } from "@/lib/doctors/pagination";
+
+const items = Array.from({ length: 25 }, (_, i) => i + 1);
+
+describe("paginate", () => {
+  it("slices a page and reports its position", () => {
+    expect(paginate(items, 2, 10)).toEqual({
+      items: [11, 12, 13, 14, 15, 16, 17, 18, 19, 20],
+      page: 2,
+      pageCount: 3,
+      start: 11,
+      end: 20,
+      total: 25,
+    });
+    expect(paginate(items, 1).items).toHaveLength(LISTING_PAGE_SIZE);
+  });
+
+  it("shows the last page for a page past the end", () => {
+    expect(paginate(items, 4, 10)).toMatchObject({ items: [21, 22, 23, 24, 25], page: 3, start: 21, end: 25 });
+    expect(paginate(items, 1000, 10).page).toBe(3);
+  });
+
+  it("shows the first page for page 0 and negative pages", () => {
+    expect(paginate(items, 0, 10)).toMatchObject({ page: 1, start: 1, end: 10 });
+    expect(paginate(items, -3, 10)).toMatchObject({ page: 1, start: 1, end: 10 });
+  });
+
+  it("puts every item on one page for pageSize all", () => {
+    expect(paginate(items, 1, "all")).toMatchObject({ items, page: 1, pageCount: 1, start: 1, end: 25 });
+    expect(paginate(items, 3, "all").page).toBe(1);
+  });
+
+  it("has a single empty page without items", () => {
+    const empty = { items: [], page: 1, pageCount: 1, start: 0, end: 0, total: 0 };
+    expect(paginate([], 2)).toEqual(empty);
+    expect(paginate([], 1, "all")).toEqual(empty);
+  });
+});
+
+describe("getPageNumbers", () => {
+  it("shows the first, the last and the current page's neighbours, with gaps", () => {
+    expect(getPageNumbers(5, 20)).toEqual([1, "gap", 4, 5, 6, "gap", 20]);
+    expect(getPageNumbers(1, 5)).toEqual([1, 2, "gap", 5]);
+    expect(getPageNumbers(3, 5)).toEqual([1, 2, 3, 4, 5]);
+    expect(getPageNumbers(1, 1)).toEqual([1]);
+  });
+});
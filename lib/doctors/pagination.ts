@@ -0,0 +1,47 @@
+// lib/doctors/pagination.ts
+// Page slicing for the results grid, and the page-number strip shown under it.
+
+export const LISTING_PAGE_SIZE = 12; // Four rows of the three-column grid
+
+// Items per page; "all" puts every item on a single page
+export type PageSize = number | "all";
+
+export interface PageSlice<T> {
+  items: T[];
+  page: number; // Clamped to 1..pageCount
+  pageCount: number; // At least 1, even with no items
+  start: number; // 1-based index of the first item shown, 0 when there are none
+  end: number; // 1-based index of the last item shown
+  total: number;
+}
+
+// Out-of-range pages show the last page rather than an empty grid
+export function paginate<T>(items: T[], page: number, pageSize: PageSize = LISTING_PAGE_SIZE): PageSlice<T> {
+  if (pageSize === "all") pageSize = Math.max(1, items.length);
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), pageCount);
+  const offset = (current - 1) * pageSize;
+  const pageItems = items.slice(offset, offset + pageSize);
+  return {
+    items: pageItems,
+    page: current,
+    pageCount,
+    start: pageItems.length > 0 ? offset + 1 : 0,
+    end: offset + pageItems.length,
+    total: items.length,
+  };
+}
+
+// Page numbers to show: the first, the last and `siblings` either side of the current one,
+// with "gap" where numbers are skipped, e.g. [1, "gap", 4, 5, 6, "gap", 20]
+export function getPageNumbers(page: number, pageCount: number, siblings = 1): (number | "gap")[] {
+  const numbers: (number | "gap")[] = [];
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= siblings) {
+      numbers.push(n);
+    } else if (numbers[numbers.length - 1] !== "gap") {
+      numbers.push("gap");
+    }
+  }
+  return numbers;
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  canonicalizeListingQuery,
+  EMPTY_LISTING_QUERY,
+  parseListingQuery,
+  serializeListingQuery,
+} from "@/lib/doctors/query";
+import { sortCriterion } from "@/lib/doctors/sort";
+
+describe("parseListingQuery", () => {
+  it("gives the empty query for no params", () => {
+    expect(parseListingQuery("")).toEqual({ query: EMPTY_LISTING_QUERY, issues: [] });
+  });
+
+  it("reads every param", () => {
+    const { query, issues } = parseListingQuery(
+      "search=heart&consultation=video&specialty=Dentist&specialty=Cardiologist&clinic=Apollo&city=Pune" +
+        "&locality=Baner&language=Hindi&minFee=200&maxFee=800&currency=usd&minExperience=5&minRating=4" +
+        "&available=today&sort=fees:desc,name&near=12.9,77.6&page=3&compare=a&compare=b"
+    );
+    expect(issues).toEqual([]);
+    expect(query).toEqual({
+      search: "heart",
+      consultation: "video",
+      specialties: ["Cardiologist", "Dentist"],
+      clinic: "Apollo",
+      cities: ["Pune"],
+      localities: ["Baner"],
+      languages: ["Hindi"],
+      minFee: 200,
+      maxFee: 800,
+      currency: "USD",
+      minExperience: 5,
+      minRating: 4,
+      availableToday: true,
+      sort: [
+        { key: "fees", direction: "desc" },
+        { key: "name", direction: "asc" },
+      ],
+      near: { lat: 12.9, lng: 77.6 },
+      page: 3,
+      compare: ["a", "b"],
+      extra: [],
+    });
+  });
+
+  it("accepts a record of params as a page gets them", () => {
+    const { query } = parseListingQuery({ specialty: ["Dentist", "Dentist"], page: "2", utm_source: undefined });
+    expect(query.specialties).toEqual(["Dentist"]);
+    expect(query.page).toBe(2);
+  });
+
+  it("drops invalid values and reports each one", () => {
+    const { query, issues } = parseListingQuery(
+      "consultation=phone&minFee=-5&minRating=6&currency=XYZ&available=tomorrow&sort=bogus&near=here&page=0"
+    );
+    expect(query).toEqual(EMPTY_LISTING_QUERY);
+    expect(issues.map(({ param, value }) => [param, value])).toEqual([
+      ["consultation", "phone"],
+      ["minRating", "6"],
+      ["currency", "XYZ"],
+      ["available", "tomorrow"],
+      ["sort", "bogus"],
+      ["near", "here"],
+      ["page", "0"],
+      ["minFee", "-5"],
+    ]);
+  });
+
+  it("treats the default currency as no currency", () => {
+    expect(parseListingQuery("currency=INR").query.currency).toBeNull();
+  });
+
+  it("keeps the first of a repeated single-valued param", () => {
+    expect(parseListingQuery("search=skin&search=heart").query.search).toBe("skin");
+  });
+
+  it("keeps params it doesn't own, in order", () => {
+    expect(parseListingQuery("utm_source=mail&search=x&ref=2").query.extra).toEqual([
+      ["utm_source", "mail"],
+      ["ref", "2"],
+    ]);
+  });
+});
+
+describe("serializeListingQuery", () => {
+  it("leaves defaults out", () => {
+    expect(serializeListingQuery(EMPTY_LISTING_QUERY).toString()).toBe("");
+    expect(serializeListingQuery({ page: 1, currency: "INR", sort: [] }).toString()).toBe("");
+  });
+
+  it("writes known params in a fixed order, then the extra ones", () => {
+    const params = serializeListingQuery({
+      extra: [["utm_source", "mail"]],
+      page: 2,
+      sort: [{ key: "experience", direction: "desc" }],
+      specialties: ["Dentist", "Cardiologist"],
+      search: "heart",
+    });
+    expect(params.toString()).toBe(
+      "search=heart&specialty=Cardiologist&specialty=Dentist&sort=experience&page=2&utm_source=mail"
+    );
+  });
+
+  it("writes only non-default sort directions", () => {
+    const sort = [sortCriterion("fees", "desc"), sortCriterion("rating", "desc")];
+    expect(serializeListingQuery({ sort }).get("sort")).toBe("fees:desc,rating");
+  });
+});
+
+describe("round trip", () => {
+  it("parses what it serializes", () => {
+    const { query } = parseListingQuery(
+      "search=skin&consultation=clinic&specialty=Dermatologist&city=Mumbai&minFee=0&currency=EUR" +
+        "&minRating=4.5&sort=distance,fees:desc&near=19.07,72.87&page=4&compare=x&ref=abc"
+    );
+    expect(parseListingQuery(serializeListingQuery(query))).toEqual({ query, issues: [] });
+  });
+
+  it("canonicalizes equivalent query strings to the same one", () => {
+    const a = canonicalizeListingQuery("specialty=Dentist&specialty=Cardiologist&sort=fees:asc&page=1");
+    const b = canonicalizeListingQuery("sort=fees&specialty=Cardiologist&specialty=Dentist&specialty=Dentist");
+    expect(a).toBe(b);
+    expect(a).toBe("specialty=Cardiologist&specialty=Dentist&sort=fees");
+  });
+});
@@ -0,0 +1,216 @@
+// lib/doctors/query.ts
+// The listing's URL query state: one typed model with a parser and a serializer.
+//
+// Parsing never throws: invalid values (consultation=foo, sort=bar, minFee=-5, ...) are dropped and
+// reported as issues, so the page can ignore them and the API can answer 400. Params the listing
+// doesn't own (utm_source, campaign tags, ...) are kept as they are. Serializing always writes the
+// same canonical form: known params in a fixed order, filter lists de-duplicated and sorted,
+// defaults left out, then the unknown params in their original order.
+
+import type { ConsultationMode } from "@/types/doctor";
+import { formatGeoPoint, GeoPoint, parseGeoPoint } from "@/lib/doctors/geo";
+import { isConsultationMode, ListingFilters, parseRangeParam } from "@/lib/doctors/listing";
+import { MAX_RATING } from "@/lib/reviews/validate";
+import { parseSortParam, serializeSort, SORT_KEYS, SortCriterion } from "@/lib/doctors/sort";
+import { uniqueCompareIds } from "@/lib/doctors/compare";
+import { DEFAULT_DISPLAY_CURRENCY, DISPLAY_CURRENCIES, isDisplayCurrency } from "@/lib/doctors/currency";
+
+export interface ListingQuery extends ListingFilters {
+  search: string;
+  consultation: ConsultationMode | null;
+  specialties: string[];
+  clinic: string | null;
+  cities: string[];
+  localities: string[];
+  languages: string[];
+  minFee: number | null;
+  maxFee: number | null;
+  currency: string | null; // Display currency; null for the default
+  minExperience: number | null;
+  minRating: number | null;
+  availableToday: boolean;
+  sort: SortCriterion[];
+  near: GeoPoint | null;
+  page: number; // 1-based
+  compare: string[]; // Doctors picked for comparison, in the order they were picked
+  extra: [string, string][]; // Params the listing doesn't use, in their original order
+}
+
+export interface QueryIssue {
+  param: string;
+  value: string;
+  message: string;
+}
+
+export interface ParsedListingQuery {
+  query: ListingQuery;
+  issues: QueryIssue[];
+}
+
+// Anything a page or route handler might have at hand
+export type QueryInput = URLSearchParams | string | Record<string, string | string[] | undefined>;
+
+// URL param names, in canonical order
+export const LISTING_QUERY_PARAMS = [
+  "search",
+  "consultation",
+  "specialty",
+  "clinic",
+  "city",
+  "locality",
+  "language",
+  "minFee",
+  "maxFee",
+  "currency",
+  "minExperience",
+  "minRating",
+  "available",
+  "sort",
+  "near",
+  "page",
+  "compare",
+] as const;
+
+type ListingQueryParam = (typeof LISTING_QUERY_PARAMS)[number];
+
+const isListingQueryParam = (name: string): name is ListingQueryParam =>
+  LISTING_QUERY_PARAMS.includes(name as ListingQueryParam);
+
+export const EMPTY_LISTING_QUERY: ListingQuery = {
+  search: "",
+  consultation: null,
+  specialties: [],
+  clinic: null,
+  cities: [],
+  localities: [],
+  languages: [],
+  minFee: null,
+  maxFee: null,
+  currency: null,
+  minExperience: null,
+  minRating: null,
+  availableToday: false,
+  sort: [],
+  near: null,
+  page: 1,
+  compare: [],
+  extra: [],
+};
+
+const toSearchParams = (input: QueryInput): URLSearchParams => {
+  if (typeof input === "string" || input instanceof URLSearchParams) return new URLSearchParams(input);
+  const params = new URLSearchParams();
+  Object.entries(input).forEach(([name, value]) => {
+    (Array.isArray(value) ? value : value === undefined ? [] : [value]).forEach((v) => params.append(name, v));
+  });
+  return params;
+};
+
+const uniqueSorted = (values: string[]): string[] =>
+  [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+export function parseListingQuery(input: QueryInput): ParsedListingQuery {
+  const params = toSearchParams(input);
+  const issues: QueryIssue[] = [];
+  // Single-valued params: the first occurrence wins, empty means absent
+  const first = (name: ListingQueryParam) => params.get(name) || null;
+  // A param that was given but didn't parse is dropped and reported
+  const checked = <T>(name: ListingQueryParam, value: T | null, message: (raw: string) => string): T | null => {
+    const raw = first(name);
+    if (raw !== null && value === null) issues.push({ param: name, value: raw, message: message(raw) });
+    return raw === null ? null : value;
+  };
+
+  const consultationParam = first("consultation");
+  const consultation = checked(
+    "consultation",
+    isConsultationMode(consultationParam) ? consultationParam : null,
+    (raw) => `Invalid consultation "${raw}". Expected "video" or "clinic".`
+  );
+  const range = (name: "minFee" | "maxFee" | "minExperience") =>
+    checked(name, parseRangeParam(first(name)), () => `${name} must be a non-negative number.`);
+  const ratingParam = parseRangeParam(first("minRating"));
+  const minRating = checked(
+    "minRating",
+    ratingParam !== null && ratingParam <= MAX_RATING ? ratingParam : null,
+    () => `minRating must be a number from 0 to ${MAX_RATING}.`
+  );
+  const currencyParam = first("currency")?.toUpperCase() ?? null;
+  const currency = checked(
+    "currency",
+    isDisplayCurrency(currencyParam) ? currencyParam : null,
+    (raw) => `Invalid currency "${raw}". Expected one of ${DISPLAY_CURRENCIES.join(", ")}.`
+  );
+  const available = checked(
+    "available",
+    first("available") === "today" ? "today" : null,
+    (raw) => `Invalid available "${raw}". Expected "today".`
+  );
+  const sort = checked(
+    "sort",
+    parseSortParam(first("sort")),
+    (raw) =>
+      `Invalid sort "${raw}". Expected comma-separated keys (${SORT_KEYS.join(", ")}), each optionally followed by ":asc" or ":desc".`
+  );
+  const near = checked("near", parseGeoPoint(first("near")), (raw) => `Invalid near "${raw}". Expected "lat,lng".`);
+  const pageNumber = Number(first("page"));
+  const page = checked(
+    "page",
+    Number.isInteger(pageNumber) && pageNumber >= 1 ? pageNumber : null,
+    () => "page must be a positive integer."
+  );
+
+  const query: ListingQuery = {
+    search: first("search") ?? "",
+    consultation,
+    specialties: uniqueSorted(params.getAll("specialty")),
+    clinic: first("clinic"),
+    cities: uniqueSorted(params.getAll("city")),
+    localities: uniqueSorted(params.getAll("locality")),
+    languages: uniqueSorted(params.getAll("language")),
+    minFee: range("minFee"),
+    maxFee: range("maxFee"),
+    currency: currency === DEFAULT_DISPLAY_CURRENCY ? null : currency,
+    minExperience: range("minExperience"),
+    minRating,
+    availableToday: available === "today",
+    sort: sort ?? [],
+    near,
+    page: page ?? 1,
+    compare: uniqueCompareIds(params.getAll("compare")),
+    extra: [...params.entries()].filter(([name]) => !isListingQueryParam(name)),
+  };
+  return { query, issues };
+}
+
+// Canonical URL params for a query; defaults (no filter, first page, no sort) are left out
+export function serializeListingQuery(query: Partial<ListingQuery>): URLSearchParams {
+  const params = new URLSearchParams();
+  const { search, consultation, clinic, minFee, maxFee, currency, minExperience, minRating, availableToday } = query;
+  const { sort, near, page } = query;
+  if (search) params.set("search", search);
+  if (consultation) params.set("consultation", consultation);
+  uniqueSorted(query.specialties ?? []).forEach((specialty) => params.append("specialty", specialty));
+  if (clinic) params.set("clinic", clinic);
+  uniqueSorted(query.cities ?? []).forEach((city) => params.append("city", city));
+  uniqueSorted(query.localities ?? []).forEach((locality) => params.append("locality", locality));
+  uniqueSorted(query.languages ?? []).forEach((language) => params.append("language", language));
+  if (minFee != null) params.set("minFee", String(minFee));
+  if (maxFee != null) params.set("maxFee", String(maxFee));
+  if (currency && currency !== DEFAULT_DISPLAY_CURRENCY) params.set("currency", currency);
+  if (minExperience != null) params.set("minExperience", String(minExperience));
+  if (minRating != null) params.set("minRating", String(minRating));
+  if (availableToday) params.set("available", "today");
+  if (sort && sort.length > 0) params.set("sort", serializeSort(sort));
+  if (near) params.set("near", formatGeoPoint(near));
+  if (page && page > 1) params.set("page", String(page));
+  uniqueCompareIds(query.compare ?? []).forEach((id) => params.append("compare", id));
+  query.extra?.forEach(([name, value]) => {
+    if (!isListingQueryParam(name)) params.append(name, value);
+  });
+  return params;
+}
+
+// Re-writes any query string in canonical form, dropping invalid values
+export const canonicalizeListingQuery = (input: QueryInput): string =>
+  serializeListingQuery(parseListingQuery(input).query).toString();
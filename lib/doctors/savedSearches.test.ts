@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  addRecentSearch,
+  addSavedSearch,
+  describeSearchQuery,
+  EMPTY_SEARCH_HISTORY,
+  MAX_RECENT_SEARCHES,
+  MAX_SAVED_SEARCHES,
+  parseSearchHistory,
+  removeSavedSearch,
+  renameSavedSearch,
+  SearchHistory,
+  toSearchQuery,
+} from "@/lib/doctors/savedSearches";
+import { sortCriterion } from "@/lib/doctors/sort";
+
+const SAVED = { id: "a1", name: "Skin", query: "specialty=Dermatologist", savedAt: "2026-10-01T09:00:00.000Z" };
+const RECENT = { query: "search=heart", searchedAt: "2026-10-02T09:00:00.000Z" };
+const NOW = new Date("2026-10-19T10:00:00.000Z");
+
+describe("parseSearchHistory", () => {
+  it("reads a stored history", () => {
+    expect(parseSearchHistory(JSON.stringify({ saved: [SAVED], recent: [RECENT] }))).toEqual({
+      saved: [SAVED],
+      recent: [RECENT],
+    });
+  });
+
+  it("gives an empty history when nothing is stored", () => {
+    expect(parseSearchHistory(null)).toEqual(EMPTY_SEARCH_HISTORY);
+    expect(parseSearchHistory("")).toEqual(EMPTY_SEARCH_HISTORY);
+  });
+
+  it("gives an empty history for corrupted JSON", () => {
+    expect(parseSearchHistory('{"saved":[')).toEqual(EMPTY_SEARCH_HISTORY);
+    expect(parseSearchHistory("[object Object]")).toEqual(EMPTY_SEARCH_HISTORY);
+  });
+
+  it("gives an empty history for JSON of another shape", () => {
+    expect(parseSearchHistory(JSON.stringify([SAVED]))).toEqual(EMPTY_SEARCH_HISTORY);
+    expect(parseSearchHistory('"search=heart"')).toEqual(EMPTY_SEARCH_HISTORY);
+    expect(parseSearchHistory("null")).toEqual(EMPTY_SEARCH_HISTORY);
+  });
+
+  it("reads a history with one of its lists missing or not a list", () => {
+    expect(parseSearchHistory(JSON.stringify({ saved: [SAVED] }))).toEqual({ saved: [SAVED], recent: [] });
+    expect(parseSearchHistory(JSON.stringify({ saved: "Skin", recent: [RECENT] }))).toEqual({
+      saved: [],
+      recent: [RECENT],
+    });
+  });
+
+  it("drops entries in an old or broken shape and keeps the rest", () => {
+    const stored = {
+      saved: [{ name: "No id", query: "search=x", savedAt: SAVED.savedAt }, { ...SAVED, query: 42 }, null, SAVED],
+      recent: ["search=heart", { query: "search=x" }, RECENT],
+    };
+    expect(parseSearchHistory(JSON.stringify(stored))).toEqual({ saved: [SAVED], recent: [RECENT] });
+  });
+
+  it("keeps at most the maximum number of entries", () => {
+    const stored = {
+      saved: Array.from({ length: MAX_SAVED_SEARCHES + 3 }, (_, i) => ({ ...SAVED, id: `s${i}` })),
+      recent: Array.from({ length: MAX_RECENT_SEARCHES + 3 }, (_, i) => ({ ...RECENT, query: `search=${i}` })),
+    };
+    const history = parseSearchHistory(JSON.stringify(stored));
+    expect(history.saved).toHaveLength(MAX_SAVED_SEARCHES);
+    expect(history.recent).toHaveLength(MAX_RECENT_SEARCHES);
+  });
+});
+
+describe("search queries", () => {
+  it("keep only the search term, consultation mode, specialties and sort", () => {
+    const query = toSearchQuery({
+      search: " heart ",
+      consultation: "video",
+      specialties: ["Dentist"],
+      cities: ["Pune"],
+      sort: [sortCriterion("fees")],
+    });
+    expect(query).toBe("search=heart&consultation=video&specialty=Dentist&sort=fees");
+  });
+
+  it("describe themselves in one line", () => {
+    expect(describeSearchQuery("search=heart&consultation=video&specialty=Dentist&sort=fees")).toBe(
+      "“heart” · Video · Dentist · Sorted by Fees"
+    );
+    expect(describeSearchQuery("")).toBe("All doctors");
+  });
+});
+
+describe("history updates", () => {
+  const history: SearchHistory = { saved: [SAVED], recent: [RECENT] };
+
+  it("save under a tidied name, replacing a search with the same name", () => {
+    const next = addSavedSearch(history, "  skin  ", "specialty=Dentist", NOW);
+    expect(next.saved).toHaveLength(1);
+    expect(next.saved[0]).toMatchObject({ name: "skin", query: "specialty=Dentist", savedAt: NOW.toISOString() });
+    expect(history.saved).toEqual([SAVED]);
+    expect(addSavedSearch(history, "   ", "search=x")).toBe(history);
+  });
+
+  it("rename and remove by id", () => {
+    expect(renameSavedSearch(history, "a1", "Derma").saved[0].name).toBe("Derma");
+    expect(renameSavedSearch(history, "a1", " ")).toBe(history);
+    expect(removeSavedSearch(history, "a1").saved).toEqual([]);
+  });
+
+  it("move a repeated recent search back to the top", () => {
+    const next = addRecentSearch(addRecentSearch(history, "search=skin", NOW), RECENT.query, NOW);
+    expect(next.recent.map(({ query }) => query)).toEqual(["search=heart", "search=skin"]);
+  });
+});
@@ -0,0 +1,151 @@
+// lib/doctors/savedSearches.ts
+// Named saved searches and the recent-search history, kept in localStorage.
+// A search is stored as the canonical query string of its search term, consultation mode,
+// specialties and sort (e.g. "search=heart&consultation=video&sort=fees"), so reopening one goes
+// through the same ListingQuery codec as any other listing URL.
+
+import { ListingQuery, parseListingQuery, serializeListingQuery } from "@/lib/doctors/query";
+import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+import { createI18n, Translate } from "@/lib/i18n/translate";
+
+export const SEARCH_HISTORY_STORAGE_KEY = "doctor-search-history";
+export const MAX_SAVED_SEARCHES = 20;
+export const MAX_RECENT_SEARCHES = 8;
+export const MAX_SEARCH_NAME_LENGTH = 60;
+
+// Same tab notification; other tabs get the browser's "storage" event
+const SEARCH_HISTORY_CHANGE_EVENT = "doctor-search-history-change";
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  savedAt: string; // ISO timestamp
+}
+
+export interface RecentSearch {
+  query: string;
+  searchedAt: string; // ISO timestamp
+}
+
+export interface SearchHistory {
+  saved: SavedSearch[];
+  recent: RecentSearch[]; // Newest first
+}
+
+export const EMPTY_SEARCH_HISTORY: SearchHistory = { saved: [], recent: [] };
+
+// == Queries ==
+
+// The part of a listing query a saved search keeps, as a canonical query string
+export const toSearchQuery = ({ search, consultation, specialties, sort }: Partial<ListingQuery>): string =>
+  serializeListingQuery({ search: search?.trim(), consultation, specialties, sort }).toString();
+
+// One-line summary, e.g. "“heart” · Video · Cardiologist · Sorted by Fees"
+export function describeSearchQuery(query: string, t: Translate = createI18n(DEFAULT_LOCALE).t): string {
+  const { search, consultation, specialties, sort } = parseListingQuery(query).query;
+  const parts = [
+    search && `“${search}”`,
+    consultation && t(`slotMode.${consultation}`),
+    specialties.join(", "),
+    sort.length > 0 && t("search.sortedBy", { keys: sort.map(({ key }) => t(`sort.${key}`)).join(", ") }),
+  ].filter((part): part is string => !!part);
+  return parts.length > 0 ? parts.join(" · ") : t("search.allDoctors");
+}
+
+// == Storage ==
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+// Stored history; entries that don't have the expected shape are dropped
+export const parseSearchHistory = (raw: string | null): SearchHistory => {
+  try {
+    const data: unknown = raw ? JSON.parse(raw) : null;
+    if (!isRecord(data)) return EMPTY_SEARCH_HISTORY;
+    const saved = (Array.isArray(data.saved) ? data.saved : []).filter(
+      (entry): entry is SavedSearch =>
+        isRecord(entry) && isString(entry.id) && isString(entry.name) && isString(entry.query) && isString(entry.savedAt)
+    );
+    const recent = (Array.isArray(data.recent) ? data.recent : []).filter(
+      (entry): entry is RecentSearch => isRecord(entry) && isString(entry.query) && isString(entry.searchedAt)
+    );
+    return { saved: saved.slice(0, MAX_SAVED_SEARCHES), recent: recent.slice(0, MAX_RECENT_SEARCHES) };
+  } catch {
+    return EMPTY_SEARCH_HISTORY;
+  }
+};
+
+// Parsed once per stored value, so every caller gets the same object until it changes
+let cachedRaw: string | null = null;
+let cachedHistory: SearchHistory = EMPTY_SEARCH_HISTORY;
+
+// The history saved in this browser
+export function readSearchHistory(): SearchHistory {
+  const raw = window.localStorage.getItem(SEARCH_HISTORY_STORAGE_KEY);
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cachedHistory = parseSearchHistory(raw);
+  }
+  return cachedHistory;
+}
+
+export function writeSearchHistory(history: SearchHistory): void {
+  window.localStorage.setItem(SEARCH_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  window.dispatchEvent(new Event(SEARCH_HISTORY_CHANGE_EVENT));
+}
+
+// Calls `onChange` whenever the history changes, in this tab or another one
+export function subscribeToSearchHistory(onChange: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SEARCH_HISTORY_STORAGE_KEY) onChange();
+  };
+  window.addEventListener("storage", handleStorage);
+  window.addEventListener(SEARCH_HISTORY_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+    window.removeEventListener(SEARCH_HISTORY_CHANGE_EVENT, onChange);
+  };
+}
+
+// == Updates ==
+// Pure: each returns the new history and leaves the one passed in untouched
+
+const newSearchId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const normalizeSearchName = (name: string): string =>
+  name.trim().replace(/\s+/g, " ").slice(0, MAX_SEARCH_NAME_LENGTH);
+
+// Saving under a name that's already taken (ignoring case) replaces that search
+export function addSavedSearch(history: SearchHistory, name: string, query: string, now = new Date()): SearchHistory {
+  const normalized = normalizeSearchName(name);
+  if (!normalized) return history;
+  const entry: SavedSearch = { id: newSearchId(), name: normalized, query, savedAt: now.toISOString() };
+  const others = history.saved.filter((saved) => saved.name.toLowerCase() !== normalized.toLowerCase());
+  return { ...history, saved: [entry, ...others].slice(0, MAX_SAVED_SEARCHES) };
+}
+
+export function renameSavedSearch(history: SearchHistory, id: string, name: string): SearchHistory {
+  const normalized = normalizeSearchName(name);
+  if (!normalized) return history;
+  return {
+    ...history,
+    saved: history.saved.map((saved) => (saved.id === id ? { ...saved, name: normalized } : saved)),
+  };
+}
+
+export const removeSavedSearch = (history: SearchHistory, id: string): SearchHistory => ({
+  ...history,
+  saved: history.saved.filter((saved) => saved.id !== id),
+});
+
+// Moves a repeated search back to the top instead of listing it twice
+export function addRecentSearch(history: SearchHistory, query: string, now = new Date()): SearchHistory {
+  const others = history.recent.filter((recent) => recent.query !== query);
+  return {
+    ...history,
+    recent: [{ query, searchedAt: now.toISOString() }, ...others].slice(0, MAX_RECENT_SEARCHES),
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import type { Doctor, Schedule } from "@/types/doctor";
+import {
+  addDays,
+  DEFAULT_SCHEDULE,
+  EMPTY_WEEKLY_HOURS,
+  getClinicNow,
+  getNextSlot,
+  getSlotTimes,
+  isAvailableToday,
+  isDateString,
+  parseTimeRange,
+  weekdayOf,
+} from "@/lib/doctors/schedule";
+
+const doctor = (schedule: Schedule = DEFAULT_SCHEDULE, overrides: Partial<Doctor> = {}): Doctor => ({
+  id: "d1",
+  name: "Dr. Test",
+  name_initials: "DT",
+  photo: null,
+  doctor_introduction: "",
+  specialities: [],
+  fees: "₹ 500",
+  fee: { amount: 500, currency: "INR" },
+  experience: "10 Years of experience",
+  experience_years: 10,
+  languages: [],
+  clinic: null,
+  video_consult: true,
+  in_clinic: true,
+  schedule,
+  ...overrides,
+});
+
+// 2026-10-19 is a Monday; the clinics are at UTC+05:30
+const at = (date: string, time: string) => new Date(`${date}T${time}:00+05:30`);
+
+describe("dates and times", () => {
+  it("adds days across months and years", () => {
+    expect(addDays("2026-10-31", 1)).toBe("2026-11-01");
+    expect(addDays("2026-12-31", 1)).toBe("2027-01-01");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+  });
+
+  it("knows the weekday of a date", () => {
+    expect(weekdayOf("2026-10-19")).toBe("mon");
+    expect(weekdayOf("2026-10-25")).toBe("sun");
+  });
+
+  it("only accepts real dates", () => {
+    expect(isDateString("2026-10-19")).toBe(true);
+    expect(isDateString("2025-02-31")).toBe(false);
+    expect(isDateString("19-10-2026")).toBe(false);
+  });
+
+  it("parses non-empty time ranges", () => {
+    expect(parseTimeRange(" 09:00 - 13:00 ")).toEqual({ start: "09:00", end: "13:00" });
+    expect(parseTimeRange("13:00-09:00")).toBeNull();
+    expect(parseTimeRange("09:00-09:00")).toBeNull();
+    expect(parseTimeRange("9:00-13:00")).toBeNull();
+    expect(parseTimeRange("09:00-24:00")).toBeNull();
+  });
+
+  it("reads the clinic date and time whatever the server's time zone", () => {
+    expect(getClinicNow(new Date("2026-10-19T20:00:00Z"))).toEqual({ date: "2026-10-20", time: "01:30" });
+  });
+});
+
+describe("getSlotTimes", () => {
+  const schedule: Schedule = {
+    weekly: {
+      video: { ...EMPTY_WEEKLY_HOURS, mon: [{ start: "09:00", end: "10:45" }, { start: "10:00", end: "11:00" }] },
+      clinic: { ...EMPTY_WEEKLY_HOURS, mon: [{ start: "17:00", end: "18:00" }] },
+    },
+    exceptions: [
+      { date: "2026-10-26", modes: ["clinic"], hours: [], reason: "On leave" },
+      { date: "2026-11-02", modes: ["video"], hours: [{ start: "12:00", end: "13:00" }] },
+      { date: "2026-11-02", modes: ["video"], hours: [{ start: "14:00", end: "15:00" }] },
+    ],
+  };
+
+  it("cuts each range into whole slots, sorted and without repeats", () => {
+    expect(getSlotTimes(doctor(schedule), "video", "2026-10-19")).toEqual(["09:00", "09:30", "10:00", "10:30"]);
+    expect(getSlotTimes(doctor(schedule), "clinic", "2026-10-19")).toEqual(["17:00", "17:30"]);
+  });
+
+  it("has no slots on a day without hours", () => {
+    expect(getSlotTimes(doctor(schedule), "video", "2026-10-20")).toEqual([]);
+  });
+
+  it("uses an exception's hours for the modes it covers, the last one winning", () => {
+    expect(getSlotTimes(doctor(schedule), "clinic", "2026-10-26")).toEqual([]);
+    expect(getSlotTimes(doctor(schedule), "video", "2026-10-26")).toEqual(["09:00", "09:30", "10:00", "10:30"]);
+    expect(getSlotTimes(doctor(schedule), "video", "2026-11-02")).toEqual(["14:00", "14:30"]);
+  });
+
+  it("has no slots for a mode the doctor doesn't offer", () => {
+    expect(getSlotTimes(doctor(schedule, { in_clinic: false }), "clinic", "2026-10-19")).toEqual([]);
+  });
+});
+
+describe("getNextSlot", () => {
+  it("gives the next slot that hasn't started", () => {
+    expect(getNextSlot(doctor(), "video", at("2026-10-19", "10:15"))).toEqual({
+      date: "2026-10-19",
+      time: "10:30",
+      mode: "video",
+    });
+    expect(getNextSlot(doctor(), "video", at("2026-10-19", "10:30"))?.time).toBe("11:00");
+  });
+
+  it("moves to the next consulting day after hours", () => {
+    expect(getNextSlot(doctor(), null, at("2026-10-24", "17:00"))).toEqual({
+      date: "2026-10-26",
+      time: "09:00",
+      mode: "video",
+    });
+  });
+
+  it("takes the earliest slot of any mode", () => {
+    const schedule: Schedule = {
+      weekly: {
+        video: { ...EMPTY_WEEKLY_HOURS, mon: [{ start: "19:00", end: "20:00" }] },
+        clinic: { ...EMPTY_WEEKLY_HOURS, mon: [{ start: "11:00", end: "12:00" }] },
+      },
+      exceptions: [],
+    };
+    expect(getNextSlot(doctor(schedule), null, at("2026-10-19", "08:00"))).toEqual({
+      date: "2026-10-19",
+      time: "11:00",
+      mode: "clinic",
+    });
+  });
+
+  it("gives null when there is nothing within the horizon", () => {
+    const schedule: Schedule = { weekly: { video: EMPTY_WEEKLY_HOURS, clinic: EMPTY_WEEKLY_HOURS }, exceptions: [] };
+    expect(getNextSlot(doctor(schedule), null, at("2026-10-19", "08:00"))).toBeNull();
+  });
+
+  it("counts a doctor as available today only while a slot is left", () => {
+    expect(isAvailableToday(doctor(), null, at("2026-10-19", "16:00"))).toBe(true);
+    expect(isAvailableToday(doctor(), null, at("2026-10-19", "16:30"))).toBe(false);
+    expect(isAvailableToday(doctor(), null, at("2026-10-25", "10:00"))).toBe(false);
+  });
+});
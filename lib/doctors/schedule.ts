@@ -0,0 +1,201 @@
+// lib/doctors/schedule.ts
+// When doctors consult: weekly hours per consultation mode, exceptions such as leave days, and the
+// slots and "next slot" derived from them. Dates ("YYYY-MM-DD") and times ("HH:MM") are
+// clinic-local, so the server and the browser agree on them whatever their own time zones are.
+
+import type {
+  ConsultationMode,
+  Doctor,
+  RawSchedule,
+  Schedule,
+  ScheduleException,
+  TimeRange,
+  Weekday,
+  WeeklyHours,
+} from "@/types/doctor";
+
+export const CLINIC_TIME_ZONE = "Asia/Kolkata";
+export const SLOT_MINUTES = 30;
+export const SCHEDULE_HORIZON_DAYS = 14; // Today plus the next 13 days
+
+export const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// == Dates and Times ==
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (minutes: number): string => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+const toUtcDate = (date: string) => new Date(`${date}T00:00:00Z`);
+
+export const isDateString = (value: unknown): value is string =>
+  typeof value === "string" &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(toUtcDate(value).getTime()) &&
+  toUtcDate(value).toISOString().startsWith(value); // Rejects e.g. "2025-02-31"
+
+export const isTimeString = (value: unknown): value is string =>
+  typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+export const addDays = (date: string, days: number): string => {
+  const next = toUtcDate(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+export const weekdayOf = (date: string): Weekday => WEEKDAYS[toUtcDate(date).getUTCDay()];
+
+// e.g. "Mon, 20 Oct"; `locale` is an Intl tag such as "hi-IN"
+export const formatSlotDate = (date: string, locale = "en-IN"): string =>
+  toUtcDate(date).toLocaleDateString(locale, { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" });
+
+// Current date and time at the clinics
+export function getClinicNow(now: Date = new Date()): { date: string; time: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone: CLINIC_TIME_ZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map(({ type, value }) => [type, value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+// "09:00-13:00" -> { start: "09:00", end: "13:00" }; null unless it is a non-empty range
+export const parseTimeRange = (value: unknown): TimeRange | null => {
+  const match = typeof value === "string" ? value.trim().match(/^(\d{2}:\d{2})\s*-\s*(\d{2}:\d{2})$/) : null;
+  if (!match || !isTimeString(match[1]) || !isTimeString(match[2])) return null;
+  return toMinutes(match[1]) < toMinutes(match[2]) ? { start: match[1], end: match[2] } : null;
+};
+
+export const formatTimeRange = ({ start, end }: TimeRange): string => `${start}-${end}`;
+
+// == Schedules ==
+const weeklyHours = (days: Weekday[], hours: TimeRange[]): WeeklyHours =>
+  Object.fromEntries(WEEKDAYS.map((day) => [day, days.includes(day) ? hours : []])) as WeeklyHours;
+
+export const EMPTY_WEEKLY_HOURS: WeeklyHours = weeklyHours([], []);
+
+// Used for doctors whose record has no schedule
+export const DEFAULT_WEEKLY_HOURS: WeeklyHours = weeklyHours(
+  ["mon", "tue", "wed", "thu", "fri", "sat"],
+  [{ start: "09:00", end: "17:00" }]
+);
+
+export const DEFAULT_SCHEDULE: Schedule = {
+  weekly: { video: DEFAULT_WEEKLY_HOURS, clinic: DEFAULT_WEEKLY_HOURS },
+  exceptions: [],
+};
+
+// Back to the roster-file shape, e.g. for records saved from the admin console
+const toRawWeeklyHours = (hours: WeeklyHours): Partial<Record<Weekday, string[]>> =>
+  Object.fromEntries(
+    WEEKDAYS.filter((day) => hours[day].length > 0).map((day) => [day, hours[day].map(formatTimeRange)])
+  );
+
+export const toRawSchedule = ({ weekly, exceptions }: Schedule): RawSchedule => ({
+  video: toRawWeeklyHours(weekly.video),
+  clinic: toRawWeeklyHours(weekly.clinic),
+  exceptions: exceptions.map(({ hours, ...exception }) => ({ ...exception, hours: hours.map(formatTimeRange) })),
+});
+
+const offersMode = (doctor: Doctor, mode: ConsultationMode) =>
+  mode === "video" ? doctor.video_consult : doctor.in_clinic;
+
+// The exception for a mode on a date, if any; the last one listed wins
+export const getScheduleException = (
+  schedule: Schedule,
+  mode: ConsultationMode,
+  date: string
+): ScheduleException | undefined =>
+  schedule.exceptions.findLast((exception) => exception.date === date && exception.modes.includes(mode));
+
+// Consulting hours for a mode on a date: the exception's hours if there is one, else the weekly ones
+export function getHoursOn(doctor: Doctor, mode: ConsultationMode, date: string): TimeRange[] {
+  if (!offersMode(doctor, mode)) return [];
+  return (
+    getScheduleException(doctor.schedule, mode, date)?.hours ?? doctor.schedule.weekly[mode][weekdayOf(date)]
+  );
+}
+
+// Start times of a doctor's slots for a mode on a date, ignoring bookings and the clock
+export function getSlotTimes(doctor: Doctor, mode: ConsultationMode, date: string): string[] {
+  const times = new Set<string>();
+  getHoursOn(doctor, mode, date).forEach(({ start, end }) => {
+    for (let minute = toMinutes(start); minute + SLOT_MINUTES <= toMinutes(end); minute += SLOT_MINUTES) {
+      times.add(fromMinutes(minute));
+    }
+  });
+  return [...times].sort();
+}
+
+// == Next Available Slot ==
+export interface NextSlot {
+  date: string;
+  time: string;
+  mode: ConsultationMode;
+}
+
+// First slot that hasn't started yet within the schedule horizon, for one mode or any mode.
+// Bookings aren't taken into account here; the booking flow only offers free slots.
+export function getNextSlot(
+  doctor: Doctor,
+  mode: ConsultationMode | null = null,
+  now: Date = new Date()
+): NextSlot | null {
+  const clinicNow = getClinicNow(now);
+  const modes: ConsultationMode[] = mode ? [mode] : ["video", "clinic"];
+  for (let day = 0; day < SCHEDULE_HORIZON_DAYS; day++) {
+    const date = addDays(clinicNow.date, day);
+    const candidates = modes
+      .flatMap((candidateMode) =>
+        getSlotTimes(doctor, candidateMode, date)
+          .filter((time) => day > 0 || time > clinicNow.time)
+          .slice(0, 1)
+          .map((time) => ({ date, time, mode: candidateMode }))
+      )
+      .sort((a, b) => a.time.localeCompare(b.time));
+    if (candidates.length > 0) return candidates[0];
+  }
+  return null;
+}
+
+export const isAvailableToday = (
+  doctor: Doctor,
+  mode: ConsultationMode | null = null,
+  now: Date = new Date()
+): boolean => getNextSlot(doctor, mode, now)?.date === getClinicNow(now).date;
+
+// Sortable position of a slot in time (minutes since the epoch, clinic-local)
+export const slotOrder = ({ date, time }: NextSlot): number => toUtcDate(date).getTime() / 60000 + toMinutes(time);
+
+// Words for the two nearest days and the Intl tag for any later date
+export interface SlotDayLabels {
+  today: string;
+  tomorrow: string;
+  locale: string;
+}
+
+const EN_SLOT_DAY_LABELS: SlotDayLabels = { today: "Today", tomorrow: "Tomorrow", locale: "en-IN" };
+
+// e.g. "Today, 14:30", "Tomorrow, 09:00", "Mon, 20 Oct, 09:00"
+export function formatNextSlot(
+  { date, time }: NextSlot,
+  now: Date = new Date(),
+  labels: SlotDayLabels = EN_SLOT_DAY_LABELS
+): string {
+  const today = getClinicNow(now).date;
+  const day =
+    date === today ? labels.today : date === addDays(today, 1) ? labels.tomorrow : formatSlotDate(date, labels.locale);
+  return `${day}, ${time}`;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { Doctor } from "@/types/doctor";
+import { normalizeDoctors } from "@/lib/doctors/normalize";
+import {
+  getHighlightRanges,
+  getSuggestionGroups,
+  scoreDoctor,
+  searchDoctors,
+  tokenizeQuery,
+} from "@/lib/doctors/search";
+
+const { doctors } = normalizeDoctors([
+  {
+    id: "1",
+    name: "Dr. Meera Nair",
+    specialities: [{ name: "Dermatologist" }],
+    fees: 700,
+    experience: 9,
+    languages: ["English", "Malayalam"],
+    clinic: { name: "SkinCare Clinic", address: { locality: "Indiranagar", city: "Bengaluru" } },
+  },
+  {
+    id: "2",
+    name: "Dr. Rahul Derma",
+    specialities: [{ name: "General Physician" }],
+    fees: 400,
+    experience: 4,
+    languages: ["Hindi"],
+    clinic: { name: "City Health", address: { locality: "Andheri", city: "Mumbai" } },
+  },
+  {
+    id: "3",
+    name: "Dr. Kavya Rao",
+    specialities: [{ name: "Dentist" }, { name: "Dermatologist" }],
+    fees: 500,
+    experience: 12,
+    languages: ["Kannada"],
+    clinic: { name: "Smile Dental", address: { locality: "Jayanagar", city: "Bengaluru" } },
+  },
+]);
+
+const ids = (list: Doctor[]) => list.map(({ id }) => id);
+
+describe("searchDoctors", () => {
+  it("tolerates typos in longer terms", () => {
+    expect(ids(searchDoctors(doctors, "dermatolgist"))).toEqual(["1", "3"]);
+    expect(ids(searchDoctors(doctors, "kanada"))).toEqual(["3"]);
+    expect(ids(searchDoctors(doctors, "bengaluur"))).toEqual(["1", "3"]);
+  });
+
+  it("matches short terms exactly only", () => {
+    expect(ids(searchDoctors(doctors, "rao"))).toEqual(["3"]);
+    expect(searchDoctors(doctors, "rak")).toEqual([]);
+  });
+
+  it("needs every term to match", () => {
+    expect(ids(searchDoctors(doctors, "dermatologist jayanagar"))).toEqual(["3"]);
+    expect(searchDoctors(doctors, "dermatologist mumbai")).toEqual([]);
+  });
+
+  it("ranks name matches above specialty matches, and exact matches above typos", () => {
+    // "Derma" is doctor 2's surname; the others only have it as the start of a specialty
+    expect(ids(searchDoctors(doctors, "derma"))).toEqual(["2", "1", "3"]);
+    expect(scoreDoctor(doctors[0], "meera")).toBeGreaterThan(scoreDoctor(doctors[0], "meeru"));
+  });
+
+  it("keeps the roster order for equal scores", () => {
+    expect(ids(searchDoctors(doctors, "bengaluru"))).toEqual(["1", "3"]);
+    expect(ids(searchDoctors([doctors[2], doctors[0]], "bengaluru"))).toEqual(["3", "1"]);
+  });
+
+  it("matches nobody for an empty or blank query", () => {
+    expect(tokenizeQuery("  ")).toEqual([]);
+    expect(scoreDoctor(doctors[0], "")).toBe(0);
+    expect(searchDoctors(doctors, "")).toEqual([]);
+    expect(searchDoctors(doctors, "   ")).toEqual([]);
+  });
+});
+
+describe("getHighlightRanges", () => {
+  it("marks exact and fuzzy matches, merged and in order", () => {
+    expect(getHighlightRanges("Dr. Meera Nair", "nair meera")).toEqual([
+      [4, 9],
+      [10, 14],
+    ]);
+    expect(getHighlightRanges("Dermatologist", "dermatolgist")).toEqual([[0, 13]]);
+    expect(getHighlightRanges("Dermatologist", "")).toEqual([]);
+  });
+});
+
+describe("getSuggestionGroups", () => {
+  it("groups doctors, specialties and clinics, leaving out empty groups", () => {
+    const groups = getSuggestionGroups(doctors, "derm");
+    expect(groups.map(({ kind }) => kind)).toEqual(["doctor", "specialty"]);
+    expect(groups[1].suggestions).toEqual([
+      { kind: "specialty", value: "Dermatologist", count: 2, id: "specialty-Dermatologist" },
+    ]);
+  });
+
+  it("suggests nothing for an empty query", () => {
+    expect(getSuggestionGroups(doctors, " ")).toEqual([]);
+  });
+});
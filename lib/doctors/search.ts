@@ -0,0 +1,232 @@
+// lib/doctors/search.ts
+// Typo-tolerant search across a doctor's name, specialties, clinic, locality/city and languages.
+// Every term in the query has to match at least one field; matches in more important fields rank higher.
+
+import type { Doctor } from "@/types/doctor";
+
+export type SearchField = "name" | "specialty" | "clinic" | "location" | "language";
+
+export interface FieldMatch {
+  field: SearchField;
+  value: string;
+}
+
+interface TermMatch {
+  score: number; // 0..1, higher is a closer match
+  start: number;
+  end: number;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  specialty: 2,
+  clinic: 1.5,
+  location: 1.5,
+  language: 1,
+};
+
+// Terms shorter than this only match exactly, otherwise "de" would match half the roster
+const MIN_FUZZY_LENGTH = 4;
+
+export const tokenizeQuery = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Values of every searchable field of a doctor
+export const getSearchFields = (doctor: Doctor): FieldMatch[] => {
+  const fields: FieldMatch[] = [{ field: "name", value: doctor.name }];
+  doctor.specialities.forEach((specObj) => fields.push({ field: "specialty", value: specObj.name }));
+  if (doctor.clinic) {
+    if (doctor.clinic.name) fields.push({ field: "clinic", value: doctor.clinic.name });
+    [doctor.clinic.address.locality, doctor.clinic.address.city]
+      .filter(Boolean)
+      .forEach((value) => fields.push({ field: "location", value }));
+  }
+  doctor.languages.forEach((language) => fields.push({ field: "language", value: language }));
+  return fields;
+};
+
+// Edit distance, giving up early once it exceeds `max`
+const levenshtein = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Best match of a single (lower-case) term inside `text`
+const matchTerm = (term: string, text: string): TermMatch | null => {
+  const lowerText = text.toLowerCase();
+
+  const index = lowerText.indexOf(term);
+  if (index !== -1) {
+    const atWordStart = index === 0 || /[^a-z0-9]/.test(lowerText[index - 1]);
+    const wholeWord = atWordStart && !/[a-z0-9]/.test(lowerText[index + term.length] ?? "");
+    return { score: wholeWord ? 1 : atWordStart ? 0.9 : 0.6, start: index, end: index + term.length };
+  }
+
+  if (term.length < MIN_FUZZY_LENGTH) return null;
+  const maxDistance = term.length >= 8 ? 2 : 1;
+
+  let best: TermMatch | null = null;
+  for (const word of lowerText.matchAll(/[a-z0-9]+/g)) {
+    const start = word.index ?? 0;
+    // Compare against the whole word and against its prefix, so "dermatolgy" and "dermatalo" both hit
+    const candidates = [word[0], word[0].slice(0, term.length), word[0].slice(0, term.length + 1)];
+    for (const candidate of candidates) {
+      if (candidate.length < MIN_FUZZY_LENGTH) continue;
+      const distance = levenshtein(term, candidate, maxDistance);
+      if (distance <= maxDistance) {
+        const score = 0.5 - 0.15 * distance;
+        if (!best || score > best.score) best = { score, start, end: start + candidate.length };
+      }
+    }
+  }
+  return best;
+};
+
+// Relevance of a single value for the query; every term has to match, 0 means "not a match"
+export function scoreText(text: string, query: string): number {
+  const terms = tokenizeQuery(query);
+  let total = 0;
+  for (const term of terms) {
+    const match = matchTerm(term, text);
+    if (!match) return 0;
+    total += match.score;
+  }
+  return total;
+}
+
+// Relevance of a doctor for the query; 0 means "not a match"
+export function scoreDoctor(doctor: Doctor, query: string): number {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return 0;
+
+  const fields = getSearchFields(doctor);
+  let total = 0;
+  for (const term of terms) {
+    let bestTermScore = 0;
+    for (const { field, value } of fields) {
+      const match = matchTerm(term, value);
+      if (match) bestTermScore = Math.max(bestTermScore, match.score * FIELD_WEIGHTS[field]);
+    }
+    if (bestTermScore === 0) return 0;
+    total += bestTermScore;
+  }
+  return total;
+}
+
+// Matching doctors, best first; ties keep their roster order
+export function searchDoctors(doctors: Doctor[], query: string): Doctor[] {
+  return doctors
+    .map((doctor, index) => ({ doctor, index, score: scoreDoctor(doctor, query) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ doctor }) => doctor);
+}
+
+// Field values in which at least one query term matched
+export function getMatchedFields(doctor: Doctor, query: string): FieldMatch[] {
+  const terms = tokenizeQuery(query);
+  return getSearchFields(doctor).filter(({ value }) => terms.some((term) => matchTerm(term, value)));
+}
+
+// Character ranges of `text` to highlight for the query, merged and in order
+export function getHighlightRanges(text: string, query: string): [number, number][] {
+  const ranges = tokenizeQuery(query)
+    .map((term) => matchTerm(term, text))
+    .filter((match): match is TermMatch => match !== null)
+    .map(({ start, end }): [number, number] => [start, end])
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  ranges.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  });
+  return merged;
+}
+
+// == Autocomplete ==
+export type SuggestionKind = "doctor" | "specialty" | "clinic";
+
+export interface Suggestion {
+  kind: SuggestionKind;
+  value: string; // Doctor name, specialty name or clinic name
+  id: string; // Unique within the suggestion list
+  count?: number; // Doctors with this specialty / at this clinic
+  detail?: string; // For doctors matched on something other than their name, e.g. "Kannada"
+}
+
+export interface SuggestionGroup {
+  kind: SuggestionKind; // Its heading is the "search.group.<kind>" message
+  suggestions: Suggestion[];
+}
+
+const rankValues = (counts: Map<string, number>, query: string, limit: number) =>
+  [...counts.entries()]
+    .map(([value, count]) => ({ value, count, score: scoreText(value, query) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, limit);
+
+// Suggestions grouped into Doctors, Specialties and Clinics; empty groups are left out
+export function getSuggestionGroups(doctors: Doctor[], query: string, limitPerGroup = 5): SuggestionGroup[] {
+  if (tokenizeQuery(query).length === 0) return [];
+
+  const specialtyCounts = new Map<string, number>();
+  const clinicCounts = new Map<string, number>();
+  doctors.forEach((doctor) => {
+    doctor.specialities.forEach(({ name }) => specialtyCounts.set(name, (specialtyCounts.get(name) ?? 0) + 1));
+    if (doctor.clinic?.name) {
+      clinicCounts.set(doctor.clinic.name, (clinicCounts.get(doctor.clinic.name) ?? 0) + 1);
+    }
+  });
+
+  const groups: SuggestionGroup[] = [
+    {
+      kind: "doctor",
+      suggestions: searchDoctors(doctors, query)
+        .slice(0, limitPerGroup)
+        .map((doctor) => ({
+          kind: "doctor",
+          value: doctor.name,
+          id: `doctor-${doctor.id}`,
+          detail: getMatchedFields(doctor, query)
+            .filter(({ field }) => field !== "name")
+            .slice(0, 2)
+            .map(({ value }) => value)
+            .join(" · ") || undefined,
+        })),
+    },
+    {
+      kind: "specialty",
+      suggestions: rankValues(specialtyCounts, query, limitPerGroup).map(({ value, count }) => ({
+        kind: "specialty",
+        value,
+        count,
+        id: `specialty-${value}`,
+      })),
+    },
+    {
+      kind: "clinic",
+      suggestions: rankValues(clinicCounts, query, limitPerGroup).map(({ value, count }) => ({
+        kind: "clinic",
+        value,
+        count,
+        id: `clinic-${value}`,
+      })),
+    },
+  ];
+  return groups.filter((group) => group.suggestions.length > 0);
+}
@@ -0,0 +1,60 @@
+// lib/doctors/seo.ts
+// What search engines see: page titles and descriptions that follow the listing's filters, absolute
+// URLs, and the specialty landing pages at /specialty/[slug].
+
+import type { Doctor } from "@/types/doctor";
+import { getFacets } from "@/lib/doctors/listing";
+import type { ListingQuery } from "@/lib/doctors/query";
+import type { Translate } from "@/lib/i18n/translate";
+
+export const DEFAULT_SITE_URL = "http://localhost:3000";
+
+// Public origin for canonical URLs, the sitemap and structured data; set SITE_URL when deploying
+export const getSiteUrl = (env: NodeJS.ProcessEnv = process.env): URL => new URL(env.SITE_URL || DEFAULT_SITE_URL);
+
+export const absoluteUrl = (path: string): string => new URL(path, getSiteUrl()).href;
+
+// == Specialty Landing Pages ==
+
+// "General Physician" -> "general-physician"
+export const specialtySlug = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const specialtyHref = (name: string) => `/specialty/${specialtySlug(name)}`;
+
+// Every specialty in the roster with its number of doctors, in the filter panel's order
+export const listSpecialties = (doctors: Doctor[]) => getFacets(doctors).specialties;
+
+// The specialty a slug stands for, spelled as in the roster; null when no doctor has it
+export const findSpecialty = (doctors: Doctor[], slug: string): string | null =>
+  listSpecialties(doctors).find(({ value }) => specialtySlug(value) === slug)?.value ?? null;
+
+// == Titles and Descriptions ==
+
+// e.g. "Dermatologist doctors in Koramangala, Bengaluru · Video Consult"; also the listing's heading
+export function listingTitle(
+  query: Pick<ListingQuery, "search" | "consultation" | "specialties" | "cities" | "localities">,
+  t: Translate
+): string {
+  const specialty = query.specialties.join(", ");
+  const place = [...query.localities, ...query.cities].join(", ");
+  const title =
+    specialty && place
+      ? t("seo.specialtyDoctorsIn", { specialty, place })
+      : specialty
+        ? t("seo.specialtyDoctors", { specialty })
+        : place
+          ? t("seo.doctorsIn", { place })
+          : t("seo.allDoctors");
+  const search = query.search.trim();
+  return [title, query.consultation && t(`consultation.${query.consultation}`), search && `“${search}”`]
+    .filter((part): part is string => !!part)
+    .join(" · ");
+}
+
+// `count`: the doctors matching the page's filters
+export const listingDescription = (title: string, count: number, t: Translate): string =>
+  t("seo.listingDescription", { title, count });
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SHORTLIST_SIZE,
+  parseShortlistParams,
+  parseStoredShortlist,
+  shortlistHref,
+  toggleShortlistId,
+} from "@/lib/doctors/shortlist";
+
+const fullList = Array.from({ length: MAX_SHORTLIST_SIZE }, (_, i) => String(1000 + i));
+
+describe("parseStoredShortlist", () => {
+  it("reads the stored ids, keeping the first of each", () => {
+    expect(parseStoredShortlist('["1004","1001","1004"]')).toEqual(["1004", "1001"]);
+  });
+
+  it("gives an empty shortlist when nothing is stored", () => {
+    expect(parseStoredShortlist(null)).toEqual([]);
+    expect(parseStoredShortlist("")).toEqual([]);
+  });
+
+  it("gives an empty shortlist for corrupted JSON", () => {
+    expect(parseStoredShortlist('["1001",')).toEqual([]);
+    expect(parseStoredShortlist("undefined")).toEqual([]);
+  });
+
+  it("gives an empty shortlist for JSON that isn't a list", () => {
+    expect(parseStoredShortlist('{"ids":["1001"]}')).toEqual([]);
+    expect(parseStoredShortlist('"1001"')).toEqual([]);
+    expect(parseStoredShortlist("null")).toEqual([]);
+  });
+
+  it("keeps numeric ids from older lists as strings", () => {
+    expect(parseStoredShortlist('[1001, "1004", 1001]')).toEqual(["1001", "1004"]);
+  });
+
+  it("drops entries that aren't ids", () => {
+    expect(parseStoredShortlist('["1001", "", "  ", null, {"id":"1002"}, 1.5, true]')).toEqual(["1001"]);
+  });
+
+  it("keeps at most MAX_SHORTLIST_SIZE ids", () => {
+    expect(parseStoredShortlist(JSON.stringify([...fullList, "9999"]))).toEqual(fullList);
+  });
+});
+
+describe("toggleShortlistId", () => {
+  it("adds a new id at the end and removes a listed one", () => {
+    expect(toggleShortlistId(["1001"], "1004")).toEqual(["1001", "1004"]);
+    expect(toggleShortlistId(["1001", "1004"], "1001")).toEqual(["1004"]);
+  });
+
+  it("leaves a full shortlist as it is, but still removes from it", () => {
+    expect(toggleShortlistId(fullList, "9999")).toBe(fullList);
+    expect(toggleShortlistId(fullList, "1000")).toHaveLength(MAX_SHORTLIST_SIZE - 1);
+  });
+});
+
+describe("share links", () => {
+  it("round-trip the ids", () => {
+    const href = shortlistHref(["1004", "1001", "1004"]);
+    expect(href).toBe("/shortlist?id=1004&id=1001");
+    expect(parseShortlistParams(new URLSearchParams(href.split("?")[1]))).toEqual(["1004", "1001"]);
+    expect(shortlistHref()).toBe("/shortlist");
+  });
+});
@@ -0,0 +1,80 @@
+// lib/doctors/shortlist.ts
+// The patient's shortlist of doctors: ids kept in localStorage, and a share link that carries them.
+//
+//   /shortlist               -> the shortlist saved in this browser
+//   /shortlist?id=1001&id=1004 -> a shared list
+
+export const SHORTLIST_STORAGE_KEY = "doctor-shortlist";
+export const SHORTLIST_PATH = "/shortlist";
+export const MAX_SHORTLIST_SIZE = 50;
+
+// Same tab notification; other tabs get the browser's "storage" event
+const SHORTLIST_CHANGE_EVENT = "doctor-shortlist-change";
+
+const EMPTY_SHORTLIST: string[] = [];
+
+// Keeps the first occurrence of each non-empty id, in order
+export const uniqueIds = (ids: unknown[]): string[] =>
+  [...new Set(ids.filter((id): id is string => typeof id === "string" && id.trim() !== ""))].slice(
+    0,
+    MAX_SHORTLIST_SIZE
+  );
+
+// Stored ids; anything unreadable counts as an empty shortlist. Lists saved before ids were strings
+// hold numbers, which are kept as their string form.
+export const parseStoredShortlist = (raw: string | null): string[] => {
+  try {
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(data)) return EMPTY_SHORTLIST;
+    return uniqueIds(data.map((id) => (typeof id === "number" && Number.isInteger(id) ? String(id) : id)));
+  } catch {
+    return EMPTY_SHORTLIST;
+  }
+};
+
+// Adds or removes one id; adding to a full shortlist leaves it as it is
+export const toggleShortlistId = (ids: string[], id: string): string[] =>
+  ids.includes(id) ? ids.filter((other) => other !== id) : ids.length < MAX_SHORTLIST_SIZE ? [...ids, id] : ids;
+
+// Parsed once per stored value, so every caller gets the same array until it changes
+let cachedRaw: string | null = null;
+let cachedIds: string[] = EMPTY_SHORTLIST;
+
+// The shortlist saved in this browser
+export function readShortlist(): string[] {
+  const raw = window.localStorage.getItem(SHORTLIST_STORAGE_KEY);
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cachedIds = parseStoredShortlist(raw);
+  }
+  return cachedIds;
+}
+
+export function writeShortlist(ids: string[]): void {
+  window.localStorage.setItem(SHORTLIST_STORAGE_KEY, JSON.stringify(uniqueIds(ids)));
+  window.dispatchEvent(new Event(SHORTLIST_CHANGE_EVENT));
+}
+
+// Calls `onChange` whenever the shortlist changes, in this tab or another one
+export function subscribeToShortlist(onChange: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SHORTLIST_STORAGE_KEY) onChange();
+  };
+  window.addEventListener("storage", handleStorage);
+  window.addEventListener(SHORTLIST_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+    window.removeEventListener(SHORTLIST_CHANGE_EVENT, onChange);
+  };
+}
+
+// Shareable link to a list of doctors
+export const shortlistHref = (ids: string[] = []): string => {
+  const params = new URLSearchParams();
+  uniqueIds(ids).forEach((id) => params.append("id", id));
+  const query = params.toString();
+  return query ? `${SHORTLIST_PATH}?${query}` : SHORTLIST_PATH;
+};
+
+// Ids of a shared list, from the `id` params of a shortlist link
+export const parseShortlistParams = (params: URLSearchParams): string[] => uniqueIds(params.getAll("id"));
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { Doctor } from "@/types/doctor";
+import { normalizeDoctors } from "@/lib/doctors/normalize";
+import { parseSortParam, serializeSort, sortCriterion, sortDoctors } from "@/lib/doctors/sort";
+
+const { doctors } = normalizeDoctors([
+  { id: "1", name: "Dr. Asha Rao", fees: 500, experience: 10, ratings: 4.5 },
+  { id: "2", name: "Dr. Ben Clarke", fees: 300, experience: 10 },
+  { id: "3", name: "Dr. Chitra Iyer", fees: 500, experience: 4, ratings: 4.8 },
+  { id: "4", name: "Chitra Iyer", fees: 500, experience: 4, ratings: 4.8 },
+]);
+
+const ids = (list: Doctor[]) => list.map(({ id }) => id);
+
+describe("sort param", () => {
+  it("round-trips, leaving default directions implicit", () => {
+    for (const value of ["fees", "experience:asc,fees", "rating,name:desc", "availability,distance:desc"]) {
+      const criteria = parseSortParam(value);
+      expect(criteria).not.toBeNull();
+      expect(serializeSort(criteria!)).toBe(value);
+    }
+    expect(serializeSort(parseSortParam("fees:asc,experience:desc")!)).toBe("fees,experience");
+  });
+
+  it("treats an empty param as no sort", () => {
+    expect(parseSortParam(null)).toEqual([]);
+    expect(parseSortParam("")).toEqual([]);
+    expect(serializeSort([])).toBe("");
+  });
+
+  it("rejects unknown keys and directions", () => {
+    expect(parseSortParam("price")).toBeNull();
+    expect(parseSortParam("fees,price")).toBeNull();
+    expect(parseSortParam("fees:up")).toBeNull();
+    expect(parseSortParam("fees:asc:desc")).toBeNull();
+    expect(parseSortParam("Fees")).toBeNull();
+  });
+
+  it("keeps the first position and direction of a repeated key", () => {
+    expect(parseSortParam("fees:desc,experience,fees")).toEqual([
+      sortCriterion("fees", "desc"),
+      sortCriterion("experience"),
+    ]);
+  });
+});
+
+describe("sortDoctors", () => {
+  it("applies each key in turn", () => {
+    const criteria = [sortCriterion("experience"), sortCriterion("fees")];
+    expect(ids(sortDoctors(doctors, criteria))).toEqual(["2", "1", "3", "4"]);
+  });
+
+  it("puts doctors without a value last in either direction", () => {
+    expect(ids(sortDoctors(doctors, [sortCriterion("rating")]))).toEqual(["3", "4", "1", "2"]);
+    expect(ids(sortDoctors(doctors, [sortCriterion("rating", "asc")]))).toEqual(["1", "3", "4", "2"]);
+  });
+
+  it("breaks ties by name without the Dr. prefix, then by id", () => {
+    const criteria = [sortCriterion("fees")];
+    expect(ids(sortDoctors(doctors, criteria))).toEqual(["2", "1", "3", "4"]);
+    expect(ids(sortDoctors([...doctors].reverse(), criteria))).toEqual(["2", "1", "3", "4"]);
+  });
+
+  it("skips keys that can't apply and leaves the order alone without any", () => {
+    expect(ids(sortDoctors(doctors, [sortCriterion("distance"), sortCriterion("relevance")]))).toEqual([
+      "1",
+      "2",
+      "3",
+      "4",
+    ]);
+    expect(sortDoctors(doctors, [])).not.toBe(doctors);
+  });
+});
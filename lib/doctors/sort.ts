@@ -0,0 +1,143 @@
+// lib/doctors/sort.ts
+// Multi-key sorting for the doctor directory, and its `sort` URL param encoding.
+//
+//   sort=fees                        -> fees in its default direction (ascending), as before
+//   sort=experience:desc,fees:asc    -> experience descending, then fees ascending
+//
+// Keys written without a direction use their default one, so old `?sort=fees` / `?sort=experience`
+// links keep working and serialize back to the same string.
+
+import type { ConsultationMode, Doctor } from "@/types/doctor";
+import { feeIn } from "@/lib/doctors/currency";
+import { doctorDistanceKm, GeoPoint } from "@/lib/doctors/geo";
+import { getNextSlot, slotOrder } from "@/lib/doctors/schedule";
+import { scoreDoctor } from "@/lib/doctors/search";
+
+export type SortKey = "relevance" | "fees" | "experience" | "distance" | "availability" | "name" | "rating";
+export type SortDirection = "asc" | "desc";
+
+export interface SortCriterion {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+// Context some keys need: relevance ranks against the search term, distance measures from `near`,
+// availability looks for the next slot in the selected consultation mode as of `now`
+export interface SortContext {
+  search?: string;
+  near?: GeoPoint | null;
+  consultation?: ConsultationMode | null;
+  currency?: string | null; // Fees are compared in this currency
+  now?: Date;
+}
+
+export const SORT_KEYS: SortKey[] = ["relevance", "fees", "experience", "distance", "availability", "name", "rating"];
+
+export const DEFAULT_SORT_DIRECTIONS: Record<SortKey, SortDirection> = {
+  relevance: "desc",
+  fees: "asc",
+  experience: "desc",
+  distance: "asc",
+  availability: "asc",
+  name: "asc",
+  rating: "desc",
+};
+
+export const isSortKey = (value: unknown): value is SortKey =>
+  SORT_KEYS.includes(value as SortKey);
+
+const isSortDirection = (value: unknown): value is SortDirection =>
+  value === "asc" || value === "desc";
+
+export const sortCriterion = (key: SortKey, direction = DEFAULT_SORT_DIRECTIONS[key]): SortCriterion => ({
+  key,
+  direction,
+});
+
+// Parses the `sort` param; null when any part is invalid. Repeated keys keep their first position.
+export function parseSortParam(value: string | null): SortCriterion[] | null {
+  if (value === null || value.trim() === "") return [];
+  const criteria: SortCriterion[] = [];
+  for (const part of value.split(",")) {
+    const [key, direction, ...rest] = part.trim().split(":");
+    if (!isSortKey(key) || rest.length > 0) return null;
+    if (direction !== undefined && !isSortDirection(direction)) return null;
+    if (!criteria.some((criterion) => criterion.key === key)) {
+      criteria.push(sortCriterion(key, direction));
+    }
+  }
+  return criteria;
+}
+
+// Canonical `sort` param; default directions are left implicit. Empty string for "no sort".
+export const serializeSort = (criteria: SortCriterion[]): string =>
+  criteria
+    .map(({ key, direction }) => (direction === DEFAULT_SORT_DIRECTIONS[key] ? key : `${key}:${direction}`))
+    .join(",");
+
+// Sort value of a doctor for one key, or null when it has none (e.g. no rating, no clinic location)
+const sortValue = (
+  doctor: Doctor,
+  key: SortKey,
+  context: SortContext,
+  relevance: Map<string, number>
+): number | string | null => {
+  switch (key) {
+    case "relevance":
+      return relevance.get(doctor.id) ?? null;
+    case "fees":
+      return feeIn(doctor.fee, context.currency);
+    case "experience":
+      return doctor.experience_years;
+    case "distance":
+      return context.near ? doctorDistanceKm(doctor, context.near) : null;
+    case "availability": {
+      const slot = getNextSlot(doctor, context.consultation ?? null, context.now);
+      return slot ? slotOrder(slot) : null;
+    }
+    case "name":
+      return doctor.name.replace(/^dr\.?\s+/i, "").toLowerCase();
+    case "rating":
+      return doctor.ratings ?? null;
+  }
+};
+
+// Keys that can't apply right now (no search term / no origin) are skipped
+export const isSortKeyActive = (key: SortKey, context: SortContext): boolean =>
+  key === "relevance" ? Boolean(context.search?.trim()) : key === "distance" ? Boolean(context.near) : true;
+
+// Returns a new array sorted by each criterion in turn. Doctors missing a value for a key go last
+// whatever the direction; remaining ties are broken by name, then id, so the order is deterministic.
+export function sortDoctors(doctors: Doctor[], criteria: SortCriterion[], context: SortContext = {}): Doctor[] {
+  const activeCriteria = criteria.filter(({ key }) => isSortKeyActive(key, context));
+  if (activeCriteria.length === 0) return [...doctors];
+
+  const search = context.search?.trim() ?? "";
+  const relevance = new Map(
+    activeCriteria.some(({ key }) => key === "relevance")
+      ? doctors.map((doctor) => [doctor.id, scoreDoctor(doctor, search)])
+      : []
+  );
+  const keys = [...activeCriteria, sortCriterion("name")];
+  const values = new Map(
+    doctors.map((doctor) => [doctor.id, keys.map(({ key }) => sortValue(doctor, key, context, relevance))])
+  );
+
+  return [...doctors].sort((a, b) => {
+    const valuesA = values.get(a.id) ?? [];
+    const valuesB = values.get(b.id) ?? [];
+    for (let i = 0; i < keys.length; i++) {
+      const valueA = valuesA[i];
+      const valueB = valuesB[i];
+      if (valueA === valueB) continue;
+      if (valueA === null) return 1;
+      if (valueB === null) return -1;
+      const order =
+        typeof valueA === "string" && typeof valueB === "string"
+          ? valueA.localeCompare(valueB)
+          : (valueA as number) - (valueB as number);
+      if (order !== 0) return keys[i].direction === "asc" ? order : -order;
+    }
+    return a.id.localeCompare(b.id);
+  });
+}
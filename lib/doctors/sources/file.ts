@@ -0,0 +1,16 @@
+// lib/doctors/sources/file.ts
+import { readFile } from "fs/promises";
+import path from "path";
+import type { DoctorSource } from "./types";
+
+// Roster stored as a JSON array on disk; relative paths resolve from the project root
+export function createFileSource(filePath: string): DoctorSource {
+  const absolutePath = path.resolve(process.cwd(), filePath);
+  return {
+    name: `file:${filePath}`,
+    async load() {
+      const contents = await readFile(absolutePath, "utf8");
+      return JSON.parse(contents);
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// lib/doctors/sources/fixture.ts
+import type { ApiDoctorRecord } from "@/types/doctor";
+import type { DoctorSource } from "./types";
+
+// Small hard-coded roster for local development and demos
+export const FIXTURE_DOCTORS: ApiDoctorRecord[] = [
+  {
+    id: "fixture-1",
+    name: "Dr. Test Physician",
+    name_initials: "TP",
+    photo: "",
+    doctor_introduction: "Fixture doctor offering both video and in-clinic consultations.",
+    specialities: [{ name: "General Physician" }],
+    fees: "₹ 300",
+    experience: "5 Years of experience",
+    languages: ["English", "Hindi"],
+    clinic: {
+      name: "Fixture Clinic",
+      address: {
+        locality: "Koramangala",
+        city: "Bengaluru",
+        address_line1: "1 Test Street",
+        location: "12.9352,77.6245",
+      },
+    },
+    video_consult: true,
+    in_clinic: true,
+  },
+  {
+    id: "fixture-2",
+    name: "Dr. Test Dermatologist",
+    name_initials: "TD",
+    photo: "",
+    doctor_introduction: "Fixture doctor offering video consultations only.",
+    specialities: [{ name: "Dermatologist" }],
+    fees: "₹ 700",
+    experience: "12 Years of experience",
+    languages: ["English", "Kannada"],
+    clinic: {
+      name: "Fixture Skin Centre",
+      address: {
+        locality: "Indiranagar",
+        city: "Bengaluru",
+        address_line1: "2 Test Street",
+        location: "12.9719,77.6412",
+      },
+    },
+    video_consult: true,
+    in_clinic: false,
+  },
+  {
+    id: "fixture-3",
+    name: "Dr. Test Dentist",
+    name_initials: "TD",
+    photo: "",
+    doctor_introduction: "Fixture doctor offering in-clinic consultations only.",
+    specialities: [{ name: "Dentist" }, { name: "Orthopaedic" }],
+    fees: "₹ 450",
+    experience: "8 Years of experience",
+    languages: ["English", "Tamil"],
+    clinic: {
+      name: "Fixture Dental Care",
+      address: {
+        locality: "Andheri East",
+        city: "Mumbai",
+        address_line1: "3 Test Street",
+        location: "19.1136,72.8697",
+      },
+    },
+    video_consult: false,
+    in_clinic: true,
+  },
+];
+
+export function createFixtureSource(doctors: ApiDoctorRecord[] = FIXTURE_DOCTORS): DoctorSource {
+  return {
+    name: "fixture",
+    async load() {
+      return doctors;
+    },
+  };
+}
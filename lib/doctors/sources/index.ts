@@ -0,0 +1,90 @@
+// lib/doctors/sources/index.ts
+// Picks the doctor data source for this environment (server-only), lays the admin console's edits
+// over it, and adds each doctor's review rating.
+//
+//   DOCTOR_SOURCE=remote   DOCTOR_SOURCE_URL=https://...   (default; falls back to the campus mock API)
+//   DOCTOR_SOURCE=file     DOCTOR_SOURCE_FILE=data/doctors.json
+//   DOCTOR_SOURCE=fixture
+
+import type { Doctor } from "@/types/doctor";
+import type { RosterEntry } from "@/types/roster";
+import { normalizeDoctor, normalizeDoctors } from "@/lib/doctors/normalize";
+import { getRosterStore } from "@/lib/roster/store";
+import { getReviewStore } from "@/lib/reviews/store";
+import { summarizeReviews, withReviewSummary } from "@/lib/reviews/summary";
+import type { DoctorSource } from "./types";
+import { createFileSource } from "./file";
+import { createFixtureSource } from "./fixture";
+import { createRemoteSource } from "./remote";
+
+export type { DoctorSource } from "./types";
+export { createFileSource, createFixtureSource, createRemoteSource };
+
+export const DEFAULT_REMOTE_URL = "https://srijandubey.github.io/campus-api-mock/SRM-C1-25.json";
+export const DEFAULT_ROSTER_FILE = "data/doctors.json";
+
+export function getDoctorSource(env: NodeJS.ProcessEnv = process.env): DoctorSource {
+  const kind = env.DOCTOR_SOURCE || "remote";
+  switch (kind) {
+    case "remote":
+      return createRemoteSource(env.DOCTOR_SOURCE_URL || DEFAULT_REMOTE_URL);
+    case "file":
+      return createFileSource(env.DOCTOR_SOURCE_FILE || DEFAULT_ROSTER_FILE);
+    case "fixture":
+      return createFixtureSource();
+    default:
+      throw new Error(`Unknown DOCTOR_SOURCE "${kind}". Expected "remote", "file" or "fixture".`);
+  }
+}
+
+// Full roster: the configured source with the admin console's records (lib/roster/store.ts) laid
+// over it, retired doctors included. Malformed records are skipped and logged.
+export async function loadRoster(): Promise<RosterEntry[]> {
+  const source = getDoctorSource();
+  const store = getRosterStore();
+  const [raw, records] = await Promise.all([source.load(), store.list()]);
+
+  const { doctors, rejected } = normalizeDoctors(raw);
+  rejected.forEach(({ index, id, issues }) => {
+    console.warn(`Skipped doctor record #${index}${id ? ` (id ${id})` : ""} from ${source.name}: ${issues.join("; ")}`);
+  });
+
+  const edits = new Map<string, RosterEntry>();
+  records.forEach((record) => {
+    const result = normalizeDoctor(record);
+    if (result.ok) {
+      edits.set(result.doctor.id, { doctor: result.doctor, retired: record.retired === true, updatedAt: record.updatedAt });
+    } else {
+      console.warn(`Skipped roster record ${record.id} from ${store.name}: ${result.issues.join("; ")}`);
+    }
+  });
+
+  const entries = doctors.map((doctor): RosterEntry => {
+    const edit = edits.get(doctor.id);
+    edits.delete(doctor.id);
+    return edit ?? { doctor, retired: false, updatedAt: null };
+  });
+  // Doctors added in the admin console come after the source's
+  return [...entries, ...edits.values()];
+}
+
+// One doctor of the full roster, retired or not; null when there's no such doctor
+export async function loadRosterEntry(id: string): Promise<RosterEntry | null> {
+  return (await loadRoster()).find(({ doctor }) => doctor.id === id) ?? null;
+}
+
+// Loads the doctors to list: the full roster without the retired ones, rated from their reviews.
+// The roster itself (and so the admin console) keeps the source's own ratings.
+export async function loadDoctors(): Promise<Doctor[]> {
+  const [roster, reviews] = await Promise.all([loadRoster(), getReviewStore().list()]);
+  const summaries = summarizeReviews(reviews);
+  return roster
+    .filter(({ retired }) => !retired)
+    .map(({ doctor }) => withReviewSummary(doctor, summaries.get(doctor.id)));
+}
+
+// Looks up a single doctor by id; null when the roster has no such doctor or they're retired
+export async function loadDoctor(id: string): Promise<Doctor | null> {
+  const doctors = await loadDoctors();
+  return doctors.find((doctor) => doctor.id === id) ?? null;
+}
@@ -0,0 +1,16 @@
+// lib/doctors/sources/remote.ts
+import type { DoctorSource } from "./types";
+
+// Roster served as a JSON array by an HTTP endpoint
+export function createRemoteSource(url: string): DoctorSource {
+  return {
+    name: `remote:${url}`,
+    async load() {
+      const response = await fetch(url, { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return response.json();
+    },
+  };
+}
@@ -0,0 +1,7 @@
+// lib/doctors/sources/types.ts
+export interface DoctorSource {
+  // Short label for logs and error messages, e.g. "remote:https://..."
+  name: string;
+  // Returns the raw roster; records are validated by normalizeDoctors() after loading
+  load(): Promise<unknown>;
+}
@@ -0,0 +1,65 @@
+// lib/doctors/structuredData.ts
+// schema.org JSON-LD for doctors (https://schema.org/Physician), embedded in the profile, listing and
+// specialty pages through app/components/JsonLd.tsx.
+
+import type { Doctor } from "@/types/doctor";
+import { getClinicPoint } from "@/lib/doctors/geo";
+import { formatMoney } from "@/lib/doctors/money";
+import { MAX_RATING, MIN_RATING } from "@/lib/reviews/validate";
+
+export type JsonLdObject = Record<string, unknown>;
+
+const SCHEMA_CONTEXT = "https://schema.org";
+
+// `url`: the doctor's absolute profile URL, which also identifies them across pages
+export function physicianJsonLd(doctor: Doctor, url: string): JsonLdObject {
+  const { clinic } = doctor;
+  const point = getClinicPoint(doctor);
+  return {
+    "@type": "Physician",
+    "@id": url,
+    url,
+    name: doctor.name,
+    ...(doctor.photo && { image: doctor.photo }),
+    ...(doctor.doctor_introduction && { description: doctor.doctor_introduction }),
+    medicalSpecialty: doctor.specialities.map(({ name }) => name),
+    ...(doctor.languages.length > 0 && { knowsLanguage: doctor.languages }),
+    priceRange: formatMoney(doctor.fee),
+    ...(clinic && {
+      address: {
+        "@type": "PostalAddress",
+        streetAddress: [clinic.address.address_line1, clinic.address.locality].filter(Boolean).join(", "),
+        addressLocality: clinic.address.city,
+      },
+    }),
+    ...(point && { geo: { "@type": "GeoCoordinates", latitude: point.lat, longitude: point.lng } }),
+    // Only ratings backed by patient reviews; a roster rating has no review count to go with it
+    ...(doctor.ratings !== undefined &&
+      doctor.review_count && {
+        aggregateRating: {
+          "@type": "AggregateRating",
+          ratingValue: doctor.ratings,
+          reviewCount: doctor.review_count,
+          bestRating: MAX_RATING,
+          worstRating: MIN_RATING,
+        },
+      }),
+  };
+}
+
+export const doctorJsonLd = (doctor: Doctor, url: string): JsonLdObject => ({
+  "@context": SCHEMA_CONTEXT,
+  ...physicianJsonLd(doctor, url),
+});
+
+// The doctors a page lists, in order; `urlOf` gives each one's absolute profile URL
+export const doctorListJsonLd = (doctors: Doctor[], urlOf: (doctor: Doctor) => string): JsonLdObject => ({
+  "@context": SCHEMA_CONTEXT,
+  "@type": "ItemList",
+  numberOfItems: doctors.length,
+  itemListElement: doctors.map((doctor, i) => ({
+    "@type": "ListItem",
+    position: i + 1,
+    item: physicianJsonLd(doctor, urlOf(doctor)),
+  })),
+});
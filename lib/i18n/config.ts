@@ -0,0 +1,32 @@
+// lib/i18n/config.ts
+// Supported locales and the shape of a message catalog.
+
+export const LOCALES = ["en", "hi"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Set by the locale switcher; read by the root layout
+export const LOCALE_COOKIE = "locale";
+
+// Each locale's name in its own language, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  hi: "हिन्दी",
+};
+
+// Regional tags for Intl formatting: Indian digit grouping and currency placement in both
+export const INTL_LOCALES: Record<Locale, string> = {
+  en: "en-IN",
+  hi: "hi-IN",
+};
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// == Messages ==
+// "{name}" placeholders are filled from the params; a plural message is picked by the `count` param
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
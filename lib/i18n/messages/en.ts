@@ -0,0 +1,294 @@
+// lib/i18n/messages/en.ts
+// English catalog; its keys are the message keys every other catalog has to provide.
+import type { Message } from "@/lib/i18n/config";
+
+const en = {
+  // == Shared ==
+  "common.clear": "Clear",
+  "common.notAvailable": "N/A",
+  "common.backToDoctors": "Back to doctors",
+  "common.language": "Language",
+  "consultation.video": "Video Consult",
+  "consultation.clinic": "In Clinic",
+  "slotMode.video": "Video",
+  "slotMode.clinic": "In clinic",
+  "slot.today": "Today",
+  "slot.tomorrow": "Tomorrow",
+  "doctor.photoAlt": "Dr. {name}",
+  "doctor.experienceYears": { one: "{count} year", other: "{count} years" },
+  "doctor.count": { one: "{count} doctor", other: "{count} doctors" },
+  "fee.listedAs": "Listed as {fees}",
+  "rating.stars": "★ {rating}",
+  "rating.reviewCount": { one: "{count} review", other: "{count} reviews" },
+
+  // == Site and page metadata ==
+  "site.name": "Doctor Directory",
+  "site.description":
+    "Find doctors by specialty, area and language, compare fees, experience and patient ratings, and book a video or clinic consultation.",
+  "seo.allDoctors": "Find a doctor",
+  "seo.specialtyDoctors": "{specialty} doctors",
+  "seo.doctorsIn": "Doctors in {place}",
+  "seo.specialtyDoctorsIn": "{specialty} doctors in {place}",
+  "seo.listingDescription": {
+    one: "{title}: {count} doctor. Compare fees, experience, patient ratings and the next free slot, and book online.",
+    other: "{title}: {count} doctors. Compare fees, experience, patient ratings and the next free slot, and book online.",
+  },
+
+  // == Sort ==
+  "sort.relevance": "Relevance",
+  "sort.fees": "Fees",
+  "sort.experience": "Experience",
+  "sort.distance": "Nearest First",
+  "sort.availability": "Next Available",
+  "sort.name": "Name",
+  "sort.rating": "Rating",
+  "sort.asc": "Ascending",
+  "sort.desc": "Descending",
+  "sort.reverse": "{key}: {direction}, click to reverse",
+  "sort.then": "then",
+  "sort.keyLabel": "Sort key {position}",
+  "sort.remove": "Remove {key} sort",
+  "sort.add": "+ Then by...",
+  "sort.clear": "Clear Sort",
+
+  // == Search ==
+  "search.placeholder": "Search by name, specialty, clinic, area or language...",
+  "search.label": "Search doctors",
+  "search.suggestions": "Search suggestions",
+  "search.recent": "Recent searches",
+  "search.group.doctor": "Doctors",
+  "search.group.specialty": "Specialties",
+  "search.group.clinic": "Clinics",
+  "search.allDoctors": "All doctors",
+  "search.sortedBy": "Sorted by {keys}",
+
+  // == Saved searches ==
+  "savedSearches.title": "Saved Searches",
+  "savedSearches.namePlaceholder": "Name this search",
+  "savedSearches.nameLabel": "Saved search name",
+  "savedSearches.save": "Save",
+  "savedSearches.renameLabel": "New name for {name}",
+  "savedSearches.ok": "OK",
+  "savedSearches.rename": "Rename",
+  "savedSearches.delete": "Delete",
+  "savedSearches.clearSaved": "Clear saved searches",
+  "savedSearches.clearRecent": "Clear search history ({count})",
+
+  // == Listing ==
+  "listing.shortlist": "My shortlist ({count})",
+  "listing.filters": "Filters",
+  "listing.loading": "Loading doctors...",
+  "listing.loadError": "Failed to load doctor data. {detail}",
+  "listing.tryLater": "Please try again later.",
+  "listing.noResults": "No doctors found matching your criteria.",
+  "listing.summary": {
+    one: "Showing {start}–{end} of {count} doctor",
+    other: "Showing {start}–{end} of {count} doctors",
+  },
+
+  // == Filters ==
+  "filters.consultation": "Consultation Mode",
+  "filters.clinic": "Clinic",
+  "filters.removeClinic": "Remove clinic filter {clinic}",
+  "filters.specialty": "Specialty",
+  "filters.clearSpecialties": "Clear Specialties",
+  "filters.city": "City",
+  "filters.locality": "Locality",
+  "filters.languages": "Languages",
+  "filters.fees": "Fees",
+  "filters.feeMin": "Min",
+  "filters.feeMinBound": "Min {amount}",
+  "filters.feeMax": "Max",
+  "filters.feeMaxBound": "Max {amount}",
+  "filters.feeMinLabel": "Minimum fee",
+  "filters.feeMaxLabel": "Maximum fee",
+  "filters.feeRangeInvalid": "Minimum fee is above the maximum.",
+  "filters.currency": "Show fees in",
+  "filters.ratesAsOf": "Converted at fixed rates from {date}",
+  "filters.experience": "Experience",
+  "filters.experienceLabel": "Minimum years of experience",
+  "filters.experienceAtLeast": { one: "At least {count} year", other: "At least {count} years" },
+  "filters.experienceAny": "Any experience",
+  "filters.rating": "Rating",
+  "filters.topRated": "{stars}★ & above",
+  "filters.availability": "Availability",
+  "filters.availableToday": "Available today",
+  "filters.sortBy": "Sort By",
+  "filters.useMyLocation": "Use my location",
+  "filters.nearLocalityLabel": "Sort by distance from a locality",
+  "filters.nearLocality": "Near a locality...",
+  "filters.orNearLocality": "Or near a locality...",
+  "filters.chooseLocation": "Choose a location to sort by distance.",
+  "filters.locationUnavailable": "Location is not available in this browser.",
+  "filters.locationFailed": "Couldn't get your location. Pick a locality instead.",
+
+  // == Pagination ==
+  "pagination.label": "Results pages",
+  "pagination.previous": "Previous",
+  "pagination.next": "Next",
+  "pagination.page": "Page {page}",
+
+  // == Doctor card ==
+  "card.experience": "Experience: {experience}",
+  "card.fees": "Fees: {fees}",
+  "card.distance": "{distance} km away",
+  "card.nextSlot": "Next slot: {slot} · {mode}",
+  "card.noSlots": "No slots in the next two weeks",
+  "card.viewProfile": "View profile",
+  "card.compare": "Compare",
+  "card.compareFull": "Remove a doctor from the comparison first",
+  "card.book": "Book",
+  "shortlist.add": "Add to shortlist",
+  "shortlist.remove": "Remove from shortlist",
+  "shortlist.addDoctor": "Add {name} to shortlist",
+  "shortlist.removeDoctor": "Remove {name} from shortlist",
+  "shortlist.full": "Your shortlist is full ({count} doctors). Remove one to add another.",
+  "shortlist.loading": "Loading shortlist...",
+  "shortlist.mine": "My shortlist",
+  "shortlist.shared": "Shared shortlist",
+  "shortlist.saveShared": "Save to my shortlist",
+  "shortlist.clear": "Clear shortlist",
+  "shortlist.overflow": {
+    one: "Your shortlist holds up to {max} doctors, so {count} of these won't be saved.",
+    other: "Your shortlist holds up to {max} doctors, so {count} of these won't be saved.",
+  },
+  "shortlist.share": "Share this list",
+  "shortlist.copy": "Copy link",
+  "shortlist.copied": "Copied!",
+  "shortlist.missing": { one: "{count} doctor is no longer listed.", other: "{count} doctors are no longer listed." },
+  "shortlist.sharedEmpty": "None of these doctors are listed any more.",
+  "shortlist.empty": "Your shortlist is empty. Tap the ♡ on a doctor to save them here.",
+
+  // == Export ==
+  "export.menu": "Export",
+  "export.csv": "CSV spreadsheet",
+  "export.json": "JSON",
+  "export.print": "Print view",
+  "export.exported": "Exported",
+  "export.filters": "Filters",
+  "export.noFilters": "None",
+  "export.doctors": "Doctors",
+  "export.filter.search": "Search: “{search}”",
+  "export.filter.consultation": "Consultation: {mode}",
+  "export.filter.specialties": "Specialties: {values}",
+  "export.filter.clinic": "Clinic: {clinic}",
+  "export.filter.city": "City: {values}",
+  "export.filter.locality": "Locality: {values}",
+  "export.filter.languages": "Languages: {values}",
+  "export.filter.fees": "Fees: {range}",
+  "export.filter.currency": "Currency: {currency}",
+  "export.filter.experience": { one: "Experience: {count}+ year", other: "Experience: {count}+ years" },
+  "export.filter.rating": "Rating: {rating}★ and above",
+  "export.filter.sort": "Sorted by: {keys}",
+  "export.filter.sortKey": "{key} ({direction})",
+  "export.filter.near": "Distance from: {point}",
+  "export.range.between": "{min}–{max}",
+  "export.range.atLeast": "{min} or more",
+  "export.range.atMost": "up to {max}",
+  "export.column.name": "Name",
+  "export.column.specialties": "Specialties",
+  "export.column.experience": "Experience",
+  "export.column.fees": "Fees",
+  "export.column.consultation": "Consultation",
+  "export.column.clinic": "Clinic",
+  "export.column.address": "Address",
+  "print.title": "Doctors",
+  "print.printed": "{doctors} · Printed {date}",
+  "print.filters": "Filters:",
+  "print.noFilters": "None (every doctor)",
+  "print.noResults": "No doctors match these filters.",
+  "print.button": "Print",
+
+  // == Compare ==
+  "compare.tray": "Compare {count} of {max}: {names}",
+  "compare.open": "Compare",
+  "compare.pickMore": "Pick at least {count} doctors",
+  "compare.title": "Compare doctors",
+  "compare.empty": "Pick at least {count} doctors from the listing to compare them side by side.",
+  "compare.remove": "Remove",
+  "compare.specialties": "Specialties",
+  "compare.experience": "Experience",
+  "compare.fees": "Fees",
+  "compare.consultation": "Consultation",
+  "compare.languages": "Languages",
+  "compare.clinic": "Clinic",
+  "compare.locality": "Locality",
+  "compare.rating": "Rating",
+  "compare.unrankedFees": "Fees in a currency without an exchange rate aren't ranked.",
+
+  // == Profile ==
+  "profile.experience": "Experience: {experience}",
+  "profile.fees": "Fees: {fees}",
+  "profile.about": "About",
+  "profile.noIntroduction": "No introduction available.",
+  "profile.languages": "Languages Spoken",
+  "profile.notSpecified": "Not specified.",
+  "profile.consultation": "Consultation",
+  "profile.available": "{mode} available",
+  "profile.notAvailable": "{mode} not available",
+  "profile.clinic": "Clinic",
+  "profile.clinicLogo": "{clinic} logo",
+  "profile.noClinic": "No clinic details available.",
+
+  // == Specialty pages ==
+  "specialty.filterLink": "Filter, sort and compare these doctors",
+  "specialty.others": "Other specialties",
+
+  // == Reviews ==
+  "reviews.title": "Patient Reviews",
+  "reviews.none": "No reviews yet.",
+  "reviews.byline": "{author} · {mode} · {date}",
+  "reviews.ratingLabel": "{rating} out of 5 stars",
+  "reviews.write": "Write a review",
+  "reviews.rating": "Your rating",
+  "reviews.starLabel": { one: "{count} star", other: "{count} stars" },
+  "reviews.mode": "Consultation",
+  "reviews.comment": "Comment",
+  "reviews.optional": "(optional)",
+  "reviews.name": "Your name",
+  "reviews.phone": "Phone",
+  "reviews.phoneNote": "Not shown on the site; one review per patient.",
+  "reviews.submit": "Post review",
+  "reviews.submitting": "Posting...",
+  "reviews.thanks": "Thanks! Your review is posted.",
+  "reviews.chooseRating": "Please choose a rating.",
+  "reviews.enterName": "Please enter your name.",
+  "reviews.enterPhone": "Please enter a valid phone number.",
+  "reviews.commentTooLong": {
+    one: "Please keep the comment to {count} character.",
+    other: "Please keep the comment to {count} characters.",
+  },
+  "reviews.failed": "Couldn't post the review. Please try again.",
+
+  // == Booking ==
+  "booking.title": "Book an appointment",
+  "booking.confirmedTitle": "Appointment confirmed",
+  "booking.close": "Close",
+  "booking.mode": "Consultation",
+  "booking.date": "Date",
+  "booking.time": "Time",
+  "booking.loadingSlots": "Loading slots...",
+  "booking.noSlots": "No slots left on this date. Try another day.",
+  "booking.continue": "Continue",
+  "booking.dateTime": "{date} at {time}",
+  "booking.name": "Patient name",
+  "booking.phone": "Phone",
+  "booking.email": "Email",
+  "booking.optional": "(optional)",
+  "booking.enterName": "Please enter the patient's name.",
+  "booking.enterPhone": "Please enter a valid phone number.",
+  "booking.enterEmail": "Please enter a valid email address.",
+  "booking.changeSlot": "Change slot",
+  "booking.submit": "Confirm booking",
+  "booking.submitting": "Booking...",
+  "booking.booked": "{name}, your appointment with {doctor} is booked.",
+  "booking.when": "When",
+  "booking.where": "Where",
+  "booking.reference": "Reference",
+  "booking.done": "Done",
+  "booking.failed": "Something went wrong. Please try again.",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+export default en;
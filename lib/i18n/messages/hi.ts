@@ -0,0 +1,285 @@
+// lib/i18n/messages/hi.ts
+// Hindi catalog. Hindi uses the same form for one and many years or doctors, so most plurals only need `other`.
+import type { Message } from "@/lib/i18n/config";
+import type { MessageKey } from "./en";
+
+const hi: Record<MessageKey, Message> = {
+  // == Shared ==
+  "common.clear": "हटाएँ",
+  "common.notAvailable": "उपलब्ध नहीं",
+  "common.backToDoctors": "डॉक्टरों की सूची पर वापस",
+  "common.language": "भाषा",
+  "consultation.video": "वीडियो परामर्श",
+  "consultation.clinic": "क्लिनिक में",
+  "slotMode.video": "वीडियो",
+  "slotMode.clinic": "क्लिनिक में",
+  "slot.today": "आज",
+  "slot.tomorrow": "कल",
+  "doctor.photoAlt": "डॉ. {name}",
+  "doctor.experienceYears": { other: "{count} वर्ष" },
+  "doctor.count": { other: "{count} डॉक्टर" },
+  "fee.listedAs": "सूची में: {fees}",
+  "rating.stars": "★ {rating}",
+  "rating.reviewCount": { other: "{count} समीक्षाएँ" },
+
+  // == Site and page metadata ==
+  "site.name": "डॉक्टर निर्देशिका",
+  "site.description":
+    "विशेषज्ञता, इलाके और भाषा के आधार पर डॉक्टर खोजें, फ़ीस, अनुभव और मरीज़ों की रेटिंग की तुलना करें, और वीडियो या क्लिनिक परामर्श बुक करें।",
+  "seo.allDoctors": "डॉक्टर खोजें",
+  "seo.specialtyDoctors": "{specialty} डॉक्टर",
+  "seo.doctorsIn": "{place} में डॉक्टर",
+  "seo.specialtyDoctorsIn": "{place} में {specialty} डॉक्टर",
+  "seo.listingDescription": {
+    other: "{title}: {count} डॉक्टर। फ़ीस, अनुभव, मरीज़ों की रेटिंग और अगला खाली स्लॉट देखें, और ऑनलाइन बुक करें।",
+  },
+
+  // == Sort ==
+  "sort.relevance": "प्रासंगिकता",
+  "sort.fees": "फ़ीस",
+  "sort.experience": "अनुभव",
+  "sort.distance": "सबसे नज़दीक पहले",
+  "sort.availability": "सबसे पहले उपलब्ध",
+  "sort.name": "नाम",
+  "sort.rating": "रेटिंग",
+  "sort.asc": "बढ़ते क्रम में",
+  "sort.desc": "घटते क्रम में",
+  "sort.reverse": "{key}: {direction}, उलटने के लिए क्लिक करें",
+  "sort.then": "फिर",
+  "sort.keyLabel": "क्रम का आधार {position}",
+  "sort.remove": "{key} के अनुसार क्रम हटाएँ",
+  "sort.add": "+ फिर इसके अनुसार...",
+  "sort.clear": "क्रम हटाएँ",
+
+  // == Search ==
+  "search.placeholder": "नाम, विशेषज्ञता, क्लिनिक, इलाके या भाषा से खोजें...",
+  "search.label": "डॉक्टर खोजें",
+  "search.suggestions": "खोज के सुझाव",
+  "search.recent": "हाल की खोजें",
+  "search.group.doctor": "डॉक्टर",
+  "search.group.specialty": "विशेषज्ञताएँ",
+  "search.group.clinic": "क्लिनिक",
+  "search.allDoctors": "सभी डॉक्टर",
+  "search.sortedBy": "{keys} के अनुसार क्रम",
+
+  // == Saved searches ==
+  "savedSearches.title": "सहेजी गई खोजें",
+  "savedSearches.namePlaceholder": "इस खोज को नाम दें",
+  "savedSearches.nameLabel": "सहेजी गई खोज का नाम",
+  "savedSearches.save": "सहेजें",
+  "savedSearches.renameLabel": "{name} का नया नाम",
+  "savedSearches.ok": "ठीक है",
+  "savedSearches.rename": "नाम बदलें",
+  "savedSearches.delete": "मिटाएँ",
+  "savedSearches.clearSaved": "सहेजी गई खोजें मिटाएँ",
+  "savedSearches.clearRecent": "खोज इतिहास मिटाएँ ({count})",
+
+  // == Listing ==
+  "listing.shortlist": "मेरी शॉर्टलिस्ट ({count})",
+  "listing.filters": "फ़िल्टर",
+  "listing.loading": "डॉक्टरों की सूची लोड हो रही है...",
+  "listing.loadError": "डॉक्टरों का डेटा लोड नहीं हो सका। {detail}",
+  "listing.tryLater": "कृपया कुछ देर बाद फिर से कोशिश करें।",
+  "listing.noResults": "आपकी शर्तों से मेल खाता कोई डॉक्टर नहीं मिला।",
+  "listing.summary": { other: "{count} में से {start}–{end} डॉक्टर दिखाए जा रहे हैं" },
+
+  // == Filters ==
+  "filters.consultation": "परामर्श का तरीका",
+  "filters.clinic": "क्लिनिक",
+  "filters.removeClinic": "क्लिनिक फ़िल्टर {clinic} हटाएँ",
+  "filters.specialty": "विशेषज्ञता",
+  "filters.clearSpecialties": "विशेषज्ञताएँ हटाएँ",
+  "filters.city": "शहर",
+  "filters.locality": "इलाका",
+  "filters.languages": "भाषाएँ",
+  "filters.fees": "फ़ीस",
+  "filters.feeMin": "न्यूनतम",
+  "filters.feeMinBound": "न्यूनतम {amount}",
+  "filters.feeMax": "अधिकतम",
+  "filters.feeMaxBound": "अधिकतम {amount}",
+  "filters.feeMinLabel": "न्यूनतम फ़ीस",
+  "filters.feeMaxLabel": "अधिकतम फ़ीस",
+  "filters.feeRangeInvalid": "न्यूनतम फ़ीस अधिकतम से ज़्यादा है।",
+  "filters.currency": "फ़ीस इस मुद्रा में दिखाएँ",
+  "filters.ratesAsOf": "{date} की तय विनिमय दरों पर बदली गई",
+  "filters.experience": "अनुभव",
+  "filters.experienceLabel": "कम से कम कितने वर्ष का अनुभव",
+  "filters.experienceAtLeast": { other: "कम से कम {count} वर्ष" },
+  "filters.experienceAny": "कोई भी अनुभव",
+  "filters.rating": "रेटिंग",
+  "filters.topRated": "{stars}★ और उससे ऊपर",
+  "filters.availability": "उपलब्धता",
+  "filters.availableToday": "आज उपलब्ध",
+  "filters.sortBy": "क्रम",
+  "filters.useMyLocation": "मेरी लोकेशन इस्तेमाल करें",
+  "filters.nearLocalityLabel": "किसी इलाके से दूरी के अनुसार क्रम",
+  "filters.nearLocality": "किसी इलाके के पास...",
+  "filters.orNearLocality": "या किसी इलाके के पास...",
+  "filters.chooseLocation": "दूरी के अनुसार क्रम के लिए कोई लोकेशन चुनें।",
+  "filters.locationUnavailable": "इस ब्राउज़र में लोकेशन उपलब्ध नहीं है।",
+  "filters.locationFailed": "आपकी लोकेशन नहीं मिल सकी। इसकी जगह कोई इलाका चुनें।",
+
+  // == Pagination ==
+  "pagination.label": "परिणामों के पेज",
+  "pagination.previous": "पिछला",
+  "pagination.next": "अगला",
+  "pagination.page": "पेज {page}",
+
+  // == Doctor card ==
+  "card.experience": "अनुभव: {experience}",
+  "card.fees": "फ़ीस: {fees}",
+  "card.distance": "{distance} किमी दूर",
+  "card.nextSlot": "अगला स्लॉट: {slot} · {mode}",
+  "card.noSlots": "अगले दो हफ़्तों में कोई स्लॉट नहीं",
+  "card.viewProfile": "प्रोफ़ाइल देखें",
+  "card.compare": "तुलना करें",
+  "card.compareFull": "पहले तुलना से किसी डॉक्टर को हटाएँ",
+  "card.book": "बुक करें",
+  "shortlist.add": "शॉर्टलिस्ट में जोड़ें",
+  "shortlist.remove": "शॉर्टलिस्ट से हटाएँ",
+  "shortlist.addDoctor": "{name} को शॉर्टलिस्ट में जोड़ें",
+  "shortlist.removeDoctor": "{name} को शॉर्टलिस्ट से हटाएँ",
+  "shortlist.full": "आपकी शॉर्टलिस्ट भर गई है ({count} डॉक्टर)। नया जोड़ने के लिए कोई एक हटाएँ।",
+  "shortlist.loading": "शॉर्टलिस्ट लोड हो रही है...",
+  "shortlist.mine": "मेरी शॉर्टलिस्ट",
+  "shortlist.shared": "साझा की गई शॉर्टलिस्ट",
+  "shortlist.saveShared": "मेरी शॉर्टलिस्ट में सहेजें",
+  "shortlist.clear": "शॉर्टलिस्ट खाली करें",
+  "shortlist.overflow": {
+    other: "आपकी शॉर्टलिस्ट में ज़्यादा से ज़्यादा {max} डॉक्टर रह सकते हैं, इसलिए इनमें से {count} सहेजे नहीं जाएँगे।",
+  },
+  "shortlist.share": "यह सूची साझा करें",
+  "shortlist.copy": "लिंक कॉपी करें",
+  "shortlist.copied": "कॉपी हो गया!",
+  "shortlist.missing": { other: "{count} डॉक्टर अब सूची में नहीं हैं।" },
+  "shortlist.sharedEmpty": "इनमें से कोई भी डॉक्टर अब सूची में नहीं है।",
+  "shortlist.empty": "आपकी शॉर्टलिस्ट खाली है। किसी डॉक्टर को यहाँ सहेजने के लिए उस पर ♡ दबाएँ।",
+
+  // == Export ==
+  "export.menu": "एक्सपोर्ट",
+  "export.csv": "CSV स्प्रेडशीट",
+  "export.json": "JSON",
+  "export.print": "प्रिंट व्यू",
+  "export.exported": "एक्सपोर्ट किया गया",
+  "export.filters": "फ़िल्टर",
+  "export.noFilters": "कोई नहीं",
+  "export.doctors": "डॉक्टर",
+  "export.filter.search": "खोज: “{search}”",
+  "export.filter.consultation": "परामर्श: {mode}",
+  "export.filter.specialties": "विशेषज्ञता: {values}",
+  "export.filter.clinic": "क्लिनिक: {clinic}",
+  "export.filter.city": "शहर: {values}",
+  "export.filter.locality": "इलाक़ा: {values}",
+  "export.filter.languages": "भाषाएँ: {values}",
+  "export.filter.fees": "फ़ीस: {range}",
+  "export.filter.currency": "मुद्रा: {currency}",
+  "export.filter.experience": { other: "अनुभव: {count}+ साल" },
+  "export.filter.rating": "रेटिंग: {rating}★ और ऊपर",
+  "export.filter.sort": "क्रम: {keys}",
+  "export.filter.sortKey": "{key} ({direction})",
+  "export.filter.near": "दूरी यहाँ से: {point}",
+  "export.range.between": "{min}–{max}",
+  "export.range.atLeast": "{min} या ज़्यादा",
+  "export.range.atMost": "{max} तक",
+  "export.column.name": "नाम",
+  "export.column.specialties": "विशेषज्ञता",
+  "export.column.experience": "अनुभव",
+  "export.column.fees": "फ़ीस",
+  "export.column.consultation": "परामर्श",
+  "export.column.clinic": "क्लिनिक",
+  "export.column.address": "पता",
+  "print.title": "डॉक्टर",
+  "print.printed": "{doctors} · {date} को प्रिंट किया गया",
+  "print.filters": "फ़िल्टर:",
+  "print.noFilters": "कोई नहीं (सभी डॉक्टर)",
+  "print.noResults": "इन फ़िल्टरों से कोई डॉक्टर नहीं मिला।",
+  "print.button": "प्रिंट करें",
+
+  // == Compare ==
+  "compare.tray": "तुलना ({count}/{max}): {names}",
+  "compare.open": "तुलना करें",
+  "compare.pickMore": "कम से कम {count} डॉक्टर चुनें",
+  "compare.title": "डॉक्टरों की तुलना",
+  "compare.empty": "साथ-साथ तुलना के लिए सूची से कम से कम {count} डॉक्टर चुनें।",
+  "compare.remove": "हटाएँ",
+  "compare.specialties": "विशेषज्ञताएँ",
+  "compare.experience": "अनुभव",
+  "compare.fees": "फ़ीस",
+  "compare.consultation": "परामर्श",
+  "compare.languages": "भाषाएँ",
+  "compare.clinic": "क्लिनिक",
+  "compare.locality": "इलाका",
+  "compare.rating": "रेटिंग",
+  "compare.unrankedFees": "जिस मुद्रा की विनिमय दर नहीं है, उसकी फ़ीस की तुलना नहीं की गई।",
+
+  // == Profile ==
+  "profile.experience": "अनुभव: {experience}",
+  "profile.fees": "फ़ीस: {fees}",
+  "profile.about": "परिचय",
+  "profile.noIntroduction": "परिचय उपलब्ध नहीं है।",
+  "profile.languages": "बोली जाने वाली भाषाएँ",
+  "profile.notSpecified": "नहीं बताया गया।",
+  "profile.consultation": "परामर्श",
+  "profile.available": "{mode} उपलब्ध",
+  "profile.notAvailable": "{mode} उपलब्ध नहीं",
+  "profile.clinic": "क्लिनिक",
+  "profile.clinicLogo": "{clinic} का लोगो",
+  "profile.noClinic": "क्लिनिक की जानकारी उपलब्ध नहीं है।",
+
+  // == Specialty pages ==
+  "specialty.filterLink": "इन डॉक्टरों को फ़िल्टर करें, क्रम बदलें और तुलना करें",
+  "specialty.others": "अन्य विशेषज्ञताएँ",
+
+  // == Reviews ==
+  "reviews.title": "मरीज़ों की समीक्षाएँ",
+  "reviews.none": "अभी कोई समीक्षा नहीं है।",
+  "reviews.byline": "{author} · {mode} · {date}",
+  "reviews.ratingLabel": "5 में से {rating} स्टार",
+  "reviews.write": "समीक्षा लिखें",
+  "reviews.rating": "आपकी रेटिंग",
+  "reviews.starLabel": { other: "{count} स्टार" },
+  "reviews.mode": "परामर्श",
+  "reviews.comment": "टिप्पणी",
+  "reviews.optional": "(वैकल्पिक)",
+  "reviews.name": "आपका नाम",
+  "reviews.phone": "फ़ोन",
+  "reviews.phoneNote": "साइट पर नहीं दिखाया जाता; हर मरीज़ एक समीक्षा दे सकता है।",
+  "reviews.submit": "समीक्षा भेजें",
+  "reviews.submitting": "भेजी जा रही है...",
+  "reviews.thanks": "धन्यवाद! आपकी समीक्षा प्रकाशित हो गई है।",
+  "reviews.chooseRating": "कृपया रेटिंग चुनें।",
+  "reviews.enterName": "कृपया अपना नाम लिखें।",
+  "reviews.enterPhone": "कृपया सही फ़ोन नंबर लिखें।",
+  "reviews.commentTooLong": { other: "कृपया टिप्पणी {count} अक्षरों तक रखें।" },
+  "reviews.failed": "समीक्षा नहीं भेजी जा सकी। कृपया फिर से कोशिश करें।",
+
+  // == Booking ==
+  "booking.title": "अपॉइंटमेंट बुक करें",
+  "booking.confirmedTitle": "अपॉइंटमेंट पक्का हो गया",
+  "booking.close": "बंद करें",
+  "booking.mode": "परामर्श",
+  "booking.date": "तारीख़",
+  "booking.time": "समय",
+  "booking.loadingSlots": "स्लॉट लोड हो रहे हैं...",
+  "booking.noSlots": "इस तारीख़ पर कोई स्लॉट खाली नहीं है। कोई और दिन चुनें।",
+  "booking.continue": "आगे बढ़ें",
+  "booking.dateTime": "{date}, {time} बजे",
+  "booking.name": "मरीज़ का नाम",
+  "booking.phone": "फ़ोन",
+  "booking.email": "ईमेल",
+  "booking.optional": "(वैकल्पिक)",
+  "booking.enterName": "कृपया मरीज़ का नाम लिखें।",
+  "booking.enterPhone": "कृपया सही फ़ोन नंबर लिखें।",
+  "booking.enterEmail": "कृपया सही ईमेल पता लिखें।",
+  "booking.changeSlot": "स्लॉट बदलें",
+  "booking.submit": "बुकिंग पक्की करें",
+  "booking.submitting": "बुक हो रहा है...",
+  "booking.booked": "{name}, {doctor} के साथ आपका अपॉइंटमेंट बुक हो गया है।",
+  "booking.when": "कब",
+  "booking.where": "कहाँ",
+  "booking.reference": "संदर्भ",
+  "booking.done": "ठीक है",
+  "booking.failed": "कुछ गड़बड़ हो गई। कृपया फिर से कोशिश करें।",
+};
+
+export default hi;
@@ -0,0 +1,12 @@
+// lib/i18n/server.ts
+// Active locale for server components, from the cookie the locale switcher sets.
+import { cookies } from "next/headers";
+import { DEFAULT_LOCALE, isLocale, Locale, LOCALE_COOKIE } from "@/lib/i18n/config";
+import { createI18n, I18n } from "@/lib/i18n/translate";
+
+export async function getLocale(): Promise<Locale> {
+  const value = (await cookies()).get(LOCALE_COOKIE)?.value;
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+export const getI18n = async (): Promise<I18n> => createI18n(await getLocale());
@@ -0,0 +1,72 @@
+// lib/i18n/translate.ts
+// Message lookup and locale-aware formatting. Works the same on the server (lib/i18n/server.ts) and in
+// client components (app/hooks/useI18n.ts).
+
+import type { Money } from "@/types/doctor";
+import { INTL_LOCALES, Locale, Message } from "@/lib/i18n/config";
+import { formatMoney } from "@/lib/doctors/money";
+import { CLINIC_TIME_ZONE, formatNextSlot, formatSlotDate, NextSlot } from "@/lib/doctors/schedule";
+import en, { MessageKey } from "@/lib/i18n/messages/en";
+import hi from "@/lib/i18n/messages/hi";
+
+export type { MessageKey };
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export interface I18n {
+  locale: Locale;
+  t: Translate;
+  formatNumber: (value: number) => string;
+  formatFee: (fee: Money) => string; // e.g. "₹500", always from the parsed amount
+  formatExperience: (years: number) => string; // e.g. "1 year", "13 years"
+  formatNextSlot: (slot: NextSlot) => string; // e.g. "Today, 14:30"
+  formatSlotDate: (date: string) => string; // YYYY-MM-DD, e.g. "Mon, 5 Oct"
+  formatDate: (timestamp: string) => string; // ISO timestamp, e.g. "3 Oct 2026" at the clinics
+}
+
+const CATALOGS: Record<Locale, Record<MessageKey, Message>> = { en, hi };
+
+// Replaces "{name}" with the param of that name; numbers are formatted for the locale
+const interpolate = (text: string, params: MessageParams, formatNumber: (value: number) => string): string =>
+  text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === "number" ? formatNumber(value) : value;
+  });
+
+export function createI18n(locale: Locale): I18n {
+  const intlLocale = INTL_LOCALES[locale];
+  const catalog = CATALOGS[locale];
+  const numberFormat = new Intl.NumberFormat(intlLocale);
+  const pluralRules = new Intl.PluralRules(intlLocale);
+  const formatNumber = (value: number) => numberFormat.format(value);
+  const dateFormat = new Intl.DateTimeFormat(intlLocale, {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: CLINIC_TIME_ZONE,
+  });
+
+  const t: Translate = (key, params = {}) => {
+    const message = catalog[key];
+    const text =
+      typeof message === "string"
+        ? message
+        : (message[pluralRules.select(Number(params.count ?? 0))] ?? message.other);
+    return interpolate(text, params, formatNumber);
+  };
+
+  return {
+    locale,
+    t,
+    formatNumber,
+    formatFee: (fee) => formatMoney(fee, intlLocale),
+    formatExperience: (years) => t("doctor.experienceYears", { count: years }),
+    formatNextSlot: (slot) =>
+      formatNextSlot(slot, new Date(), { today: t("slot.today"), tomorrow: t("slot.tomorrow"), locale: intlLocale }),
+    formatSlotDate: (date) => formatSlotDate(date, intlLocale),
+    formatDate: (timestamp) => dateFormat.format(new Date(timestamp)),
+  };
+}
@@ -0,0 +1,32 @@
+// lib/reviews/client.ts
+// Browser-side access to the review routes.
+import type { ModeratedReview, PublicReview, ReviewRequest } from "@/types/review";
+
+// Carries the HTTP status, so the review form can tell "already reviewed" (409) from bad input (400)
+export class ReviewApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ReviewApiError";
+  }
+}
+
+const request = async <T>(path: string, method: string, body: unknown): Promise<T> => {
+  const response = await fetch(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data: { error?: string } = await response.json().catch(() => ({}));
+    throw new ReviewApiError(data.error || `HTTP error! status: ${response.status}`, response.status);
+  }
+  return response.json();
+};
+
+export const submitReview = async ({ doctorId, ...body }: ReviewRequest): Promise<PublicReview> =>
+  (await request<{ review: PublicReview }>(`/api/doctors/${encodeURIComponent(doctorId)}/reviews`, "POST", body))
+    .review;
+
+// Moderation; see app/api/admin/reviews/[id]/route.ts
+export const setReviewHidden = async (id: string, hidden: boolean): Promise<ModeratedReview> =>
+  (await request<{ review: ModeratedReview }>(`/api/admin/reviews/${encodeURIComponent(id)}`, "PUT", { hidden })).review;
@@ -0,0 +1,65 @@
+// lib/reviews/store.ts
+// Where patient reviews are kept (server-only), in the JSON store from lib/storage/jsonStore.ts:
+//
+//   REVIEW_STORE=file     REVIEW_STORE_FILE=data/reviews.json   (default)
+//   REVIEW_STORE=memory   (lost on restart; handy for demos)
+
+import { randomUUID } from "crypto";
+import type { Review, ReviewRequest } from "@/types/review";
+import { getJsonStore, JsonStore } from "@/lib/storage/jsonStore";
+
+export const DEFAULT_REVIEWS_FILE = "data/reviews.json";
+
+export interface ReviewStore {
+  // Short label for logs, e.g. "file:data/reviews.json"
+  name: string;
+  list(doctorId?: string): Promise<Review[]>;
+  // Throws DuplicateReviewError when the patient has already reviewed the doctor, hidden or not
+  create(request: ReviewRequest): Promise<Review>;
+  // The updated review, or null when there's no review with that id
+  setHidden(id: string, hidden: boolean): Promise<Review | null>;
+}
+
+export class DuplicateReviewError extends Error {
+  constructor() {
+    super("You have already reviewed this doctor.");
+    this.name = "DuplicateReviewError";
+  }
+}
+
+// Checked by name: each route may get its own copy of this module, and with it its own error class
+export const isDuplicateReviewError = (e: unknown): e is DuplicateReviewError =>
+  e instanceof Error && e.name === "DuplicateReviewError";
+
+// Patients are told apart by phone number, whatever its formatting
+const patientKey = (phone: string) => phone.replace(/\D/g, "");
+
+const isSamePatient = (review: Review, request: ReviewRequest) =>
+  review.doctorId === request.doctorId && patientKey(review.patient.phone) === patientKey(request.patient.phone);
+
+// Reviews are checked and written one request at a time, so a double submit can't add two
+export function createReviewStore(store: JsonStore<Review>): ReviewStore {
+  return {
+    name: store.name,
+    list: async (doctorId) => {
+      const reviews = await store.read();
+      return doctorId ? reviews.filter((review) => review.doctorId === doctorId) : reviews;
+    },
+    create: (request) =>
+      store.update((reviews) => {
+        if (reviews.some((review) => isSamePatient(review, request))) throw new DuplicateReviewError();
+        const review: Review = { id: randomUUID(), ...request, createdAt: new Date().toISOString(), hidden: false };
+        return { items: [...reviews, review], result: review };
+      }),
+    setHidden: (id, hidden) =>
+      store.update((reviews) => {
+        const existing = reviews.find((review) => review.id === id);
+        if (!existing) return { result: null };
+        const updated: Review = { ...existing, hidden };
+        return { items: reviews.map((review) => (review.id === id ? updated : review)), result: updated };
+      }),
+  };
+}
+
+export const getReviewStore = (env: NodeJS.ProcessEnv = process.env): ReviewStore =>
+  createReviewStore(getJsonStore("REVIEW_STORE", DEFAULT_REVIEWS_FILE, env));
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { Review } from "@/types/review";
+import { authorName, moderatedReviews, publicReviews, summarizeReviews } from "@/lib/reviews/summary";
+
+const review = (id: string, doctorId: string, rating: number, createdAt: string, hidden = false): Review => ({
+  id,
+  doctorId,
+  rating,
+  comment: "",
+  mode: "video",
+  patient: { name: "Priya Sharma", phone: "9876543210" },
+  createdAt,
+  hidden,
+});
+
+const REVIEWS = [
+  review("r1", "1001", 5, "2026-10-01T10:00:00Z"),
+  review("r2", "1001", 4, "2026-10-03T10:00:00Z"),
+  review("r3", "1001", 4, "2026-10-02T10:00:00Z"),
+  review("r4", "1001", 1, "2026-10-04T10:00:00Z", true),
+  review("r5", "1002", 3, "2026-10-05T10:00:00Z"),
+  review("r6", "1003", 2, "2026-10-06T10:00:00Z", true),
+];
+
+describe("summarizeReviews", () => {
+  it("averages the visible ratings per doctor to one decimal", () => {
+    expect(summarizeReviews(REVIEWS)).toEqual(
+      new Map([
+        ["1001", { average: 4.3, count: 3 }],
+        ["1002", { average: 3, count: 1 }],
+      ])
+    );
+  });
+});
+
+describe("authorName", () => {
+  it("keeps the first name and the last initial", () => {
+    expect(authorName(" priya  kumari sharma ")).toBe("priya S.");
+    expect(authorName("Priya")).toBe("Priya");
+  });
+});
+
+describe("publicReviews", () => {
+  it("shows visible reviews newest first, without the patient's details", () => {
+    const reviews = publicReviews(REVIEWS.filter(({ doctorId }) => doctorId === "1001"));
+    expect(reviews.map(({ id }) => id)).toEqual(["r2", "r3", "r1"]);
+    expect(reviews[0]).toEqual({
+      id: "r2",
+      doctorId: "1001",
+      rating: 4,
+      comment: "",
+      mode: "video",
+      author: "Priya S.",
+      createdAt: "2026-10-03T10:00:00Z",
+    });
+  });
+});
+
+describe("moderatedReviews", () => {
+  it("lists every review newest first, without the phone number", () => {
+    const reviews = moderatedReviews(REVIEWS);
+    expect(reviews.map(({ id }) => id)).toEqual(["r6", "r5", "r4", "r2", "r3", "r1"]);
+    expect(reviews.every(({ patient }) => !("phone" in patient))).toBe(true);
+    expect(reviews[0]).toMatchObject({ hidden: true, patient: { name: "Priya Sharma" } });
+  });
+});
@@ -0,0 +1,56 @@
+// lib/reviews/summary.ts
+// Aggregate ratings and the public view of reviews. Hidden reviews are left out of both.
+
+import type { Doctor } from "@/types/doctor";
+import type { ModeratedReview, PublicReview, Review, ReviewSummary } from "@/types/review";
+
+const visible = (reviews: Review[]) => reviews.filter((review) => !review.hidden);
+
+// Average and count of the visible reviews, per doctor id; doctors without any are left out
+export function summarizeReviews(reviews: Review[]): Map<string, ReviewSummary> {
+  const totals = new Map<string, { sum: number; count: number }>();
+  visible(reviews).forEach(({ doctorId, rating }) => {
+    const total = totals.get(doctorId) ?? { sum: 0, count: 0 };
+    totals.set(doctorId, { sum: total.sum + rating, count: total.count + 1 });
+  });
+  return new Map(
+    [...totals].map(([doctorId, { sum, count }]) => [doctorId, { average: Math.round((sum / count) * 10) / 10, count }])
+  );
+}
+
+// The doctor with their review average as `ratings`; the roster's own rating stays when there are no reviews
+export const withReviewSummary = (doctor: Doctor, summary: ReviewSummary | undefined): Doctor =>
+  summary ? { ...doctor, ratings: summary.average, review_count: summary.count } : doctor;
+
+// "Priya Sharma" -> "Priya S."
+export const authorName = (name: string): string => {
+  const [first, ...rest] = name.trim().split(/\s+/);
+  const last = rest[rest.length - 1];
+  return last ? `${first} ${last[0].toUpperCase()}.` : first;
+};
+
+export const toPublicReview = ({ id, doctorId, rating, comment, mode, patient, createdAt }: Review): PublicReview => ({
+  id,
+  doctorId,
+  rating,
+  comment,
+  mode,
+  author: authorName(patient.name),
+  createdAt,
+});
+
+// The phone number only serves to tell patients apart, so it stays in the store
+export const toModeratedReview = ({ patient, ...review }: Review): ModeratedReview => ({
+  ...review,
+  patient: { name: patient.name },
+});
+
+// Every review, hidden ones included, newest first, for moderation
+export const moderatedReviews = (reviews: Review[]): ModeratedReview[] =>
+  [...reviews].sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(toModeratedReview);
+
+// Visible reviews, newest first, as the public API shows them
+export const publicReviews = (reviews: Review[]): PublicReview[] =>
+  visible(reviews)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toPublicReview);
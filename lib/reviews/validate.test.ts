@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { isRating, MAX_COMMENT_LENGTH, validateReviewRequest } from "@/lib/reviews/validate";
+
+const VALID = {
+  rating: 4,
+  comment: "  Very patient with my son.  ",
+  mode: "clinic",
+  patient: { name: " Priya Sharma ", phone: "+91 98765-43210" },
+};
+
+describe("validateReviewRequest", () => {
+  it("accepts a review and trims it", () => {
+    expect(validateReviewRequest("1001", VALID)).toEqual({
+      ok: true,
+      request: {
+        doctorId: "1001",
+        rating: 4,
+        comment: "Very patient with my son.",
+        mode: "clinic",
+        patient: { name: "Priya Sharma", phone: "+91 98765-43210" },
+      },
+    });
+  });
+
+  it("accepts a review without a comment", () => {
+    const result = validateReviewRequest("1001", { ...VALID, comment: undefined });
+    expect(result.ok && result.request.comment).toBe("");
+  });
+
+  it("drops fields the body shouldn't set", () => {
+    const result = validateReviewRequest("1001", { ...VALID, doctorId: "9999", hidden: true, id: "x" });
+    expect(result.ok && result.request).not.toHaveProperty("hidden");
+    expect(result.ok && result.request.doctorId).toBe("1001");
+  });
+
+  it("reports every problem", () => {
+    expect(validateReviewRequest("1001", { rating: 0, comment: "x".repeat(MAX_COMMENT_LENGTH + 1) })).toEqual({
+      ok: false,
+      issues: [
+        "rating must be a whole number of stars from 1 to 5",
+        'mode must be "video" or "clinic"',
+        `comment must be at most ${MAX_COMMENT_LENGTH} characters`,
+        "Patient name is required",
+        "Patient phone must be a valid phone number",
+      ],
+    });
+  });
+
+  it("rejects a body that isn't an object", () => {
+    expect(validateReviewRequest("1001", "5 stars")).toEqual({ ok: false, issues: ["Expected a JSON object"] });
+  });
+});
+
+describe("isRating", () => {
+  it("only accepts whole stars from 1 to 5", () => {
+    expect([1, 5].every(isRating)).toBe(true);
+    expect([0, 6, 4.5, "4", null].some(isRating)).toBe(false);
+  });
+});
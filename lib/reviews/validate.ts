@@ -0,0 +1,43 @@
+// lib/reviews/validate.ts
+// Runtime validation of reviews posted to /api/doctors/[id]/reviews.
+
+import type { ReviewRequest } from "@/types/review";
+import { isConsultationMode } from "@/lib/doctors/listing";
+import { isPhoneNumber } from "@/lib/bookings/validate";
+
+export type ValidateReviewResult = { ok: true; request: ReviewRequest } | { ok: false; issues: string[] };
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const MAX_COMMENT_LENGTH = 1000;
+const MAX_NAME_LENGTH = 100;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const trimmed = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+export const isRating = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= MIN_RATING && value <= MAX_RATING;
+
+// `doctorId` comes from the route, not the body
+export function validateReviewRequest(doctorId: string, body: unknown): ValidateReviewResult {
+  if (!isRecord(body)) return { ok: false, issues: ["Expected a JSON object"] };
+  const issues: string[] = [];
+
+  const { rating, mode } = body;
+  if (!isRating(rating)) issues.push(`rating must be a whole number of stars from ${MIN_RATING} to ${MAX_RATING}`);
+  if (!isConsultationMode(mode)) issues.push('mode must be "video" or "clinic"');
+  const comment = trimmed(body.comment);
+  if (comment.length > MAX_COMMENT_LENGTH) issues.push(`comment must be at most ${MAX_COMMENT_LENGTH} characters`);
+
+  const patient = isRecord(body.patient) ? body.patient : {};
+  const name = trimmed(patient.name);
+  const phone = trimmed(patient.phone);
+  if (!name) issues.push("Patient name is required");
+  else if (name.length > MAX_NAME_LENGTH) issues.push(`Patient name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (!isPhoneNumber(phone)) issues.push("Patient phone must be a valid phone number");
+
+  if (issues.length > 0 || !isRating(rating) || !isConsultationMode(mode)) return { ok: false, issues };
+  return { ok: true, request: { doctorId, rating, comment, mode, patient: { name, phone } } };
+}
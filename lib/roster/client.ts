@@ -0,0 +1,36 @@
+// lib/roster/client.ts
+// Browser-side access to the admin doctor routes.
+import type { DoctorInput, DoctorInputIssue, ImportRequest, ImportResponse, RosterEntry } from "@/types/roster";
+
+// Carries the HTTP status and, for invalid input (400), the issues per field
+export class RosterApiError extends Error {
+  constructor(message: string, readonly status: number, readonly issues: DoctorInputIssue[] = []) {
+    super(message);
+    this.name = "RosterApiError";
+  }
+}
+
+const request = async <T>(path: string, method: string, body?: unknown): Promise<T> => {
+  const response = await fetch(path, {
+    method,
+    ...(body !== undefined && { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }),
+  });
+  if (!response.ok) {
+    const data: { error?: string; issues?: DoctorInputIssue[] } = await response.json().catch(() => ({}));
+    throw new RosterApiError(data.error || `HTTP error! status: ${response.status}`, response.status, data.issues);
+  }
+  return response.json();
+};
+
+const entryRequest = async (path: string, method: string, body?: DoctorInput): Promise<RosterEntry> =>
+  (await request<{ entry: RosterEntry }>(path, method, body)).entry;
+
+const doctorPath = (id: string) => `/api/admin/doctors/${encodeURIComponent(id)}`;
+
+export const createDoctor = (input: DoctorInput) => entryRequest("/api/admin/doctors", "POST", input);
+export const updateDoctor = (id: string, input: DoctorInput) => entryRequest(doctorPath(id), "PUT", input);
+export const retireDoctor = (id: string) => entryRequest(doctorPath(id), "DELETE");
+export const restoreDoctor = (id: string) => entryRequest(`${doctorPath(id)}/restore`, "POST");
+
+// Dry run unless `commit` is set; see app/api/admin/import/route.ts
+export const importRoster = (body: ImportRequest) => request<ImportResponse>("/api/admin/import", "POST", body);
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import type { RosterEntry } from "@/types/roster";
+import { normalizeDoctor } from "@/lib/doctors/normalize";
+import { guessColumnMapping, ImportParseError, parseCsv, parseImportText, planImport } from "@/lib/roster/import";
+
+const entry = (record: Record<string, unknown>): RosterEntry => {
+  const result = normalizeDoctor(record);
+  if (!result.ok) throw new Error(result.issues.join("; "));
+  return { doctor: result.doctor, retired: false, updatedAt: null };
+};
+
+const ROSTER = [
+  entry({
+    id: "1001",
+    name: "Dr. Ananya Sharma",
+    specialities: [{ name: "General Physician" }],
+    fees: "₹ 500",
+    experience: "13 Years of experience",
+    languages: ["English"],
+    clinic: { name: "Sharma Family Clinic", address: { locality: "Koramangala", city: "Bengaluru" } },
+    video_consult: true,
+    in_clinic: true,
+  }),
+];
+
+const NOW = new Date("2026-10-19T10:00:00Z");
+
+const plan = (csv: string) => {
+  const table = parseImportText(csv, "csv");
+  return planImport(table, guessColumnMapping(table.columns), ROSTER, NOW);
+};
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes and newlines in fields", () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n"two\nlines",x,\n')).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["two\nlines", "x", ""],
+    ]);
+  });
+
+  it("skips blank lines", () => {
+    expect(parseCsv("a,b\n\n,\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("rejects a quoted field that is never closed", () => {
+    expect(() => parseCsv('a,"b')).toThrow(ImportParseError);
+  });
+});
+
+describe("parseImportText", () => {
+  it("detects semicolons and strips the byte order mark", () => {
+    expect(parseImportText("\uFEFFName;City\nDr. A;Pune", "csv")).toEqual({
+      columns: ["Name", "City"],
+      rows: [{ Name: "Dr. A", City: "Pune" }],
+    });
+  });
+
+  it("flattens JSON records into dotted columns and name lists", () => {
+    const table = parseImportText(
+      JSON.stringify([{ name: "Dr. A", specialities: [{ name: "Dentist" }], clinic: { address: { city: "Pune" } } }]),
+      "json"
+    );
+    expect(table.rows).toEqual([{ name: "Dr. A", specialities: ["Dentist"], "clinic.address.city": "Pune" }]);
+  });
+
+  it("explains files it can't import", () => {
+    expect(() => parseImportText("{}", "json")).toThrow("array of doctor objects");
+    expect(() => parseImportText("not json", "json")).toThrow("not valid JSON");
+    expect(() => parseImportText("Name,City\n", "csv")).toThrow("no rows");
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("matches field names, labels and aliases, ignoring case and punctuation", () => {
+    expect(guessColumnMapping(["Doctor Name", "Specialty", "Consultation Fee", "clinic.address.city", "Notes"])).toEqual({
+      "Doctor Name": "name",
+      Specialty: "specialities",
+      "Consultation Fee": "fees",
+      "clinic.address.city": "clinic.address.city",
+      Notes: null,
+    });
+  });
+});
+
+describe("planImport", () => {
+  const HEADER = "Id,Name,Specialty,Fees,Experience,Video,Clinic visit,Photo";
+
+  it("adds new doctors with the next free id", () => {
+    const { rows, records } = plan(`${HEADER}\n,Dr. Kiran Rao,Dentist; Orthodontist,₹ 700,8 years,yes,no,`);
+    expect(rows).toMatchObject([{ row: 1, status: "new", id: "1002", name: "Dr. Kiran Rao" }]);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      id: "1002",
+      specialities: [{ name: "Dentist" }, { name: "Orthodontist" }],
+      video_consult: true,
+      in_clinic: false,
+      updatedAt: NOW.toISOString(),
+    });
+  });
+
+  it("updates a doctor by id, keeping the values of empty cells", () => {
+    const { rows, records } = plan(`${HEADER}\n1001,,,₹ 600,,,,`);
+    expect(rows).toMatchObject([{ status: "changed", id: "1001", changes: ["Fees"] }]);
+    expect(records[0]).toMatchObject({ id: "1001", name: "Dr. Ananya Sharma", fees: "₹ 600", in_clinic: true });
+  });
+
+  it("saves nothing for a row that changes nothing", () => {
+    const { rows, records } = plan(`${HEADER}\n1001,,,₹ 500,,,,`);
+    expect(rows).toMatchObject([{ status: "unchanged" }]);
+    expect(records).toEqual([]);
+  });
+
+  it("skips rows that repeat another row or an existing doctor", () => {
+    const { rows, records } = plan(
+      "Name,Specialty,Fees,Experience,Video,Clinic visit,Clinic,Locality,City\n" +
+        "Dr. Meera Iyer,Dentist,₹ 400,5 years,yes,no,,,\n" +
+        "meera iyer,Dentist,₹ 450,6 years,yes,no,,,\n" +
+        "Ananya Sharma,Dentist,₹ 400,5 years,yes,yes,Sharma Family Clinic,Koramangala,Bengaluru"
+    );
+    expect(rows.map(({ status, duplicateOf }) => [status, duplicateOf])).toEqual([
+      ["new", undefined],
+      ["duplicate", "row 1 (same name and clinic)"],
+      ["duplicate", "doctor 1001 (same name and clinic)"],
+    ]);
+    expect(records).toHaveLength(1);
+  });
+
+  it("reports invalid rows with the form's messages", () => {
+    const { rows, records } = plan(
+      `${HEADER}\n` +
+        ",Dr. No Fee,Dentist,,5 years,yes,no,\n" +
+        ",Dr. Bad Flag,Dentist,₹ 400,5 years,maybe,no,\n" +
+        "bad id!,Dr. Bad Id,Dentist,₹ 400,5 years,yes,no,"
+    );
+    expect(rows.map(({ status }) => status)).toEqual(["invalid", "invalid", "invalid"]);
+    expect(rows[0].issues).toContain("Fees are required");
+    expect(rows[1].issues).toContain('Video: "maybe" is not yes or no');
+    expect(rows[2].issues).toContain("id may only use letters, digits, - and _ (up to 40)");
+    expect(records).toEqual([]);
+  });
+
+  it("only accepts photos on the allowed image hosts", () => {
+    const { rows } = plan(
+      `${HEADER}\n` +
+        ",Dr. Remote Photo,Dentist,₹ 400,5 years,yes,no,https://example.com/a.jpg\n" +
+        ",Dr. Hosted Photo,Dentist,₹ 400,5 years,yes,no,https://placehold.co/200"
+    );
+    expect(rows.map(({ status }) => status)).toEqual(["invalid", "new"]);
+    expect(rows[0].issues[0]).toMatch(/^Photo must be an http\(s\) URL on /);
+  });
+});
@@ -0,0 +1,344 @@
+// lib/roster/import.ts
+// Bulk roster import: parses a CSV or JSON roster, maps its columns onto doctor fields and plans
+// what each row would do to the roster. Nothing here writes; /api/admin/import saves the plan.
+//
+// Each row goes through the admin form's validation. A row whose id matches a doctor updates that
+// doctor, and its empty cells keep the current values. Rows that repeat an earlier row, or a doctor
+// already in the roster, by id or by name + clinic are reported as duplicates and skipped.
+
+import type {
+  DoctorInput,
+  ImportColumnMapping,
+  ImportField,
+  ImportFormat,
+  ImportRowResult,
+  ImportRowStatus,
+  RosterEntry,
+  RosterRecord,
+} from "@/types/roster";
+import { EMPTY_DOCTOR_INPUT, fromDoctorInput, nextDoctorId, toDoctorInput } from "@/lib/roster/records";
+import { validateDoctorInput } from "@/lib/roster/validate";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export class ImportParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportParseError";
+  }
+}
+
+// Column names in file order, and one object per data row keyed by column
+export interface ImportTable {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+// == Parsing ==
+
+// RFC 4180: quoted fields may hold delimiters, newlines and "" for a quote
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      rows.push([...row, field]);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new ImportParseError("The CSV has a quoted field that is never closed.");
+  if (field !== "" || row.length > 0) rows.push([...row, field]);
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+// Spreadsheets export with commas, semicolons or tabs; whichever the header row uses most wins
+const detectDelimiter = (headerLine: string): string =>
+  [",", ";", "\t"].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Nested objects become dotted columns ("clinic.address.city"); [{ name }] lists become name lists
+function flattenRecord(record: Record<string, unknown>, prefix = ""): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).flatMap(([key, value]) => {
+      const column = `${prefix}${key}`;
+      if (isPlainObject(value)) return Object.entries(flattenRecord(value, `${column}.`));
+      if (Array.isArray(value)) {
+        return [[column, value.map((item) => (isPlainObject(item) && "name" in item ? item.name : item))]];
+      }
+      return [[column, value]];
+    })
+  );
+}
+
+export function parseImportText(text: string, format: ImportFormat): ImportTable {
+  const content = text.replace(/^\uFEFF/, ""); // Excel's byte order mark
+  let table: ImportTable;
+  if (format === "csv") {
+    const [header, ...lines] = parseCsv(content, detectDelimiter(content.split(/\r?\n/, 1)[0]));
+    if (!header) throw new ImportParseError("The CSV is empty.");
+    const columns = header.map((column) => column.trim());
+    table = {
+      columns,
+      rows: lines.map((cells) => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""]))),
+    };
+  } else {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new ImportParseError("The file is not valid JSON.");
+    }
+    if (!Array.isArray(data) || !data.every(isPlainObject)) {
+      throw new ImportParseError("The JSON must be an array of doctor objects.");
+    }
+    const rows = data.map((record) => flattenRecord(record));
+    table = { columns: [...new Set(rows.flatMap((row) => Object.keys(row)))], rows };
+  }
+  if (table.rows.length === 0) throw new ImportParseError("The file has no rows to import.");
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportParseError(`The file has ${table.rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time.`);
+  }
+  return table;
+}
+
+// == Column Mapping ==
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  id: "Id",
+  name: "Name",
+  name_initials: "Initials",
+  photo: "Photo URL",
+  doctor_introduction: "Introduction",
+  specialities: "Specialties",
+  fees: "Fees",
+  experience: "Experience",
+  languages: "Languages",
+  "clinic.name": "Clinic name",
+  "clinic.address.address_line1": "Clinic address",
+  "clinic.address.locality": "Locality",
+  "clinic.address.city": "City",
+  "clinic.address.location": "Location",
+  "clinic.address.logo_url": "Clinic logo URL",
+  video_consult: "Video consult",
+  in_clinic: "In clinic",
+};
+
+export const IMPORT_FIELDS = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+
+export const isImportField = (value: unknown): value is ImportField => IMPORT_FIELDS.includes(value as ImportField);
+
+const LIST_FIELDS: ImportField[] = ["specialities", "languages"];
+const FLAG_FIELDS: ImportField[] = ["video_consult", "in_clinic"];
+
+const columnKey = (column: string) => column.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Other names spreadsheets use for each field, compared without case, spaces or punctuation.
+// The field's own name (and its label) always matches too.
+const FIELD_ALIASES: Partial<Record<ImportField, string[]>> = {
+  id: ["doctorid"],
+  name: ["doctor", "doctorname", "fullname"],
+  name_initials: ["initials"],
+  photo: ["photo", "image", "profileimg", "profileimage"],
+  doctor_introduction: ["introduction", "about", "bio"],
+  specialities: ["speciality", "specialty", "specialties"],
+  fees: ["fee", "consultationfee", "price"],
+  experience: ["experienceyears", "years", "yearsofexperience"],
+  languages: ["language", "languagesspoken"],
+  "clinic.name": ["clinic"],
+  "clinic.address.address_line1": ["address", "addressline1", "clinicaddress"],
+  "clinic.address.locality": ["locality", "area", "neighbourhood", "neighborhood"],
+  "clinic.address.city": ["city", "town"],
+  "clinic.address.location": ["location", "latlng", "coordinates"],
+  "clinic.address.logo_url": ["logo", "logourl"],
+  video_consult: ["video", "videoconsultation", "availabilityvideoconsult"],
+  in_clinic: ["clinicvisit", "inclinicconsultation", "availabilityinclinic"],
+};
+
+// Best guess at each column's field; columns nothing matches are ignored
+export function guessColumnMapping(columns: string[]): ImportColumnMapping {
+  const byKey = new Map<string, ImportField>();
+  IMPORT_FIELDS.forEach((field) =>
+    [field, IMPORT_FIELD_LABELS[field], ...(FIELD_ALIASES[field] ?? [])].forEach((name) =>
+      byKey.set(columnKey(name), field)
+    )
+  );
+  return Object.fromEntries(columns.map((column) => [column, byKey.get(columnKey(column)) ?? null]));
+}
+
+// == Cells ==
+
+const cellText = (value: unknown): string => {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return value.map(cellText).filter(Boolean).join(", ");
+  return "";
+};
+
+// "Cardiologist; General Physician", "English, Hindi" or a JSON array
+const cellList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(cellText) : cellText(value).split(/[;,|]/)).map((item) => item.trim()).filter(Boolean);
+
+const TRUE_WORDS = ["true", "yes", "y", "1"];
+const FALSE_WORDS = ["false", "no", "n", "0"];
+
+// true / false, or null for an empty cell; undefined when it's neither
+const cellFlag = (value: unknown): boolean | null | undefined => {
+  const text = cellText(value).toLowerCase();
+  if (!text) return null;
+  if (TRUE_WORDS.includes(text)) return true;
+  if (FALSE_WORDS.includes(text)) return false;
+  return undefined;
+};
+
+// A row's values laid over `base` (the doctor it updates, or an empty form); empty cells keep the base value
+export function rowToDoctorInput(
+  row: Record<string, unknown>,
+  mapping: ImportColumnMapping,
+  base: DoctorInput
+): { input: DoctorInput; issues: string[] } {
+  const input: DoctorInput = { ...base, clinic: base.clinic && { ...base.clinic, address: { ...base.clinic.address } } };
+  const issues: string[] = [];
+  const lists: Partial<Record<"specialities" | "languages", string[]>> = {};
+
+  Object.entries(mapping).forEach(([column, field]) => {
+    if (!field || field === "id") return;
+    const value = row[column];
+    if (LIST_FIELDS.includes(field)) {
+      // Several columns may feed one list, e.g. "Specialty 1" and "Specialty 2"
+      const key = field as "specialities" | "languages";
+      const items = cellList(value);
+      if (items.length > 0) lists[key] = [...(lists[key] ?? []), ...items];
+    } else if (FLAG_FIELDS.includes(field)) {
+      const flag = cellFlag(value);
+      if (flag === undefined) issues.push(`${column}: "${cellText(value)}" is not yes or no`);
+      else if (flag !== null) input[field as "video_consult" | "in_clinic"] = flag;
+    } else {
+      const text = cellText(value);
+      if (!text) return;
+      if (field.startsWith("clinic.")) {
+        const clinic = input.clinic ?? { name: "", address: { address_line1: "", locality: "", city: "", location: "" } };
+        if (field === "clinic.name") clinic.name = text;
+        else clinic.address[field.slice("clinic.address.".length) as keyof typeof clinic.address] = text;
+        input.clinic = clinic;
+      } else {
+        input[field as "name" | "name_initials" | "photo" | "doctor_introduction" | "fees" | "experience"] = text;
+      }
+    }
+  });
+  Object.assign(input, lists);
+  return { input, issues };
+}
+
+// == Planning ==
+
+const ID_PATTERN = /^[\w-]{1,40}$/;
+
+// Name + clinic, ignoring case and a "Dr." prefix
+const doctorKey = (name: string, clinicName: string | undefined) =>
+  `${name.toLowerCase().replace(/^dr\.?\s+/, "").replace(/\s+/g, " ")}|${(clinicName ?? "").toLowerCase().trim()}`;
+
+// JSON with object keys sorted and undefined values left out, so equal values compare equal
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, inner) =>
+    isPlainObject(inner) ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b))) : inner
+  );
+
+const changedFields = (before: DoctorInput, after: DoctorInput): string[] =>
+  (Object.keys(after) as (keyof DoctorInput)[])
+    .filter((field) => canonicalJson(before[field]) !== canonicalJson(after[field]))
+    .map((field) => (field === "clinic" ? "Clinic" : IMPORT_FIELD_LABELS[field]));
+
+export interface ImportPlan {
+  rows: ImportRowResult[];
+  records: RosterRecord[]; // What committing saves: the new and changed rows
+}
+
+export const countImportRows = (rows: ImportRowResult[]): Record<ImportRowStatus, number> => {
+  const counts: Record<ImportRowStatus, number> = { new: 0, changed: 0, unchanged: 0, duplicate: 0, invalid: 0 };
+  rows.forEach(({ status }) => counts[status]++);
+  return counts;
+};
+
+export function planImport(table: ImportTable, mapping: ImportColumnMapping, roster: RosterEntry[], now = new Date()): ImportPlan {
+  const byId = new Map(roster.map((entry) => [entry.doctor.id, entry]));
+  const rosterKeys = new Map(roster.map(({ doctor }) => [doctorKey(doctor.name, doctor.clinic?.name), doctor.id]));
+  const idColumns = Object.keys(mapping).filter((column) => mapping[column] === "id");
+  const usedIds = roster.map(({ doctor }) => doctor.id);
+  const seenIds = new Map<string, number>(); // id -> row
+  const seenKeys = new Map<string, number>(); // name + clinic -> row
+
+  const rows: ImportRowResult[] = [];
+  const records: RosterRecord[] = [];
+
+  table.rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const requestedId = idColumns.map((column) => cellText(row[column])).find(Boolean) ?? null;
+    const existing = requestedId ? byId.get(requestedId) : undefined;
+    const { input, issues } = rowToDoctorInput(row, mapping, existing ? toDoctorInput(existing.doctor) : EMPTY_DOCTOR_INPUT);
+    const result = validateDoctorInput(input);
+    const base = { row: rowNumber, id: requestedId, name: input.name, changes: [] as string[] };
+
+    if (requestedId && !ID_PATTERN.test(requestedId)) issues.push("id may only use letters, digits, - and _ (up to 40)");
+    if (!result.ok || issues.length > 0) {
+      rows.push({ ...base, status: "invalid", issues: [...issues, ...(result.ok ? [] : result.issues.map(({ message }) => message))] });
+      return;
+    }
+
+    const key = doctorKey(result.input.name, result.input.clinic?.name);
+    const rosterMatch = rosterKeys.get(key);
+    const duplicateOf =
+      requestedId && seenIds.has(requestedId)
+        ? `row ${seenIds.get(requestedId)} (same id)`
+        : seenKeys.has(key)
+          ? `row ${seenKeys.get(key)} (same name and clinic)`
+          : rosterMatch && rosterMatch !== existing?.doctor.id
+            ? `doctor ${rosterMatch} (same name and clinic)`
+            : undefined;
+    if (requestedId) seenIds.set(requestedId, rowNumber);
+    seenKeys.set(key, rowNumber);
+    if (duplicateOf) {
+      rows.push({ ...base, status: "duplicate", duplicateOf, issues: [] });
+      return;
+    }
+
+    if (existing) {
+      const changes = changedFields(toDoctorInput(existing.doctor), result.input);
+      rows.push({ ...base, status: changes.length > 0 ? "changed" : "unchanged", changes, issues: [] });
+      if (changes.length > 0) {
+        records.push({ ...fromDoctorInput(existing.doctor.id, result.input, existing.doctor, now), retired: existing.retired });
+      }
+    } else {
+      const id = requestedId ?? nextDoctorId(usedIds);
+      usedIds.push(id);
+      rows.push({ ...base, id, status: "new", issues: [] });
+      records.push(fromDoctorInput(id, result.input, null, now));
+    }
+  });
+
+  return { rows, records };
+}
@@ -0,0 +1,83 @@
+// lib/roster/records.ts
+// Conversions between the Doctor model, the admin form's DoctorInput and stored RosterRecords.
+
+import type { Doctor } from "@/types/doctor";
+import type { DoctorInput, RosterRecord } from "@/types/roster";
+import { toRawSchedule } from "@/lib/doctors/schedule";
+
+export const EMPTY_DOCTOR_INPUT: DoctorInput = {
+  name: "",
+  name_initials: "",
+  photo: "",
+  doctor_introduction: "",
+  specialities: [],
+  fees: "",
+  experience: "",
+  languages: [],
+  clinic: null,
+  video_consult: true,
+  in_clinic: false,
+};
+
+// Form values for editing an existing doctor
+export const toDoctorInput = (doctor: Doctor): DoctorInput => ({
+  name: doctor.name,
+  name_initials: doctor.name_initials,
+  photo: doctor.photo ?? "",
+  doctor_introduction: doctor.doctor_introduction,
+  specialities: doctor.specialities.map(({ name }) => name),
+  fees: doctor.fees,
+  experience: doctor.experience,
+  languages: doctor.languages,
+  clinic: doctor.clinic,
+  video_consult: doctor.video_consult,
+  in_clinic: doctor.in_clinic,
+});
+
+// The record to store for a doctor as they are now, e.g. when retiring them
+export const toRosterRecord = (doctor: Doctor, retired: boolean, now = new Date()): RosterRecord => ({
+  id: doctor.id,
+  name: doctor.name,
+  name_initials: doctor.name_initials,
+  photo: doctor.photo,
+  doctor_introduction: doctor.doctor_introduction,
+  specialities: doctor.specialities,
+  fees: doctor.fees,
+  experience: doctor.experience,
+  languages: doctor.languages,
+  clinic: doctor.clinic,
+  video_consult: doctor.video_consult,
+  in_clinic: doctor.in_clinic,
+  schedule: toRawSchedule(doctor.schedule),
+  ...(doctor.ratings !== undefined && { ratings: doctor.ratings }),
+  retired,
+  updatedAt: now.toISOString(),
+});
+
+// A validated form submission as a record. Fields the form doesn't edit (schedule, ratings) come
+// from `existing`; a new doctor gets the default hours.
+export function fromDoctorInput(
+  id: string,
+  input: DoctorInput,
+  existing: Doctor | null,
+  now = new Date()
+): RosterRecord {
+  const { name_initials, photo, specialities, ...fields } = input;
+  return {
+    id,
+    ...fields,
+    name_initials, // Empty: derived from the name when the record is normalized
+    photo: photo || null,
+    specialities: specialities.map((name) => ({ name })),
+    ...(existing && { schedule: toRawSchedule(existing.schedule) }),
+    ...(existing?.ratings !== undefined && { ratings: existing.ratings }),
+    retired: false,
+    updatedAt: now.toISOString(),
+  };
+}
+
+// Next free id for a new doctor: one past the highest numeric id (source ids are like "1001")
+export function nextDoctorId(ids: string[]): string {
+  const numeric = ids.filter((id) => /^\d+$/.test(id)).map(Number);
+  return String(numeric.length > 0 ? Math.max(...numeric) + 1 : 1001);
+}
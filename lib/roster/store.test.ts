@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type { RosterRecord } from "@/types/roster";
+import { createMemoryJsonStore } from "@/lib/storage/jsonStore";
+import { createRosterStore } from "@/lib/roster/store";
+
+const record = (id: string, name: string): RosterRecord => ({
+  id,
+  name,
+  name_initials: "",
+  photo: null,
+  doctor_introduction: "",
+  specialities: [{ name: "Dentist" }],
+  fees: "₹ 400",
+  experience: "5 Years of experience",
+  languages: [],
+  clinic: null,
+  video_consult: true,
+  in_clinic: false,
+  retired: false,
+  updatedAt: "2026-10-19T10:00:00.000Z",
+});
+
+describe("createRosterStore", () => {
+  it("gives doctors added at the same time different ids", async () => {
+    const store = createRosterStore(createMemoryJsonStore([record("1003", "Dr. Stored")]));
+    const sourceIds = ["1001", "1002"];
+    const added = await Promise.all([
+      store.add((id) => record(id, "Dr. One"), sourceIds),
+      store.add((id) => record(id, "Dr. Two"), sourceIds),
+    ]);
+    expect(added.map(({ id }) => id)).toEqual(["1004", "1005"]);
+    expect((await store.list()).map(({ name }) => name)).toEqual(["Dr. Stored", "Dr. One", "Dr. Two"]);
+  });
+
+  it("replaces saved records with the same id", async () => {
+    const store = createRosterStore(createMemoryJsonStore([record("1001", "Dr. Old"), record("1002", "Dr. Kept")]));
+    await store.save([record("1001", "Dr. New")]);
+    expect((await store.list()).map(({ id, name }) => [id, name])).toEqual([
+      ["1002", "Dr. Kept"],
+      ["1001", "Dr. New"],
+    ]);
+  });
+});
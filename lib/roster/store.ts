@@ -0,0 +1,45 @@
+// lib/roster/store.ts
+// Doctor records created or edited in the admin console (server-only). They are laid over the
+// configured doctor source by loadRoster(), so the listing picks them up whatever the source is.
+// Kept in the JSON store from lib/storage/jsonStore.ts:
+//
+//   ROSTER_STORE=file     ROSTER_STORE_FILE=data/roster-edits.json   (default)
+//   ROSTER_STORE=memory   (lost on restart; handy for demos)
+
+import type { RosterRecord } from "@/types/roster";
+import { nextDoctorId } from "@/lib/roster/records";
+import { getJsonStore, JsonStore } from "@/lib/storage/jsonStore";
+
+export const DEFAULT_ROSTER_EDITS_FILE = "data/roster-edits.json";
+
+export interface RosterStore {
+  // Short label for logs, e.g. "file:data/roster-edits.json"
+  name: string;
+  list(): Promise<RosterRecord[]>;
+  // Adds the records, replacing any stored record with the same id
+  save(records: RosterRecord[]): Promise<void>;
+  // Adds a new doctor under the next free id. The id is picked inside the write queue, so two admins
+  // adding doctors at once get different ids. `takenIds`: ids the doctor source already uses.
+  add(build: (id: string) => RosterRecord, takenIds: string[]): Promise<RosterRecord>;
+}
+
+// Records are merged and written one request at a time, so concurrent saves don't drop edits
+export function createRosterStore(store: JsonStore<RosterRecord>): RosterStore {
+  return {
+    name: store.name,
+    list: () => store.read(),
+    save: (records) =>
+      store.update((stored) => {
+        const ids = new Set(records.map(({ id }) => id));
+        return { items: [...stored.filter(({ id }) => !ids.has(id)), ...records], result: undefined };
+      }),
+    add: (build, takenIds) =>
+      store.update((stored) => {
+        const record = build(nextDoctorId([...takenIds, ...stored.map(({ id }) => id)]));
+        return { items: [...stored, record], result: record };
+      }),
+  };
+}
+
+export const getRosterStore = (env: NodeJS.ProcessEnv = process.env): RosterStore =>
+  createRosterStore(getJsonStore("ROSTER_STORE", DEFAULT_ROSTER_EDITS_FILE, env));
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { validateDoctorInput } from "@/lib/roster/validate";
+
+const VALID = {
+  name: " Dr. Meera Rao ",
+  name_initials: "mr",
+  photo: "https://doctorlistingingestionpr.azureedge.net/photos/meera.jpg",
+  doctor_introduction: "Paediatrician.",
+  specialities: ["Paediatrician", " paediatrician ", "", "Neonatologist"],
+  fees: "₹ 600",
+  experience: "9 Years of experience",
+  languages: ["English", "Kannada"],
+  clinic: {
+    name: "Rao Child Clinic",
+    address: {
+      address_line1: "12 MG Road",
+      locality: "Indiranagar",
+      city: "Bengaluru",
+      location: "12.9784,77.6408",
+      logo_url: "https://placehold.co/64",
+    },
+  },
+  video_consult: true,
+  in_clinic: true,
+};
+
+// Fields with issues, in the order they were found
+const fieldsOf = (body: unknown) => {
+  const result = validateDoctorInput(body);
+  return result.ok ? [] : result.issues.map(({ field }) => field);
+};
+
+describe("validateDoctorInput", () => {
+  it("accepts a complete doctor and tidies it", () => {
+    const result = validateDoctorInput(VALID);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.input.name).toBe("Dr. Meera Rao");
+    expect(result.input.name_initials).toBe("MR");
+    expect(result.input.specialities).toEqual(["Paediatrician", "Neonatologist"]);
+    expect(result.input.clinic?.address.logo_url).toBe("https://placehold.co/64");
+  });
+
+  it("accepts a video-only doctor without a clinic or photo", () => {
+    expect(validateDoctorInput({ ...VALID, photo: "", clinic: null, in_clinic: false }).ok).toBe(true);
+  });
+
+  it("rejects a body that isn't an object", () => {
+    expect(fieldsOf([])).toEqual([""]);
+  });
+
+  it("reports every missing required field", () => {
+    expect(fieldsOf({ video_consult: true, in_clinic: false })).toEqual(["name", "specialities", "fees", "experience"]);
+  });
+
+  it("checks fees, experience and initials", () => {
+    expect(fieldsOf({ ...VALID, fees: "free", experience: "a decade", name_initials: "ABCD" })).toEqual([
+      "name_initials",
+      "fees",
+      "experience",
+    ]);
+    expect(fieldsOf({ ...VALID, experience: "80 Years of experience" })).toEqual(["experience"]);
+  });
+
+  it("only accepts images on the allowed hosts", () => {
+    expect(fieldsOf({ ...VALID, photo: "https://example.com/meera.jpg" })).toEqual(["photo"]);
+    expect(fieldsOf({ ...VALID, photo: "ftp://placehold.co/64" })).toEqual(["photo"]);
+    expect(fieldsOf({ ...VALID, photo: "not a url" })).toEqual(["photo"]);
+    expect(
+      fieldsOf({ ...VALID, clinic: { ...VALID.clinic, address: { ...VALID.clinic.address, logo_url: "http://evil.test/x.png" } } })
+    ).toEqual(["clinic.address.logo_url"]);
+  });
+
+  it("checks the clinic address", () => {
+    const clinic = { name: "", address: { locality: "", city: "Pune", location: "somewhere" } };
+    expect(fieldsOf({ ...VALID, clinic })).toEqual(["clinic.name", "clinic.address.locality", "clinic.address.location"]);
+  });
+
+  it("needs a consultation mode, and a clinic for in-clinic visits", () => {
+    expect(fieldsOf({ ...VALID, video_consult: false, in_clinic: false })).toEqual(["video_consult"]);
+    expect(fieldsOf({ ...VALID, clinic: null })).toEqual(["clinic"]);
+    expect(fieldsOf({ ...VALID, video_consult: "yes" })).toEqual(["video_consult"]);
+  });
+
+  it("rejects lists that aren't lists of names", () => {
+    expect(fieldsOf({ ...VALID, languages: "English" })).toEqual(["languages"]);
+  });
+});
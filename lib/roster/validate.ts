@@ -0,0 +1,129 @@
+// lib/roster/validate.ts
+// Runtime validation of the admin doctor form, shared by the form itself and /api/admin/doctors.
+
+import type { Clinic } from "@/types/doctor";
+import type { DoctorInput, DoctorInputIssue } from "@/types/roster";
+import { parseExperience, parseFee } from "@/lib/doctors/normalize";
+import { parseGeoPoint } from "@/lib/doctors/geo";
+import { IMAGE_HOSTS, isAllowedImageUrl } from "@/lib/doctors/images";
+
+export type ValidateDoctorInputResult =
+  | { ok: true; input: DoctorInput }
+  | { ok: false; issues: DoctorInputIssue[] };
+
+const MAX_NAME_LENGTH = 100;
+const MAX_INTRODUCTION_LENGTH = 2000;
+const MAX_LIST_ITEM_LENGTH = 60; // One specialty or language
+const MAX_EXPERIENCE_YEARS = 70;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const trimmed = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const imageHostsHint = `an http(s) URL on ${IMAGE_HOSTS.join(", ")}`;
+
+export function validateDoctorInput(body: unknown): ValidateDoctorInputResult {
+  if (!isRecord(body)) return { ok: false, issues: [{ field: "", message: "Expected a JSON object" }] };
+  const issues: DoctorInputIssue[] = [];
+  const issue = (field: string, message: string) => issues.push({ field, message });
+
+  const name = trimmed(body.name);
+  if (!name) issue("name", "Name is required");
+  else if (name.length > MAX_NAME_LENGTH) issue("name", `Name must be at most ${MAX_NAME_LENGTH} characters`);
+
+  const initials = trimmed(body.name_initials).toUpperCase();
+  if (initials && !/^[A-Z]{1,3}$/.test(initials)) issue("name_initials", "Initials must be 1 to 3 letters");
+
+  const photo = trimmed(body.photo);
+  if (photo && !isAllowedImageUrl(photo)) issue("photo", `Photo must be ${imageHostsHint}`);
+
+  const introduction = trimmed(body.doctor_introduction);
+  if (introduction.length > MAX_INTRODUCTION_LENGTH) {
+    issue("doctor_introduction", `Introduction must be at most ${MAX_INTRODUCTION_LENGTH} characters`);
+  }
+
+  // Trimmed, without blanks or repeats (ignoring case)
+  const list = (field: string, label: string): string[] => {
+    const value = body[field];
+    if (value !== undefined && !(Array.isArray(value) && value.every((item) => typeof item === "string"))) {
+      issue(field, `${label} must be a list of names`);
+      return [];
+    }
+    const items: string[] = [];
+    (value ?? []).forEach((item: string) => {
+      const text = item.trim().replace(/\s+/g, " ");
+      if (!text || items.some((other) => other.toLowerCase() === text.toLowerCase())) return;
+      if (text.length > MAX_LIST_ITEM_LENGTH) issue(field, `"${text}" is longer than ${MAX_LIST_ITEM_LENGTH} characters`);
+      items.push(text);
+    });
+    return items;
+  };
+  const specialities = list("specialities", "Specialities");
+  if (specialities.length === 0) issue("specialities", "Add at least one specialty");
+  const languages = list("languages", "Languages");
+
+  const fees = trimmed(body.fees);
+  if (!fees) issue("fees", "Fees are required");
+  else if (!parseFee(fees)) issue("fees", 'Fees must include an amount, e.g. "₹ 500"');
+
+  const experience = trimmed(body.experience);
+  const experienceYears = parseExperience(experience);
+  if (!experience) issue("experience", "Experience is required");
+  else if (experienceYears === null) issue("experience", 'Experience must start with the years, e.g. "13 Years of experience"');
+  else if (experienceYears > MAX_EXPERIENCE_YEARS) issue("experience", `Experience must be at most ${MAX_EXPERIENCE_YEARS} years`);
+
+  let clinic: Clinic | null = null;
+  if (isRecord(body.clinic)) {
+    const address = isRecord(body.clinic.address) ? body.clinic.address : {};
+    clinic = {
+      name: trimmed(body.clinic.name),
+      address: {
+        address_line1: trimmed(address.address_line1),
+        locality: trimmed(address.locality),
+        city: trimmed(address.city),
+        location: trimmed(address.location),
+        ...(trimmed(address.logo_url) && { logo_url: trimmed(address.logo_url) }),
+      },
+    };
+    if (!clinic.name) issue("clinic.name", "Clinic name is required");
+    if (!clinic.address.locality) issue("clinic.address.locality", "Locality is required");
+    if (!clinic.address.city) issue("clinic.address.city", "City is required");
+    if (clinic.address.location && !parseGeoPoint(clinic.address.location)) {
+      issue("clinic.address.location", 'Location must be "latitude,longitude" (e.g. "12.9352,77.6245") or a map link');
+    }
+    if (clinic.address.logo_url && !isAllowedImageUrl(clinic.address.logo_url)) {
+      issue("clinic.address.logo_url", `Logo must be ${imageHostsHint}`);
+    }
+  } else if (body.clinic !== undefined && body.clinic !== null) {
+    issue("clinic", "Clinic must be an object or null");
+  }
+
+  const { video_consult, in_clinic } = body;
+  if (typeof video_consult !== "boolean") issue("video_consult", "video_consult must be true or false");
+  if (typeof in_clinic !== "boolean") issue("in_clinic", "in_clinic must be true or false");
+  if (video_consult === false && in_clinic === false) {
+    issue("video_consult", "Offer at least one consultation mode");
+  }
+  if (in_clinic === true && !clinic) issue("clinic", "In-clinic consultations need a clinic");
+
+  if (issues.length > 0 || typeof video_consult !== "boolean" || typeof in_clinic !== "boolean") {
+    return { ok: false, issues };
+  }
+  return {
+    ok: true,
+    input: {
+      name,
+      name_initials: initials,
+      photo,
+      doctor_introduction: introduction,
+      specialities,
+      fees,
+      experience,
+      languages,
+      clinic,
+      video_consult,
+      in_clinic,
+    },
+  };
+}
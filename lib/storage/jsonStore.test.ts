@@ -0,0 +1,73 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createFileJsonStore, createMemoryJsonStore, getJsonStore } from "@/lib/storage/jsonStore";
+
+const append = (value: number) => (items: number[]) => ({ items: [...items, value], result: items.length });
+
+describe("createMemoryJsonStore", () => {
+  it("runs updates one at a time, each on the items the last one wrote", async () => {
+    const store = createMemoryJsonStore<number>();
+    const results = await Promise.all([1, 2, 3].map((value) => store.update(append(value))));
+    expect(results).toEqual([0, 1, 2]);
+    expect(await store.read()).toEqual([1, 2, 3]);
+  });
+
+  it("writes nothing when a change leaves out the items", async () => {
+    const store = createMemoryJsonStore([1]);
+    expect(await store.update((items) => ({ result: items[0] }))).toBe(1);
+    expect(await store.read()).toEqual([1]);
+  });
+
+  it("passes on what a change throws and keeps going", async () => {
+    const store = createMemoryJsonStore<number>();
+    const failed = store.update(() => {
+      throw new Error("taken");
+    });
+    const next = store.update(append(7));
+    await expect(failed).rejects.toThrow("taken");
+    await next;
+    expect(await store.read()).toEqual([7]);
+  });
+});
+
+describe("createFileJsonStore", () => {
+  let dir = "";
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads a missing file as empty and creates it on the first write", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "json-store-"));
+    const file = path.join(dir, "nested", "items.json");
+    const store = createFileJsonStore<{ id: string }>(file);
+    expect(store.name).toBe(`file:${file}`);
+    expect(await store.read()).toEqual([]);
+    await store.update((items) => ({ items: [...items, { id: "a" }], result: undefined }));
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual([{ id: "a" }]);
+    expect(await createFileJsonStore(file).read()).toEqual([{ id: "a" }]);
+  });
+});
+
+describe("getJsonStore", () => {
+  it("keeps one store per variable", () => {
+    const env: NodeJS.ProcessEnv = { NODE_ENV: "test", TEST_A_STORE: "memory", TEST_B_STORE: "memory" };
+    const store = getJsonStore("TEST_A_STORE", "unused.json", env);
+    expect(store.name).toBe("memory");
+    expect(getJsonStore("TEST_A_STORE", "unused.json", env)).toBe(store);
+    expect(getJsonStore("TEST_B_STORE", "unused.json", env)).not.toBe(store);
+  });
+
+  it("uses the <variable>_FILE path for file stores", () => {
+    const env: NodeJS.ProcessEnv = { NODE_ENV: "test", TEST_C_STORE_FILE: "tmp/c.json" };
+    expect(getJsonStore("TEST_C_STORE", "data/c.json", env).name).toBe("file:tmp/c.json");
+  });
+
+  it("rejects an unknown kind", () => {
+    const env: NodeJS.ProcessEnv = { NODE_ENV: "test", TEST_D_STORE: "redis" };
+    expect(() => getJsonStore("TEST_D_STORE", "data/d.json", env)).toThrow(
+      'Unknown TEST_D_STORE "redis". Expected "file" or "memory".'
+    );
+  });
+});
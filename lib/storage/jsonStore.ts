@@ -0,0 +1,101 @@
+// lib/storage/jsonStore.ts
+// A JSON array kept in memory or in a file (server-only). The booking, review and roster stores are
+// built on it and add only their own checks and queries.
+//
+//   <VARIABLE>=file     <VARIABLE>_FILE=<default file>   (default)
+//   <VARIABLE>=memory   (lost on restart; handy for demos)
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+// What a change to the items returns: the items to write (left out: nothing changed) and its result
+export interface JsonStoreChange<T, R> {
+  items?: T[];
+  result: R;
+}
+
+export interface JsonStore<T> {
+  // Short label for logs, e.g. "file:data/bookings.json"
+  name: string;
+  read(): Promise<T[]>;
+  // Reads, changes and writes the items one call at a time, so concurrent requests can't overwrite
+  // each other's writes or both pass the same check. What `change` throws is passed on.
+  update<R>(change: (items: T[]) => JsonStoreChange<T, R>): Promise<R>;
+}
+
+function createJsonStore<T>(name: string, read: () => Promise<T[]>, write: (items: T[]) => Promise<void>): JsonStore<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialized = <R>(task: () => Promise<R>): Promise<R> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    name,
+    read: () => serialized(read),
+    update: (change) =>
+      serialized(async () => {
+        const { items, result } = change(await read());
+        if (items) await write(items);
+        return result;
+      }),
+  };
+}
+
+export function createMemoryJsonStore<T>(initial: T[] = []): JsonStore<T> {
+  let items = [...initial];
+  return createJsonStore(
+    "memory",
+    async () => items,
+    async (next) => {
+      items = next;
+    }
+  );
+}
+
+// Created on the first write; relative paths resolve from the project root
+export function createFileJsonStore<T>(filePath: string): JsonStore<T> {
+  const absolutePath = path.resolve(process.cwd(), filePath);
+  return createJsonStore(
+    `file:${filePath}`,
+    async () => {
+      try {
+        return JSON.parse(await readFile(absolutePath, "utf8")) as T[];
+      } catch (e: unknown) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw e;
+      }
+    },
+    async (items) => {
+      await mkdir(path.dirname(absolutePath), { recursive: true });
+      await writeFile(absolutePath, `${JSON.stringify(items, null, 2)}\n`, "utf8");
+    }
+  );
+}
+
+// One store per variable and server process, so the in-memory items and the write queue are shared
+// by all routes. Kept on globalThis because each route may get its own copy of this module.
+const globalStores = globalThis as { jsonStores?: Map<string, JsonStore<unknown>> };
+
+// The store `variable` selects, e.g. getJsonStore("BOOKING_STORE", "data/bookings.json")
+export function getJsonStore<T>(variable: string, defaultFile: string, env: NodeJS.ProcessEnv = process.env): JsonStore<T> {
+  const stores = (globalStores.jsonStores ??= new Map());
+  const existing = stores.get(variable);
+  if (existing) return existing as JsonStore<T>;
+
+  const kind = env[variable] || "file";
+  let store: JsonStore<T>;
+  switch (kind) {
+    case "file":
+      store = createFileJsonStore(env[`${variable}_FILE`] || defaultFile);
+      break;
+    case "memory":
+      store = createMemoryJsonStore();
+      break;
+    default:
+      throw new Error(`Unknown ${variable} "${kind}". Expected "file" or "memory".`);
+  }
+  stores.set(variable, store as JsonStore<unknown>);
+  return store;
+}
@@ -0,0 +1,19 @@
+// middleware.ts
+// Keeps the admin console and every /api/admin route behind the admin login (lib/admin/auth.ts).
+// The browser asks for the credentials once and sends them with the console's own API calls.
+
+import { NextRequest, NextResponse } from "next/server";
+import { ADMIN_REALM, isAdminAuthorized } from "@/lib/admin/auth";
+
+export function middleware(request: NextRequest) {
+  if (isAdminAuthorized(request.headers.get("authorization"))) return NextResponse.next();
+
+  const headers = { "WWW-Authenticate": `Basic realm="${ADMIN_REALM}", charset="UTF-8"` };
+  return request.nextUrl.pathname.startsWith("/api/")
+    ? NextResponse.json({ error: "Admin login required." }, { status: 401, headers })
+    : new NextResponse("Admin login required.", { status: 401, headers });
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*"],
+};
@@ -1,11 +1,10 @@
 import type { NextConfig } from "next";
+import { IMAGE_HOSTS } from "./lib/doctors/images";
 
 const nextConfig: NextConfig = {
   images: {
-    domains: [
-      "doctorlistingingestionpr.azureedge.net",
-      "doctorlistingingestionpr.blob.core.windows.net"
-    ],
+    // The roster validator checks photo and logo URLs against the same hosts
+    remotePatterns: IMAGE_HOSTS.map((hostname) => ({ hostname })),
   },
 };
 
@@ -0,0 +1,37 @@
+// types/booking.ts
+import type { ConsultationMode } from "./doctor";
+
+export interface PatientDetails {
+  name: string;
+  phone: string;
+  email?: string;
+}
+
+// What the booking form submits. Dates and times are clinic-local (see lib/bookings/slots.ts).
+export interface BookingRequest {
+  doctorId: string;
+  mode: ConsultationMode;
+  date: string; // "YYYY-MM-DD"
+  time: string; // Slot start, "HH:MM"
+  patient: PatientDetails;
+}
+
+export interface Booking extends BookingRequest {
+  id: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface TimeSlot {
+  time: string; // "HH:MM"
+  available: boolean; // false once someone has booked it
+}
+
+// GET /api/doctors/[id]/slots response
+export interface DaySlots {
+  doctorId: string;
+  mode: ConsultationMode;
+  date: string;
+  dates: string[]; // Every date that can currently be booked, for the date picker
+  slots: TimeSlot[];
+  note?: string; // Schedule exception on that date, e.g. "On leave"
+}
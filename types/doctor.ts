@@ -1,16 +1,116 @@
 // src/types/doctor.ts
+
+export type ConsultationMode = "video" | "clinic";
+
+export interface Money {
+  amount: number;
+  currency: string; // ISO 4217 code, e.g. "INR"
+}
+
+export interface ClinicAddress {
+  locality: string;
+  city: string;
+  address_line1: string;
+  location: string;
+  logo_url?: string; // Optional logo
+}
+
+export interface Clinic {
+  name: string;
+  address: ClinicAddress;
+}
+
+// == Schedules ==
+// Clinic-local times, "HH:MM"; see lib/doctors/schedule.ts
+
+export type Weekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+export interface TimeRange {
+  start: string; // Inclusive, e.g. "09:00"
+  end: string; // Exclusive, e.g. "13:00"
+}
+
+export type WeeklyHours = Record<Weekday, TimeRange[]>; // No ranges: not consulting that day
+
+// Replaces the weekly hours on one date, e.g. leave (no hours) or a shorter day
+export interface ScheduleException {
+  date: string; // "YYYY-MM-DD"
+  modes: ConsultationMode[]; // Modes it applies to
+  hours: TimeRange[];
+  reason?: string; // e.g. "On leave"
+}
+
+export interface Schedule {
+  weekly: Record<ConsultationMode, WeeklyHours>;
+  exceptions: ScheduleException[];
+}
+
+// Canonical doctor model used throughout the app.
+// Built from either raw record shape by lib/doctors/normalize.ts; never construct it from unchecked JSON.
 export interface Doctor {
-    id: number;
-    name: string;
-    specialty: string;
-    experience: string; // e.g., "10 years"
-    ratings: number;
-    availability: {
-      "Video Consult": boolean;
-      "In Clinic": boolean;
-    };
-    fees: string; // e.g., "$50"
-    profile_img: string;
-    video_consult?: boolean;
-in_clinic?: boolean;
-  }
\ No newline at end of file
+  id: string;
+  name: string;
+  name_initials: string;
+  photo: string | null;
+  doctor_introduction: string;
+  specialities: { name: string }[];
+  fees: string; // Display string as received, e.g. "₹ 500"
+  fee: Money; // Parsed from `fees`
+  experience: string; // Display string as received, e.g. "13 Years of experience"
+  experience_years: number; // Parsed from `experience`
+  languages: string[];
+  clinic: Clinic | null;
+  video_consult: boolean;
+  in_clinic: boolean;
+  schedule: Schedule; // Only consulted for the modes the doctor offers
+  ratings?: number; // 0–5: the average of the patient reviews, or the roster's rating when there are none
+  review_count?: number; // Patient reviews behind `ratings`; absent when it came from the roster
+}
+
+// == Raw record shapes ==
+// What the data sources may return before normalization.
+
+// Schedule as written in roster files. Omitted: Monday to Saturday, 09:00-17:00, for every mode offered.
+//   { "video": { "mon": ["09:00-13:00", "17:00-20:00"], ... }, "clinic": { ... },
+//     "exceptions": [{ "date": "2025-06-02", "modes": ["clinic"], "hours": [], "reason": "On leave" }] }
+export interface RawSchedule {
+  video?: Partial<Record<Weekday, string[]>>;
+  clinic?: Partial<Record<Weekday, string[]>>;
+  exceptions?: { date: string; modes?: ConsultationMode[]; hours?: string[]; reason?: string }[];
+}
+
+// Doctor record as served by the campus mock API
+export interface ApiDoctorRecord {
+  id: string;
+  name: string;
+  name_initials: string;
+  photo: string;
+  doctor_introduction: string;
+  specialities: { name: string }[];
+  fees: string; // e.g., "₹ 500"
+  experience: string; // e.g., "13 Years of experience"
+  languages: string[];
+  clinic: Clinic;
+  video_consult: boolean;
+  in_clinic: boolean;
+  schedule?: RawSchedule;
+}
+
+// Older flat record shape
+export interface LegacyDoctorRecord {
+  id: number;
+  name: string;
+  specialty: string;
+  experience: string; // e.g., "10 years"
+  ratings: number;
+  availability: {
+    "Video Consult": boolean;
+    "In Clinic": boolean;
+  };
+  fees: string; // e.g., "$50"
+  profile_img: string;
+  video_consult?: boolean;
+  in_clinic?: boolean;
+}
+
+export type RawDoctorRecord = ApiDoctorRecord | LegacyDoctorRecord;
@@ -0,0 +1,46 @@
+// types/review.ts
+import type { PatientDetails } from "./booking";
+import type { ConsultationMode } from "./doctor";
+
+// What the review form submits
+export interface ReviewRequest {
+  doctorId: string;
+  rating: number; // Whole stars, 1–5
+  comment: string; // May be empty
+  mode: ConsultationMode; // How the patient saw the doctor
+  patient: Pick<PatientDetails, "name" | "phone">; // The phone number identifies the patient
+}
+
+export interface Review extends ReviewRequest {
+  id: string;
+  createdAt: string; // ISO timestamp
+  hidden: boolean; // Hidden by a moderator: kept, but neither shown nor counted
+}
+
+// A review as the moderation API and page show it: the patient's full name, but not their phone number
+export interface ModeratedReview extends Omit<Review, "patient"> {
+  patient: Pick<PatientDetails, "name">;
+}
+
+// A review as the public API shows it: no phone number, and only the author's first name and initial
+export interface PublicReview {
+  id: string;
+  doctorId: string;
+  rating: number;
+  comment: string;
+  mode: ConsultationMode;
+  author: string; // e.g. "Priya S."
+  createdAt: string;
+}
+
+export interface ReviewSummary {
+  average: number; // Mean of the visible ratings, to one decimal
+  count: number; // Visible reviews
+}
+
+// GET /api/doctors/[id]/reviews response
+export interface DoctorReviews {
+  doctorId: string;
+  summary: ReviewSummary | null; // null until the doctor has a visible review
+  reviews: PublicReview[]; // Newest first
+}
@@ -0,0 +1,102 @@
+// types/roster.ts
+import type { Clinic, Doctor, RawSchedule } from "./doctor";
+
+// What the admin doctor form submits. `schedule` and `ratings` aren't edited there and are kept as they are.
+export interface DoctorInput {
+  name: string;
+  name_initials: string; // Derived from the name when left empty
+  photo: string; // Image URL, or empty
+  doctor_introduction: string;
+  specialities: string[];
+  fees: string; // e.g. "₹ 500"
+  experience: string; // e.g. "13 Years of experience"
+  languages: string[];
+  clinic: Clinic | null;
+  video_consult: boolean;
+  in_clinic: boolean;
+}
+
+export interface DoctorInputIssue {
+  field: string; // e.g. "fees", "clinic.address.city"
+  message: string;
+}
+
+// A doctor saved from the admin console, in the roster-file record shape (see lib/roster/store.ts).
+// It replaces the source record with the same id, or adds a doctor the source doesn't have.
+export interface RosterRecord {
+  id: string;
+  name: string;
+  name_initials: string;
+  photo: string | null;
+  doctor_introduction: string;
+  specialities: { name: string }[];
+  fees: string;
+  experience: string;
+  languages: string[];
+  clinic: Clinic | null;
+  video_consult: boolean;
+  in_clinic: boolean;
+  schedule?: RawSchedule; // Omitted: the default hours
+  ratings?: number;
+  retired: boolean; // Soft delete: hidden from the listing, kept for the admin console
+  updatedAt: string; // ISO timestamp
+}
+
+// One doctor as the admin console sees it
+export interface RosterEntry {
+  doctor: Doctor;
+  retired: boolean;
+  updatedAt: string | null; // null: never edited, straight from the doctor source
+}
+
+// == Bulk import ==
+// See lib/roster/import.ts
+
+export type ImportFormat = "csv" | "json";
+
+// Doctor field an import column can be mapped onto
+export type ImportField =
+  | "id"
+  | keyof Omit<DoctorInput, "clinic">
+  | "clinic.name"
+  | "clinic.address.address_line1"
+  | "clinic.address.locality"
+  | "clinic.address.city"
+  | "clinic.address.location"
+  | "clinic.address.logo_url";
+
+export type ImportColumnMapping = Record<string, ImportField | null>; // Column -> field; null: ignored
+
+// new: adds a doctor; changed / unchanged: matches an existing doctor by id; duplicate: repeats
+// another row or an existing doctor; invalid: fails validation
+export type ImportRowStatus = "new" | "changed" | "unchanged" | "duplicate" | "invalid";
+
+export interface ImportRowResult {
+  row: number; // 1-based data row, after the header
+  status: ImportRowStatus;
+  id: string | null; // The doctor it updates, or the id the row asked for
+  name: string;
+  changes: string[]; // Fields a changed row updates
+  duplicateOf?: string; // e.g. "row 3" or "doctor 1004"
+  issues: string[];
+}
+
+export interface ImportReport {
+  rows: ImportRowResult[];
+  counts: Record<ImportRowStatus, number>;
+  committed: boolean; // false for a dry run
+}
+
+// POST /api/admin/import
+export interface ImportRequest {
+  format: ImportFormat;
+  text: string; // The file's contents
+  mapping?: ImportColumnMapping; // Guessed from the column names when left out
+  commit?: boolean;
+}
+
+export interface ImportResponse {
+  columns: string[];
+  mapping: ImportColumnMapping;
+  report: ImportReport;
+}